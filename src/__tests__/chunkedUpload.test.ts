@@ -0,0 +1,197 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { Types } from "mongoose";
+import { env } from "../config/env";
+import { UploadSession, UploadSessionDocument } from "../models/UploadSession";
+import {
+  completeUploadSession,
+  describeUploadSession,
+  findUploadSession,
+  initUploadSession,
+  writeUploadChunk,
+} from "../services/chunkedUpload.service";
+import { spyOnStatic } from "./helpers/mongoose";
+
+const stored: Buffer[] = [];
+
+jest.mock("../services/storage", () => ({
+  getStorageDriver: () => ({
+    putStream: async (stream: Readable, meta: { fileName: string }) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) chunks.push(chunk);
+      stored.push(Buffer.concat(chunks));
+      return {
+        provider: "local",
+        key: `evidence/${meta.fileName}`,
+        resourceType: "raw",
+        format: "pdf",
+        size: stored[stored.length - 1].length,
+      };
+    },
+  }),
+}));
+
+const MB = 1024 * 1024;
+const FILE = Buffer.concat([
+  Buffer.from("%PDF-1.4\n"),
+  Buffer.alloc(2.5 * MB - 9, 7),
+]);
+const SHA256 = createHash("sha256").update(FILE).digest("hex");
+
+const chunkOf = (index: number) =>
+  Readable.from([FILE.subarray(index * MB, (index + 1) * MB)]);
+
+// Applies the handful of update shapes the service sends
+const sessions = new Map<string, UploadSessionDocument>();
+const sessionDirs: string[] = [];
+type SessionFilter = { _id: Types.ObjectId; status?: string };
+const applyUpdate = (filter: SessionFilter, update: Record<string, any>) => {
+  const session = sessions.get(String(filter._id));
+  if (!session || (filter.status && session.status !== filter.status))
+    return null;
+  const { $addToSet, $set, ...fields } = update;
+  if ($addToSet && !session.receivedChunks.includes($addToSet.receivedChunks))
+    session.receivedChunks.push($addToSet.receivedChunks);
+  Object.assign(session, $set, fields);
+  return session;
+};
+
+const startUpload = () =>
+  initUploadSession({
+    indicatorId: new Types.ObjectId(),
+    uploadedBy: new Types.ObjectId(),
+    fileName: "register.pdf",
+    mimeType: "application/pdf",
+    totalSize: FILE.length,
+    chunkSize: MB,
+  });
+
+const chunkFiles = (session: UploadSessionDocument) =>
+  fs.promises
+    .readdir(path.join(env.UPLOAD_TMP_DIR, String(session._id)))
+    .catch(() => []);
+
+describe("chunked uploads", () => {
+  beforeEach(() => {
+    sessions.clear();
+    stored.length = 0;
+    spyOnStatic(UploadSession, "create").mockImplementation(
+      async (doc: object) => {
+        const session = new UploadSession(doc);
+        sessions.set(String(session._id), session);
+        sessionDirs.push(path.join(env.UPLOAD_TMP_DIR, String(session._id)));
+        return session;
+      },
+    );
+    spyOnStatic(UploadSession, "findOne").mockImplementation(
+      (filter: { _id: string }) =>
+        Promise.resolve(sessions.get(String(filter._id)) ?? null),
+    );
+    for (const method of ["findOneAndUpdate", "updateOne"] as const)
+      spyOnStatic(UploadSession, method).mockImplementation(
+        (filter: SessionFilter, update: Record<string, any>) =>
+          Promise.resolve(applyUpdate(filter, update)),
+      );
+    jest.spyOn(UploadSession.prototype, "save").mockImplementation(function (
+      this: UploadSessionDocument,
+    ) {
+      return Promise.resolve(this);
+    });
+  });
+  afterEach(() => jest.restoreAllMocks());
+  afterAll(() =>
+    Promise.all(
+      sessionDirs.map((dir) =>
+        fs.promises.rm(dir, { recursive: true, force: true }),
+      ),
+    ),
+  );
+
+  it("validates the upload before opening a session", async () => {
+    await expect(
+      initUploadSession({
+        indicatorId: new Types.ObjectId(),
+        uploadedBy: new Types.ObjectId(),
+        fileName: "tool.exe",
+        mimeType: "application/x-msdownload",
+        totalSize: MB,
+      }),
+    ).rejects.toMatchObject({ statusCode: 400 });
+
+    const session = await startUpload();
+    expect(describeUploadSession(session)).toMatchObject({
+      status: "active",
+      totalChunks: 3,
+      missingChunks: [0, 1, 2],
+    });
+  });
+
+  it("resumes after a dropped chunk and assembles the file in order", async () => {
+    const session = await startUpload();
+
+    await writeUploadChunk(session, 2, chunkOf(2));
+    await writeUploadChunk(session, 0, chunkOf(0));
+    await expect(completeUploadSession(session)).rejects.toMatchObject({
+      statusCode: 400,
+      message: "Missing chunks: 1",
+    });
+
+    // The connection drops halfway through chunk 1
+    const partial = Readable.from([FILE.subarray(MB, MB + 1000)]);
+    await expect(writeUploadChunk(session, 1, partial)).rejects.toMatchObject({
+      statusCode: 400,
+    });
+    expect(await chunkFiles(session)).toEqual(
+      expect.arrayContaining(["0.part", "2.part"]),
+    );
+    expect(await chunkFiles(session)).toHaveLength(2);
+
+    const resumed = await findUploadSession(
+      String(session._id),
+      String(session.indicator),
+      session.uploadedBy,
+    );
+    expect(describeUploadSession(resumed).missingChunks).toEqual([1]);
+
+    await writeUploadChunk(resumed, 1, chunkOf(1));
+    await writeUploadChunk(resumed, 1, chunkOf(1));
+    expect(describeUploadSession(resumed)).toMatchObject({
+      receivedChunks: [0, 1, 2],
+      missingChunks: [],
+    });
+
+    const completed = await completeUploadSession(resumed, SHA256);
+
+    expect(completed.status).toBe("completed");
+    expect(completed.stored?.sha256).toBe(SHA256);
+    expect(stored).toHaveLength(1);
+    expect(stored[0].equals(FILE)).toBe(true);
+    expect(await chunkFiles(session)).toEqual([]);
+  });
+
+  it("rejects chunks larger than the declared chunk size", async () => {
+    const session = await startUpload();
+    const oversized = Readable.from([Buffer.alloc(MB + 1)]);
+
+    await expect(writeUploadChunk(session, 0, oversized)).rejects.toMatchObject(
+      { statusCode: 413 },
+    );
+    expect(await chunkFiles(session)).toEqual([]);
+  });
+
+  it("keeps the chunks and reopens the upload on a checksum mismatch", async () => {
+    const session = await startUpload();
+    for (const index of [0, 1, 2])
+      await writeUploadChunk(session, index, chunkOf(index));
+
+    await expect(
+      completeUploadSession(session, "0".repeat(64)),
+    ).rejects.toMatchObject({ statusCode: 422 });
+
+    expect(session.status).toBe("active");
+    expect(stored).toHaveLength(0);
+    expect(await chunkFiles(session)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,106 @@
+import AdmZip from "adm-zip";
+import { createHash } from "crypto";
+import { Types } from "mongoose";
+import { PassThrough, Readable } from "stream";
+import {
+  ArchiveIndicator,
+  streamEvidenceArchive,
+} from "../services/evidenceArchive.service";
+
+const files: Record<string, Buffer> = {
+  "a.pdf": Buffer.from("%PDF-1.4 first"),
+  "b.png": Buffer.from("png bytes"),
+};
+
+jest.mock("../services/storage", () => ({
+  evidenceStorageRef: (ev: { fileName: string }) => ev.fileName,
+  storageForEvidence: () => ({
+    getStream: async (name: string) => {
+      if (!files[name]) throw new Error("not found");
+      return { stream: Readable.from([files[name]]) };
+    },
+  }),
+}));
+
+const sha = (buffer: Buffer) =>
+  createHash("sha256").update(buffer).digest("hex");
+
+const evidence = (fileName: string, extra: Record<string, unknown> = {}) => ({
+  _id: new Types.ObjectId(),
+  fileName,
+  uploadedAt: new Date("2026-01-01"),
+  status: "pending",
+  isArchived: false,
+  ...extra,
+});
+
+const collect = async (indicators: ArchiveIndicator[]) => {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on("data", (chunk) => chunks.push(chunk));
+  const result = await streamEvidenceArchive(indicators, output);
+  return { result, zip: new AdmZip(Buffer.concat(chunks)) };
+};
+
+describe("streamEvidenceArchive", () => {
+  it("streams files and records integrity in the manifest", async () => {
+    const indicator = {
+      _id: new Types.ObjectId(),
+      indicatorTitle: "Case backlog",
+      evidence: [
+        evidence("a.pdf", { sha256: sha(files["a.pdf"]) }),
+        evidence("b.png", { sha256: "0".repeat(64) }),
+        evidence("gone.pdf"),
+        evidence("a.pdf"),
+        evidence("old.pdf", { isArchived: true }),
+      ],
+    } as unknown as ArchiveIndicator;
+
+    const { result, zip } = await collect([indicator]);
+
+    expect(result).toEqual({ files: 4 });
+    expect(zip.getEntries().map((e) => e.entryName)).toEqual([
+      "a.pdf",
+      "b.png",
+      "a (2).pdf",
+      "manifest.csv",
+    ]);
+    expect(zip.readFile("a.pdf")?.equals(files["a.pdf"])).toBe(true);
+
+    const manifest = zip.readAsText("manifest.csv").split("\n");
+    expect(manifest).toHaveLength(5);
+    expect(manifest[1]).toContain('"a.pdf","a.pdf"');
+    expect(manifest[1]).toMatch(/"verified"$/);
+    expect(manifest[2]).toMatch(/"mismatch"$/);
+    expect(manifest[3]).toContain('"gone.pdf",""');
+    expect(manifest[3]).toMatch(/"missing"$/);
+    expect(manifest[4]).toMatch(/"unhashed"$/);
+  });
+
+  it("writes a header-only manifest when nothing is selected", async () => {
+    const { result, zip } = await collect([
+      {
+        _id: new Types.ObjectId(),
+        indicatorTitle: "Empty",
+        evidence: [],
+      } as ArchiveIndicator,
+    ]);
+
+    expect(result).toEqual({ files: 0 });
+    expect(zip.readAsText("manifest.csv")).toMatch(/^"Indicator","File Name"/);
+  });
+
+  it("keeps formula-like user text out of the manifest", async () => {
+    const { zip } = await collect([
+      {
+        _id: new Types.ObjectId(),
+        indicatorTitle: "@SUM(1+1)",
+        evidence: [evidence("a.pdf", { description: '=HYPERLINK("x")' })],
+      } as unknown as ArchiveIndicator,
+    ]);
+
+    const row = zip.readAsText("manifest.csv").split("\n")[1];
+    expect(row).toMatch(/^"'@SUM\(1\+1\)"/);
+    expect(row).toContain(`"'=HYPERLINK(""x"")"`);
+  });
+});
@@ -0,0 +1,91 @@
+import { Types } from "mongoose";
+import {
+  failAbandonedIntegrityRuns,
+  verifyAllEvidence,
+} from "../jobs/evidenceIntegrity.job";
+import { isLockHeld } from "../jobs/scheduler";
+import { EvidenceIntegrityRun } from "../models/EvidenceIntegrityRun";
+import { Indicator } from "../models/Indicator";
+import { checkEvidenceIntegrity } from "../services/evidenceIntegrity.service";
+import { mockQuery, writeResult } from "./helpers/mongoose";
+
+jest.mock("../jobs/scheduler", () => ({
+  isLockHeld: jest.fn(),
+  runWithLock: jest.fn(),
+}));
+jest.mock("../services/evidenceIntegrity.service", () => ({
+  checkEvidenceIntegrity: jest.fn(),
+  recordIntegrityStatus: jest.fn(),
+}));
+
+describe("failAbandonedIntegrityRuns", () => {
+  let updateMany: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    updateMany = jest
+      .spyOn(EvidenceIntegrityRun, "updateMany")
+      .mockResolvedValue(writeResult());
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  it("fails every running run at startup when no lock is held", async () => {
+    jest.mocked(isLockHeld).mockResolvedValue(false);
+    await failAbandonedIntegrityRuns({ atStartup: true });
+
+    expect(updateMany.mock.calls[0][0]).toEqual({ status: "running" });
+    expect(updateMany.mock.calls[0][1]).toMatchObject({ status: "failed" });
+  });
+
+  it("only fails runs without a recent heartbeat otherwise", async () => {
+    jest.mocked(isLockHeld).mockResolvedValue(true);
+    await failAbandonedIntegrityRuns({ atStartup: true });
+    await failAbandonedIntegrityRuns();
+
+    for (const [filter] of updateMany.mock.calls) {
+      expect(filter.status).toBe("running");
+      expect(filter.$or[0].heartbeatAt.$lt).toBeInstanceOf(Date);
+    }
+    expect(isLockHeld).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("verifyAllEvidence", () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it("caps recorded issues but keeps counting them", async () => {
+    const evidence = Array.from({ length: 1005 }, (_, i) => ({
+      _id: new Types.ObjectId(),
+      fileName: `f${i}.pdf`,
+      sha256: "a".repeat(64),
+      integrityStatus: "missing",
+    }));
+    const indicator = {
+      _id: new Types.ObjectId(),
+      indicatorTitle: "T",
+      evidence,
+    };
+    mockQuery(Indicator, "find", {
+      select: () => ({ lean: () => ({ cursor: () => [indicator] }) }),
+    });
+    jest
+      .spyOn(EvidenceIntegrityRun, "updateOne")
+      .mockResolvedValue(writeResult());
+    jest.mocked(checkEvidenceIntegrity).mockResolvedValue({
+      status: "missing",
+      actual: null,
+    });
+
+    const run = new EvidenceIntegrityRun({ startedBy: new Types.ObjectId() });
+    jest.spyOn(run, "save").mockResolvedValue(run);
+    const renew = jest.fn().mockResolvedValue(undefined);
+
+    await verifyAllEvidence(run, renew);
+
+    expect(run.totals.missing).toBe(1005);
+    expect(run.issues).toHaveLength(1000);
+    expect(run.issuesOmitted).toBe(5);
+    expect(run.status).toBe("completed");
+    expect(renew).toHaveBeenCalledTimes(1005);
+  });
+});
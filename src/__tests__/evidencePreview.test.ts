@@ -0,0 +1,95 @@
+import { createCanvas } from "@napi-rs/canvas";
+import { Types } from "mongoose";
+import { Indicator } from "../models/Indicator";
+import { generateEvidencePreview } from "../services/evidencePreview.service";
+
+const mockPut = jest.fn();
+
+jest.mock("../services/storage", () => ({
+  evidenceStorageRef: () => "ref",
+  storageForEvidence: () => ({}),
+  getStorageDriver: () => ({ put: mockPut, delete: jest.fn() }),
+}));
+
+// A PNG header only: signature plus an IHDR chunk declaring the size
+const pngHeader = (width: number, height: number) => {
+  const ihdr = Buffer.alloc(25);
+  ihdr.writeUInt32BE(13, 0);
+  ihdr.write("IHDR", 4, "latin1");
+  ihdr.writeUInt32BE(width, 8);
+  ihdr.writeUInt32BE(height, 12);
+  ihdr.writeUInt8(8, 16);
+  ihdr.writeUInt8(6, 17);
+  return Buffer.concat([Buffer.from("89504e470d0a1a0a", "hex"), ihdr]);
+};
+
+const evidence = (mimeType: string, fileSize: number) =>
+  ({
+    _id: new Types.ObjectId(),
+    fileName: "photo.png",
+    fileSize,
+    mimeType,
+  }) as Parameters<typeof generateEvidencePreview>[1];
+
+const savedPreview = (updateOne: jest.SpyInstance) =>
+  updateOne.mock.calls[0][1].$set["evidence.$.preview"];
+
+describe("generateEvidencePreview", () => {
+  let updateOne: jest.SpyInstance;
+
+  beforeEach(() => {
+    mockPut.mockReset();
+    updateOne = jest
+      .spyOn(Indicator, "updateOne")
+      .mockResolvedValue({ matchedCount: 1 } as Awaited<
+        ReturnType<typeof Indicator.updateOne>
+      >);
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  it("does not decode images whose header declares a huge bitmap", async () => {
+    const source = pngHeader(30000, 30000);
+
+    await generateEvidencePreview(
+      new Types.ObjectId(),
+      evidence("image/png", source.length),
+      source,
+    );
+
+    expect(savedPreview(updateOne)).toEqual({
+      status: "unsupported",
+      error: "Image is too large to preview",
+    });
+    expect(mockPut).not.toHaveBeenCalled();
+  });
+
+  it("renders thumbnails in a worker thread", async () => {
+    const canvas = createCanvas(640, 480);
+    canvas.getContext("2d").fillRect(0, 0, 640, 480);
+    const source = await canvas.encode("png");
+    mockPut.mockResolvedValue({
+      provider: "local",
+      key: "thumb.png",
+      resourceType: "image",
+      format: "png",
+      size: 1,
+    });
+
+    await generateEvidencePreview(
+      new Types.ObjectId(),
+      evidence("image/png", source.length),
+      source,
+    );
+
+    const [png] = mockPut.mock.calls[0];
+    expect(Buffer.isBuffer(png)).toBe(true);
+    expect(savedPreview(updateOne)).toMatchObject({
+      status: "ready",
+      width: 320,
+      height: 240,
+    });
+    expect(
+      updateOne.mock.calls[0][1].$set["evidence.$.metadata"],
+    ).toMatchObject({ width: 640, height: 480 });
+  });
+});
@@ -0,0 +1,135 @@
+import { Readable } from "stream";
+import { Types } from "mongoose";
+import { Indicator } from "../models/Indicator";
+import { queueEvidencePreviews } from "../services/evidencePreview.service";
+import { scanEvidence } from "../services/evidenceScan.service";
+import { notifyUser } from "../services/notification.service";
+import { getScanDriver } from "../services/scanning";
+import { writeResult } from "./helpers/mongoose";
+
+jest.mock("../services/notification.service", () => ({
+  notifyUser: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock("../utils/activityLogger", () => ({
+  logActivity: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock("../services/evidencePreview.service", () => ({
+  queueEvidencePreviews: jest.fn(),
+}));
+jest.mock("../services/storage", () => ({
+  evidenceStorageRef: (ev: { fileName: string }) => ev.fileName,
+  storageForEvidence: () => ({
+    getStream: async () => {
+      throw new Error("storage unavailable");
+    },
+  }),
+}));
+
+const EICAR =
+  "X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*";
+
+const indicatorId = new Types.ObjectId();
+const evidence = (): Parameters<typeof scanEvidence>[1] => ({
+  _id: new Types.ObjectId(),
+  fileName: "report.pdf",
+  fileSize: 100,
+  mimeType: "application/pdf",
+  publicId: "evidence/report.pdf",
+  resourceType: "raw",
+  format: "pdf",
+  uploadedBy: new Types.ObjectId(),
+  scanAttempts: 0,
+});
+
+// The fields written to the evidence entry, without the positional prefix
+const savedFields = (updateOne: jest.SpyInstance) =>
+  Object.fromEntries(
+    Object.entries(updateOne.mock.calls[0][1].$set).map(([key, value]) => [
+      key.replace("evidence.$.", ""),
+      value,
+    ]),
+  );
+
+describe("scanEvidence with the stub driver", () => {
+  let updateOne: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    updateOne = jest
+      .spyOn(Indicator, "updateOne")
+      .mockResolvedValue(writeResult({ modifiedCount: 1 }));
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  it("is the driver selected in tests", () => {
+    expect(getScanDriver().name).toBe("stub");
+  });
+
+  it("finds the test signature split across chunks", async () => {
+    const stream = Readable.from([
+      Buffer.from(`%PDF-1.4 ${EICAR.slice(0, 30)}`, "latin1"),
+      Buffer.from(`${EICAR.slice(30)} trailer`, "latin1"),
+    ]);
+
+    await expect(getScanDriver().scan(stream)).resolves.toEqual({
+      status: "infected",
+      signature: "Eicar-Test-Signature",
+    });
+  });
+
+  it("marks clean files and queues their preview", async () => {
+    const file = evidence();
+    const status = await scanEvidence(
+      indicatorId,
+      file,
+      Buffer.from("%PDF-1.4 clean report"),
+    );
+
+    expect(status).toBe("clean");
+    expect(savedFields(updateOne)).toMatchObject({ scanStatus: "clean" });
+    expect(queueEvidencePreviews).toHaveBeenCalledTimes(1);
+    expect(notifyUser).not.toHaveBeenCalled();
+  });
+
+  it("quarantines infected files and tells the uploader", async () => {
+    const file = evidence();
+    const source = Buffer.from(`%PDF-1.4 ${EICAR} trailer`, "latin1");
+    const status = await scanEvidence(indicatorId, file, source);
+
+    expect(status).toBe("infected");
+    expect(savedFields(updateOne)).toMatchObject({
+      scanStatus: "infected",
+      scanSignature: "Eicar-Test-Signature",
+      status: "rejected",
+    });
+    expect(queueEvidencePreviews).not.toHaveBeenCalled();
+    expect(notifyUser).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: file.uploadedBy, type: "rejection" }),
+    );
+  });
+
+  it("quarantines password-protected PDFs", async () => {
+    const status = await scanEvidence(
+      indicatorId,
+      evidence(),
+      Buffer.from("%PDF-1.4\ntrailer << /Encrypt 5 0 R >>"),
+    );
+
+    expect(status).toBe("encrypted");
+    expect(savedFields(updateOne)).toMatchObject({
+      scanStatus: "encrypted",
+      status: "rejected",
+    });
+  });
+
+  it("leaves the file pending for a retry when it cannot be read", async () => {
+    const status = await scanEvidence(indicatorId, evidence());
+
+    expect(status).toBe("pending");
+    expect(savedFields(updateOne)).toMatchObject({
+      scanStatus: "pending",
+      scanAttempts: 1,
+      scanError: "storage unavailable",
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import AdmZip from "adm-zip";
+import zlib from "zlib";
+import { MAX_EVIDENCE_FILE_SIZE } from "../middleware/multer";
+import { expandEvidenceUploads } from "../services/evidenceZip.service";
+
+const PDF = Buffer.concat([Buffer.from("%PDF-1.4\n"), Buffer.alloc(2048, 1)]);
+const PNG = Buffer.concat([
+  Buffer.from("89504e470d0a1a0a", "hex"),
+  Buffer.alloc(512, 2),
+]);
+
+const zipUpload = (buffer: Buffer, originalname = "pack.zip") =>
+  ({
+    buffer,
+    originalname,
+    mimetype: "application/zip",
+    size: buffer.length,
+  }) as Express.Multer.File;
+
+const buildZip = (entries: Record<string, Buffer>) => {
+  const zip = new AdmZip();
+  Object.entries(entries).forEach(([name, data]) => zip.addFile(name, data));
+  return zip.toBuffer();
+};
+
+// Rewrites the uncompressed size in both the local and central headers
+const declareSize = (zip: Buffer, size: number) => {
+  const patched = Buffer.from(zip);
+  const local = patched.indexOf(Buffer.from("504b0304", "hex"));
+  const central = patched.indexOf(Buffer.from("504b0102", "hex"));
+  patched.writeUInt32LE(size, local + 22);
+  patched.writeUInt32LE(size, central + 24);
+  return patched;
+};
+
+describe("expandEvidenceUploads", () => {
+  it("keeps non-zip uploads as they are", () => {
+    const file = {
+      buffer: PDF,
+      originalname: "report.pdf",
+      mimetype: "application/pdf",
+      size: PDF.length,
+    } as Express.Multer.File;
+
+    const { uploads, report } = expandEvidenceUploads([file], true);
+
+    expect(uploads).toHaveLength(1);
+    expect(uploads[0].read()).toBe(PDF);
+    expect(report).toEqual([
+      { source: "report.pdf", status: "accepted", size: PDF.length },
+    ]);
+  });
+
+  it("expands allowed entries and reports the rest", () => {
+    const zip = buildZip({
+      "docs/report.pdf": PDF,
+      "photo.png": PNG,
+      "__MACOSX/._photo.png": PNG,
+      "tool.exe": PDF,
+      "fake.pdf": PNG,
+    });
+
+    const { uploads, report } = expandEvidenceUploads([zipUpload(zip)], true);
+
+    const byName = (a: { entry?: string }, b: { entry?: string }) =>
+      String(a.entry).localeCompare(String(b.entry));
+    const accepted = [...uploads].sort((a, b) =>
+      a.originalname.localeCompare(b.originalname),
+    );
+
+    expect(accepted.map((u) => u.originalname)).toEqual([
+      "photo.png",
+      "report.pdf",
+    ]);
+    expect(accepted[0].read().equals(PNG)).toBe(true);
+    expect(accepted[1].read().equals(PDF)).toBe(true);
+    expect(accepted[0].buffer).toBeUndefined();
+    expect(
+      [...report].sort(byName).map((r) => [r.entry, r.status, r.reason]),
+    ).toEqual([
+      ["__MACOSX/._photo.png", "skipped", undefined],
+      ["docs/report.pdf", "accepted", undefined],
+      ["fake.pdf", "rejected", "File content does not match its extension"],
+      ["photo.png", "accepted", undefined],
+      ["tool.exe", "rejected", "File type is not allowed"],
+    ]);
+  });
+
+  it("leaves zips whole without expandZips", () => {
+    const zip = buildZip({ "report.pdf": PDF });
+    const { uploads } = expandEvidenceUploads([zipUpload(zip)], false);
+
+    expect(uploads).toHaveLength(1);
+    expect(uploads[0].mimetype).toBe("application/zip");
+  });
+
+  it("rejects an entry that declares size 0 without inflating past the cap", () => {
+    const bomb = Buffer.concat([
+      Buffer.from("%PDF-1.4\n"),
+      Buffer.alloc(MAX_EVIDENCE_FILE_SIZE * 4),
+    ]);
+    const zip = declareSize(buildZip({ "bomb.pdf": bomb }), 0);
+    const inflate = jest.spyOn(zlib, "inflateRawSync");
+
+    const { uploads, report } = expandEvidenceUploads([zipUpload(zip)], true);
+
+    expect(uploads).toHaveLength(0);
+    expect(report).toEqual([
+      {
+        source: "pack.zip",
+        status: "rejected",
+        reason: "Zip entry sizes do not match their headers",
+      },
+    ]);
+    expect(inflate).toHaveBeenCalledWith(expect.any(Buffer), {
+      maxOutputLength: MAX_EVIDENCE_FILE_SIZE,
+    });
+    inflate.mockRestore();
+  });
+
+  it("rejects an archive whose entry is larger than declared", () => {
+    const zip = declareSize(buildZip({ "report.pdf": PDF }), 100);
+    const { uploads, report } = expandEvidenceUploads([zipUpload(zip)], true);
+
+    expect(uploads).toHaveLength(0);
+    expect(report[0].reason).toBe("Zip entry sizes do not match their headers");
+  });
+
+  it("rejects entries whose content fails the checksum", () => {
+    const zip = buildZip({ "report.pdf": PDF });
+    const central = zip.indexOf(Buffer.from("504b0102", "hex"));
+    zip.writeUInt32LE((zip.readUInt32LE(central + 16) ^ 1) >>> 0, central + 16);
+
+    const { report } = expandEvidenceUploads([zipUpload(zip)], true);
+
+    expect(report).toEqual([
+      {
+        source: "pack.zip",
+        entry: "report.pdf",
+        status: "rejected",
+        reason: "Entry is corrupt",
+      },
+    ]);
+  });
+
+  it("rejects unreadable archives outright", () => {
+    const { report } = expandEvidenceUploads(
+      [zipUpload(Buffer.from("PK\x03\x04 not really a zip"))],
+      true,
+    );
+    expect(report[0]).toMatchObject({
+      status: "rejected",
+      reason: "Not a readable zip archive",
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { Types } from "mongoose";
+import { IMemberContribution } from "../models/Indicator";
+import {
+  computeGroupRollup,
+  recordMemberSubmission,
+  resetMemberContributions,
+} from "../services/groupContribution.service";
+
+const member = (
+  extra: Partial<IMemberContribution> = {},
+): IMemberContribution => ({
+  user: new Types.ObjectId(),
+  weight: 1,
+  completed: false,
+  ...extra,
+});
+
+describe("computeGroupRollup", () => {
+  it("completes an 'all' group only when every member is done", () => {
+    const members = [member({ completed: true }), member()];
+    expect(
+      computeGroupRollup({ groupRollup: "all", memberContributions: members }),
+    ).toEqual({
+      progress: 50,
+      isComplete: false,
+      completedMembers: 1,
+      totalMembers: 2,
+    });
+  });
+
+  it("weights member scores", () => {
+    const members = [
+      member({ weight: 3, score: 100, completed: true }),
+      member({ weight: 1 }),
+    ];
+    const rollup = computeGroupRollup({
+      groupRollup: "weighted",
+      memberContributions: members,
+    });
+    expect(rollup.progress).toBe(75);
+    expect(rollup.isComplete).toBe(false);
+  });
+});
+
+describe("resetMemberContributions", () => {
+  it("clears completion and scores for every member", () => {
+    const scoredBy = new Types.ObjectId();
+    const indicator = {
+      groupRollup: "all" as const,
+      memberContributions: [
+        member({
+          completed: true,
+          completedAt: new Date(),
+          score: 80,
+          scoredBy,
+          scoredAt: new Date(),
+        }),
+        member({ completed: true, completedAt: new Date() }),
+      ],
+    };
+
+    resetMemberContributions(indicator);
+    recordMemberSubmission(indicator, indicator.memberContributions[1].user);
+
+    expect(indicator.memberContributions[0]).toMatchObject({
+      completed: false,
+      completedAt: null,
+      score: null,
+      scoredBy: null,
+    });
+    expect(indicator.memberContributions[1].completed).toBe(true);
+    expect(computeGroupRollup(indicator).isComplete).toBe(false);
+  });
+});
@@ -0,0 +1,46 @@
+import { UpdateWriteOpResult } from "mongoose";
+
+/* =====================================================
+   MODEL FAKES
+   Tests stand in for the database by spying on model
+   statics; these keep the fakes typed.
+===================================================== */
+
+/** What updateOne and updateMany resolve with */
+export const writeResult = (
+  extra: Partial<UpdateWriteOpResult> = {},
+): UpdateWriteOpResult => ({
+  acknowledged: true,
+  matchedCount: extra.modifiedCount ?? 0,
+  modifiedCount: 0,
+  upsertedCount: 0,
+  upsertedId: null,
+  ...extra,
+});
+
+/**
+ * Spies on a model static to replace it with a hand-written fake.
+ * jest types an overloaded static (create, findOne, updateOne...) by
+ * its last overload, which a fake rarely matches, so this spy takes
+ * any implementation.
+ */
+export const spyOnStatic = <
+  T extends {},
+  M extends jest.FunctionPropertyNames<Required<T>>,
+>(
+  model: T,
+  method: M,
+): jest.SpyInstance => jest.spyOn(model, method);
+
+/**
+ * Makes a static return a stand-in query holding only the chained
+ * calls the code under test makes, e.g. `{ select, lean }`.
+ */
+export const mockQuery = <
+  T extends {},
+  M extends jest.FunctionPropertyNames<Required<T>>,
+>(
+  model: T,
+  method: M,
+  chain: object,
+) => spyOnStatic(model, method).mockReturnValue(chain);
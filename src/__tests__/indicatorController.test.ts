@@ -0,0 +1,189 @@
+import { NextFunction, Response } from "express";
+import { Types } from "mongoose";
+import {
+  AuthenticatedRequest,
+  addIndicatorNote,
+  approveIndicator,
+  deleteSingleEvidence,
+  getIndicatorById,
+  updateIndicatorMeasurement,
+} from "../controllers/indicatorController";
+import { Indicator, IndicatorDocument } from "../models/Indicator";
+import { User } from "../models/User";
+import { mockQuery } from "./helpers/mongoose";
+
+jest.mock("../services/storage", () => ({
+  evidenceStorageRef: () => "ref",
+  storageForEvidence: () => ({
+    delete: jest.fn().mockResolvedValue(undefined),
+  }),
+}));
+jest.mock("../services/evidencePreview.service", () => ({
+  deleteEvidencePreview: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock("../utils/activityLogger", () => ({
+  logActivity: jest.fn().mockResolvedValue(undefined),
+}));
+
+type Handler = (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) => void;
+
+// Resolves with the JSON body, or the error handed to next()
+const run = (handler: Handler, req: Partial<AuthenticatedRequest>) =>
+  new Promise<{ status?: number; body?: any; error?: any }>((resolve) => {
+    let status: number | undefined;
+    const res = {
+      status(code: number) {
+        status = code;
+        return this;
+      },
+      json: (body: unknown) => resolve({ status, body }),
+    } as unknown as Response;
+    handler(req as AuthenticatedRequest, res, (error) => resolve({ error }));
+  });
+
+const user = new User({ name: "Jane", role: "User" });
+const admin = new User({ name: "Sam", role: "Admin" });
+
+const makeIndicator = (status: string) =>
+  new Indicator({
+    indicatorTitle: "Case backlog",
+    assignedToType: "individual",
+    assignedTo: user._id,
+    status,
+    evidence: [
+      {
+        fileName: "report.pdf",
+        fileUrl: "ref",
+        publicId: "ref",
+        uploadedBy: user._id,
+      },
+    ],
+  }) as IndicatorDocument;
+
+describe("indicator controller", () => {
+  beforeEach(() => {
+    jest.spyOn(Indicator.prototype, "save").mockImplementation(function (
+      this: IndicatorDocument,
+    ) {
+      return Promise.resolve(this);
+    });
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  it.each(["overdue", "approved", "partially_completed", "pending"])(
+    "lets the uploader delete the last file of a %s indicator",
+    async (status) => {
+      const indicator = makeIndicator(status);
+      jest.spyOn(Indicator, "findById").mockResolvedValue(indicator);
+
+      const { status: code, error } = await run(deleteSingleEvidence, {
+        params: {
+          id: String(indicator._id),
+          evidenceId: String(indicator.evidence[0]._id),
+        },
+        user,
+      });
+
+      expect(error).toBeUndefined();
+      expect(code).toBe(200);
+      expect(indicator.status).toBe(status);
+      expect(indicator.evidence).toHaveLength(0);
+    },
+  );
+
+  it("sends a submission back to pending when its last file is withdrawn", async () => {
+    const indicator = makeIndicator("submitted");
+    jest.spyOn(Indicator, "findById").mockResolvedValue(indicator);
+
+    await run(deleteSingleEvidence, {
+      params: {
+        id: String(indicator._id),
+        evidenceId: String(indicator.evidence[0]._id),
+      },
+      user,
+    });
+
+    expect(indicator.status).toBe("pending");
+  });
+
+  it("does not treat a note as a submission", async () => {
+    const indicator = makeIndicator("pending");
+    jest.spyOn(Indicator, "findById").mockResolvedValue(indicator);
+
+    const { error } = await run(addIndicatorNote, {
+      params: { id: String(indicator._id) },
+      body: { text: "Waiting on the registry" },
+      user,
+    });
+
+    expect(error).toBeUndefined();
+    expect(indicator.status).toBe("pending");
+    expect(indicator.reviewRounds).toHaveLength(0);
+  });
+
+  it("hides indicators the caller cannot see", async () => {
+    const query = {
+      populate: () => query,
+      lean: () => Promise.resolve(null),
+    };
+    const findOne = mockQuery(Indicator, "findOne", query);
+
+    const { error } = await run(getIndicatorById, {
+      params: { id: String(new Types.ObjectId()) },
+      user,
+    });
+
+    expect(error).toMatchObject({ statusCode: 404 });
+    expect(findOne.mock.calls[0][0]).toMatchObject({
+      $or: [{ assignedTo: user._id }, { assignedGroup: { $in: [user._id] } }],
+    });
+  });
+
+  it("does not approve a measured indicator without an actual", async () => {
+    const indicator = makeIndicator("submitted");
+    indicator.evidence[0].scanStatus = "clean";
+    indicator.measurement = {
+      type: "number",
+      direction: "higher",
+      baseline: null,
+      target: 200,
+      actual: null,
+      actualRecordedAt: null,
+      actualRecordedBy: null,
+    };
+    mockQuery(Indicator, "findById", {
+      populate: () => Promise.resolve(indicator),
+    });
+
+    const { error } = await run(approveIndicator, {
+      params: { id: String(indicator._id) },
+      body: {},
+      user: admin,
+    });
+
+    expect(error).toMatchObject({ statusCode: 409 });
+    expect(indicator.status).toBe("submitted");
+  });
+
+  it("does not re-rate a sealed indicator", async () => {
+    const indicator = makeIndicator("completed");
+    indicator.progress = 100;
+    jest.spyOn(Indicator, "findById").mockResolvedValue(indicator);
+
+    const { error } = await run(updateIndicatorMeasurement, {
+      params: { id: String(indicator._id) },
+      body: { measurement: { type: "number", target: 500 } },
+      user: admin,
+    });
+
+    expect(error).toMatchObject({
+      statusCode: 403,
+      message: "Record is sealed and cannot be modified",
+    });
+    expect(indicator.progress).toBe(100);
+  });
+});
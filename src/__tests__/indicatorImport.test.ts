@@ -0,0 +1,87 @@
+import mongoose, { ClientSession, Types } from "mongoose";
+import { Indicator, IndicatorDocument } from "../models/Indicator";
+import {
+  PreparedIndicator,
+  createImportedIndicators,
+} from "../services/indicatorImport.service";
+
+const prepared = (row: number): PreparedIndicator => ({
+  row,
+  indicatorCode: `C${row}`,
+  indicatorTitle: `Indicator ${row}`,
+  assigneePjNumbers: ["PJ1"],
+  cycle: new Types.ObjectId(),
+  data: {
+    categoryId: String(new Types.ObjectId()),
+    level2CategoryId: String(new Types.ObjectId()),
+    unitOfMeasure: "cases",
+    assignedToType: "individual",
+    assignedTo: String(new Types.ObjectId()),
+    startDate: new Date("2026-01-01"),
+    dueDate: new Date("2026-03-31"),
+  },
+});
+
+// What a standalone server answers to the first transactional write
+const standaloneSession = () =>
+  ({
+    withTransaction: () =>
+      Promise.reject(
+        Object.assign(
+          new Error(
+            "Transaction numbers are only allowed on a replica set member or mongos",
+          ),
+          { code: 20 },
+        ),
+      ),
+    endSession: () => Promise.resolve(),
+  }) as unknown as ClientSession;
+
+describe("createImportedIndicators", () => {
+  beforeEach(() => {
+    jest.spyOn(mongoose, "startSession").mockResolvedValue(standaloneSession());
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  it("falls back to one write per row without transactions", async () => {
+    const save = jest
+      .spyOn(Indicator.prototype, "$save")
+      .mockImplementation(function (this: IndicatorDocument) {
+        return Promise.resolve(this);
+      });
+
+    const created = await createImportedIndicators(
+      [prepared(2), prepared(3)],
+      new Types.ObjectId(),
+    );
+
+    expect(created.map((i) => i.indicatorTitle)).toEqual([
+      "Indicator 2",
+      "Indicator 3",
+    ]);
+    expect(save).toHaveBeenCalledTimes(2);
+  });
+
+  it("removes the rows already written when a later one fails", async () => {
+    jest
+      .spyOn(Indicator.prototype, "$save")
+      .mockImplementationOnce(function (this: IndicatorDocument) {
+        return Promise.resolve(this);
+      })
+      .mockImplementationOnce(() => Promise.reject(new Error("E11000")));
+    const deleteMany = jest
+      .spyOn(Indicator, "deleteMany")
+      .mockResolvedValue({ acknowledged: true, deletedCount: 1 });
+
+    await expect(
+      createImportedIndicators(
+        [prepared(2), prepared(3)],
+        new Types.ObjectId(),
+      ),
+    ).rejects.toThrow("E11000");
+    expect(deleteMany).toHaveBeenCalledTimes(1);
+    expect(deleteMany.mock.calls[0][0]).toMatchObject({
+      _id: { $in: [expect.any(Types.ObjectId)] },
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { Types } from "mongoose";
+import { IndicatorDocument, IndicatorStatus } from "../models/Indicator";
+import {
+  canTransition,
+  getAllowedTransitions,
+  transitionIndicator,
+} from "../services/indicatorStatus.service";
+import {
+  isReviewChainComplete,
+  recordReviewDecision,
+} from "../services/reviewWorkflow.service";
+
+const CHAIN: ("Admin" | "SuperAdmin")[] = ["Admin", "SuperAdmin"];
+
+const makeIndicator = (status: IndicatorStatus) =>
+  ({
+    status,
+    statusHistory: [],
+    reviewRound: 0,
+    reviewRounds: [],
+    reviewStages: [],
+  }) as unknown as IndicatorDocument;
+
+describe("indicator transitions", () => {
+  it("only lets reviewers approve unsubmitted work through an admin upload", () => {
+    expect(canTransition("pending", "approved", "admin")).toBe(false);
+    expect(canTransition("overdue", "approved", "superadmin")).toBe(false);
+    expect(canTransition("pending", "approved", "admin", "admin-upload")).toBe(
+      true,
+    );
+    expect(canTransition("pending", "completed", "superadmin")).toBe(false);
+    expect(canTransition("overdue", "completed", "superadmin")).toBe(false);
+
+    expect(
+      getAllowedTransitions("pending", "admin").map((t) => t.to),
+    ).not.toContain("approved");
+    expect(() =>
+      transitionIndicator(makeIndicator("pending"), "approved", {
+        role: "admin",
+      }),
+    ).toThrow("Illegal status transition");
+  });
+
+  it("only lets the review endpoints decide a submission", () => {
+    for (const to of ["approved", "rejected", "completed"] as const) {
+      expect(canTransition("submitted", to, "superadmin")).toBe(false);
+      expect(canTransition("submitted", to, "superadmin", "review")).toBe(true);
+    }
+    expect(canTransition("submitted", "partially_completed", "admin")).toBe(
+      false,
+    );
+    expect(getAllowedTransitions("submitted", "superadmin")).toEqual([
+      { to: "pending", description: "All evidence withdrawn" },
+    ]);
+  });
+
+  it("does not let one reviewer sign consecutive stages", () => {
+    const indicator = makeIndicator("pending");
+    const reviewer = new Types.ObjectId();
+    transitionIndicator(indicator, "submitted", { role: "user" });
+
+    recordReviewDecision(indicator, CHAIN, {
+      reviewer,
+      role: "superadmin",
+      decision: "approved",
+    });
+    expect(() =>
+      recordReviewDecision(indicator, CHAIN, {
+        reviewer,
+        role: "superadmin",
+        decision: "approved",
+      }),
+    ).toThrow("must be decided by a different reviewer");
+
+    recordReviewDecision(indicator, CHAIN, {
+      reviewer: new Types.ObjectId(),
+      role: "superadmin",
+      decision: "approved",
+    });
+    expect(isReviewChainComplete(indicator, CHAIN)).toBe(true);
+  });
+
+  it("starts a new review round when work is resubmitted after decisions", () => {
+    const indicator = makeIndicator("pending");
+    const reviewer = new Types.ObjectId();
+
+    transitionIndicator(indicator, "submitted", { role: "user" });
+    recordReviewDecision(indicator, CHAIN, {
+      reviewer,
+      role: "admin",
+      decision: "approved",
+    });
+    transitionIndicator(indicator, "partially_completed", {
+      role: "admin",
+      path: "score",
+    });
+    transitionIndicator(indicator, "submitted", { role: "user" });
+
+    expect(indicator.reviewRound).toBe(1);
+    expect(indicator.reviewRounds.map((r) => r.round)).toEqual([0, 1]);
+
+    recordReviewDecision(indicator, CHAIN, {
+      reviewer,
+      role: "superadmin",
+      decision: "approved",
+    });
+    expect(isReviewChainComplete(indicator, CHAIN)).toBe(false);
+  });
+
+  it("keeps the round when nobody has reviewed it yet", () => {
+    const indicator = makeIndicator("pending");
+
+    transitionIndicator(indicator, "submitted", { role: "user" });
+    transitionIndicator(indicator, "pending", { role: "user" });
+    transitionIndicator(indicator, "submitted", { role: "user" });
+
+    expect(indicator.reviewRound).toBe(0);
+  });
+});
@@ -0,0 +1,88 @@
+import { Types } from "mongoose";
+import { IMeasurement, IndicatorDocument } from "../models/Indicator";
+import {
+  assertActualEditable,
+  deriveProgress,
+  recordActualValue,
+} from "../services/measurement.service";
+
+const measurement = (extra: Partial<IMeasurement> = {}): IMeasurement => ({
+  type: "number",
+  direction: "higher",
+  baseline: null,
+  target: 200,
+  actual: null,
+  actualRecordedAt: null,
+  actualRecordedBy: null,
+  ...extra,
+});
+
+const indicatorWith = (status: string, progress = 0) =>
+  ({ status, progress, measurement: measurement() }) as IndicatorDocument;
+
+describe("deriveProgress", () => {
+  it("is null until an actual is recorded", () => {
+    expect(deriveProgress(measurement())).toBeNull();
+  });
+
+  it("covers the distance from baseline to target", () => {
+    expect(deriveProgress(measurement({ baseline: 100, actual: 150 }))).toBe(
+      50,
+    );
+  });
+
+  it("rates lower-is-better measures against the target", () => {
+    const days = measurement({ type: "days", direction: "lower", target: 30 });
+    expect(deriveProgress({ ...days, actual: 20 })).toBe(100);
+    expect(deriveProgress({ ...days, actual: 60 })).toBe(50);
+  });
+});
+
+describe("assertActualEditable", () => {
+  it("lets assignees record only while the record is with them", () => {
+    expect(() =>
+      assertActualEditable(indicatorWith("pending"), false),
+    ).not.toThrow();
+    expect(() =>
+      assertActualEditable(indicatorWith("rejected"), false),
+    ).not.toThrow();
+    for (const status of ["submitted", "approved"])
+      expect(() => assertActualEditable(indicatorWith(status), false)).toThrow(
+        expect.objectContaining({ statusCode: 409 }),
+      );
+  });
+
+  it("lets reviewers record under review but not on sealed records", () => {
+    expect(() =>
+      assertActualEditable(indicatorWith("submitted"), true),
+    ).not.toThrow();
+    expect(() =>
+      assertActualEditable(indicatorWith("completed"), true),
+    ).toThrow(expect.objectContaining({ statusCode: 403 }));
+  });
+});
+
+describe("recordActualValue", () => {
+  const by = new Types.ObjectId();
+
+  it("leaves progress alone for assignees", () => {
+    const indicator = indicatorWith("pending", 10);
+    const changes = recordActualValue(indicator, 150, by, {
+      applyProgress: false,
+    });
+
+    expect(indicator.measurement?.actual).toBe(150);
+    expect(indicator.progress).toBe(10);
+    expect(changes).not.toHaveProperty("progress");
+  });
+
+  it("moves progress when a reviewer records the actual", () => {
+    const indicator = indicatorWith("submitted", 10);
+    const changes = recordActualValue(indicator, 150, by, {
+      applyProgress: true,
+    });
+
+    expect(indicator.progress).toBe(75);
+    expect(changes.progress).toEqual({ old: 10, new: 75 });
+  });
+});
@@ -0,0 +1,68 @@
+import ExcelJS from "exceljs";
+import {
+  buildReportCsv,
+  buildReportXlsx,
+  ReportRow,
+} from "../services/reportExport.service";
+
+const row = (extra: Partial<ReportRow> = {}): ReportRow => ({
+  indicatorTitle: "Case backlog",
+  categoryCode: "C1",
+  category: "Courts",
+  objectiveCode: "O1",
+  objective: "Clearance",
+  unitOfMeasure: "cases",
+  assignedToType: "individual",
+  assignees: "Jane",
+  assigneePjNumbers: "PJ1",
+  status: "pending",
+  progress: 40,
+  targetActual: "",
+  latestScore: null,
+  scoreHistory: "",
+  startDate: new Date("2026-01-01"),
+  dueDate: null,
+  reviewedBy: "",
+  reviewerPjNumber: "",
+  reviewedAt: null,
+  ...extra,
+});
+
+describe("report export", () => {
+  const risky = row({
+    indicatorTitle: '=HYPERLINK("http://x","y")',
+    assignees: "+1 cmd",
+    objective: "-2+3",
+    category: "@SUM(A1)",
+    unitOfMeasure: "\t=1+1",
+    reviewedBy: "\r=cmd",
+  });
+
+  it("quotes formula-like text in CSV", () => {
+    const csv = buildReportCsv([risky, row()]);
+
+    expect(csv).toContain(`"'=HYPERLINK(""http://x"",""y"")"`);
+    expect(csv).toContain(`"'+1 cmd"`);
+    expect(csv).toContain(`"'-2+3"`);
+    expect(csv).toContain(`"'@SUM(A1)"`);
+    expect(csv).toContain(`"'\t=1+1"`);
+    expect(csv).toContain(`"'\r=cmd"`);
+    expect(csv).toContain('"Case backlog"');
+    expect(csv).toContain('"2026-01-01"');
+  });
+
+  it("writes formula-like text as plain strings in XLSX", async () => {
+    const buffer = await buildReportXlsx([risky], {
+      title: "Report",
+      generatedBy: "test",
+    });
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+    const cell = workbook.getWorksheet("Indicators")!.getCell("A2");
+
+    expect(cell.type).toBe(ExcelJS.ValueType.String);
+    expect(cell.value).toBe('=HYPERLINK("http://x","y")');
+    expect(cell.numFmt).toBe("@");
+  });
+});
@@ -0,0 +1,10 @@
+// Minimum config for src/config/env to load; nothing here connects
+process.env.NODE_ENV = "test";
+process.env.MONGO_URI ??= "mongodb://localhost:27017/test";
+process.env.JWT_SECRET ??= "test";
+process.env.JWT_REFRESH_SECRET ??= "test";
+process.env.FRONTEND_URL ??= "http://localhost:3000";
+process.env.REDIS_URL ??= "redis://localhost:6379";
+process.env.BREVO_API_KEY ??= "test";
+process.env.STORAGE_DRIVER ??= "local";
+process.env.SCAN_DRIVER ??= "stub";
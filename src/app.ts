@@ -10,6 +10,12 @@ import userRoutes from "./routes/userRoutes";
 import notificationRoutes from "./routes/notificationRoutes";
 import reportsRoutes from "./routes/reportsRoutes"
 import adminRoutes from "./routes/adminRoutes"
+import reminderRoutes from "./routes/reminderRoutes";
+import cycleRoutes from "./routes/cycleRoutes";
+import searchRoutes from "./routes/searchRoutes";
+import storageRoutes from "./routes/storageRoutes";
+import scoreRoutes from "./routes/scoreRoutes";
+import analyticsRoutes from "./routes/analyticsRoutes";
 import { errorHandler } from "./middleware/errorHandler";
 import { auditMiddleware } from "./middleware/auditMiddleware";
 import { inactivityMiddleware } from "./middleware/inactivityMiddleware";
@@ -21,7 +27,14 @@ app.use(
     origin: env.FRONTEND_URL,
     credentials: true,
     methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS", "PATCH"],
-    allowedHeaders: ["Content-Type", "Authorization"],
+    allowedHeaders: ["Content-Type", "Authorization", "Range"],
+    // Evidence streaming headers the frontend needs to read
+    exposedHeaders: [
+      "Accept-Ranges",
+      "Content-Range",
+      "Content-Disposition",
+      "X-Evidence-SHA256",
+    ],
   })
 );
 
@@ -36,6 +49,12 @@ app.use("/api/v1/users", userRoutes);
 app.use("/api/v1/notifications", notificationRoutes);
 app.use("/api/v1/reports", reportsRoutes);
 app.use("/api/v1/admin", adminRoutes);
+app.use("/api/v1/reminders", reminderRoutes);
+app.use("/api/v1/cycles", cycleRoutes);
+app.use("/api/v1/search", searchRoutes);
+app.use("/api/v1/storage", storageRoutes);
+app.use("/api/v1/scores", scoreRoutes);
+app.use("/api/v1/analytics", analyticsRoutes);
 
 app.use(errorHandler);
 app.use(inactivityMiddleware);
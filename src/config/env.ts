@@ -1,4 +1,6 @@
 import { config } from "dotenv";
+import os from "os";
+import path from "path";
 import { z } from "zod";
 import type { StringValue } from "ms";
 
@@ -29,18 +31,53 @@ const envSchema = z.object({
   COOKIE_EXPIRE: z.string().default("7"),
   DEBUG_AUTH: z.enum(["true", "false"]).default("false"),
 
-  // Cloudinary
-  CLOUDINARY_CLOUD_NAME: z.string().nonempty(),
-  CLOUDINARY_API_KEY: z.string().nonempty(),
-  CLOUDINARY_API_SECRET: z.string().nonempty(),
+  // Cloudinary (required when it is the evidence storage driver)
+  CLOUDINARY_CLOUD_NAME: z.string().optional(),
+  CLOUDINARY_API_KEY: z.string().optional(),
+  CLOUDINARY_API_SECRET: z.string().optional(),
+
+  // Evidence storage
+  STORAGE_DRIVER: z.enum(["cloudinary", "local", "s3"]).default("cloudinary"),
+  PUBLIC_API_URL: z.string().url().optional(),
+  STORAGE_SIGNING_SECRET: z.string().optional(),
+  LOCAL_STORAGE_DIR: z.string().default("storage"),
+  S3_ENDPOINT: z.string().url().optional(),
+  S3_REGION: z.string().default("us-east-1"),
+  S3_BUCKET: z.string().optional(),
+  S3_ACCESS_KEY_ID: z.string().optional(),
+  S3_SECRET_ACCESS_KEY: z.string().optional(),
+  S3_FORCE_PATH_STYLE: z.enum(["true", "false"]).default("true"),
+  // Chunks of resumable uploads wait here until the upload completes
+  UPLOAD_TMP_DIR: z.string().optional(),
+
+  // Evidence scanning ("stub" needs no daemon; use it in tests)
+  SCAN_DRIVER: z.enum(["clamav", "stub"]).default("clamav"),
+  CLAMAV_HOST: z.string().default("127.0.0.1"),
+  CLAMAV_PORT: z.string().default("3310"),
+  CLAMAV_TIMEOUT_SECONDS: z.string().default("60"),
+
+  // Reporting periods (quarters follow the fiscal year; July by default)
+  FISCAL_YEAR_START_MONTH: z.string().default("7"),
+  PERIOD_REPORT_GRACE_DAYS: z.string().default("10"),
+
+  // Review SLA; categories may override the working-day allowance
+  REVIEW_SLA_WORKING_DAYS: z.string().default("5"),
+  // Comma-separated YYYY-MM-DD dates that are not working days
+  PUBLIC_HOLIDAYS: z.string().default(""),
 
   // Cache
   REDIS_URL: z.string().nonempty(),
+  ANALYTICS_CACHE_TTL_SECONDS: z.string().default("300"),
 
   // Email
   BREVO_API_KEY: z.string().nonempty(),
   MAIL_FROM_NAME: z.string().default("ORHC"),
   MAIL_FROM_EMAIL: z.string().email().default("onboarding@yourdomain.com"),
+
+  // Background jobs
+  JOBS_ENABLED: z.enum(["true", "false"]).default("true"),
+  OVERDUE_SCAN_INTERVAL_MINUTES: z.string().default("15"),
+  REMINDER_SCAN_INTERVAL_MINUTES: z.string().default("60"),
 });
 
 // --------------------
@@ -56,6 +93,31 @@ if (!parsed.success) {
   process.exit(1);
 }
 
+// --------------------
+// Storage driver settings
+// --------------------
+const STORAGE_REQUIRED_VARS = {
+  cloudinary: [
+    "CLOUDINARY_CLOUD_NAME",
+    "CLOUDINARY_API_KEY",
+    "CLOUDINARY_API_SECRET",
+  ],
+  s3: ["S3_BUCKET", "S3_ACCESS_KEY_ID", "S3_SECRET_ACCESS_KEY"],
+  local: [],
+} as const;
+
+const missingStorageVars = STORAGE_REQUIRED_VARS[
+  parsed.data.STORAGE_DRIVER
+].filter((key) => !parsed.data[key]);
+
+if (missingStorageVars.length) {
+  console.error(
+    `❌ STORAGE_DRIVER=${parsed.data.STORAGE_DRIVER} requires:`,
+    missingStorageVars.join(", ")
+  );
+  process.exit(1);
+}
+
 // --------------------
 // Export normalized env
 // --------------------
@@ -80,9 +142,46 @@ export const env = {
   CLOUDINARY_API_KEY: parsed.data.CLOUDINARY_API_KEY,
   CLOUDINARY_API_SECRET: parsed.data.CLOUDINARY_API_SECRET,
 
+  STORAGE_DRIVER: parsed.data.STORAGE_DRIVER,
+  PUBLIC_API_URL:
+    parsed.data.PUBLIC_API_URL ?? `http://localhost:${parsed.data.PORT}`,
+  STORAGE_SIGNING_SECRET:
+    parsed.data.STORAGE_SIGNING_SECRET ?? parsed.data.JWT_SECRET,
+  LOCAL_STORAGE_DIR: parsed.data.LOCAL_STORAGE_DIR,
+  S3_ENDPOINT: parsed.data.S3_ENDPOINT,
+  S3_REGION: parsed.data.S3_REGION,
+  S3_BUCKET: parsed.data.S3_BUCKET,
+  S3_ACCESS_KEY_ID: parsed.data.S3_ACCESS_KEY_ID,
+  S3_SECRET_ACCESS_KEY: parsed.data.S3_SECRET_ACCESS_KEY,
+  S3_FORCE_PATH_STYLE: parsed.data.S3_FORCE_PATH_STYLE === "true",
+  UPLOAD_TMP_DIR:
+    parsed.data.UPLOAD_TMP_DIR ?? path.join(os.tmpdir(), "evidence-uploads"),
+
+  SCAN_DRIVER: parsed.data.SCAN_DRIVER,
+  CLAMAV_HOST: parsed.data.CLAMAV_HOST,
+  CLAMAV_PORT: Number(parsed.data.CLAMAV_PORT),
+  CLAMAV_TIMEOUT_SECONDS: Number(parsed.data.CLAMAV_TIMEOUT_SECONDS),
+
+  FISCAL_YEAR_START_MONTH: Number(parsed.data.FISCAL_YEAR_START_MONTH),
+  PERIOD_REPORT_GRACE_DAYS: Number(parsed.data.PERIOD_REPORT_GRACE_DAYS),
+
+  REVIEW_SLA_WORKING_DAYS: Number(parsed.data.REVIEW_SLA_WORKING_DAYS),
+  PUBLIC_HOLIDAYS: parsed.data.PUBLIC_HOLIDAYS.split(",")
+    .map((d) => d.trim())
+    .filter(Boolean),
+
   REDIS_URL: parsed.data.REDIS_URL,
+  ANALYTICS_CACHE_TTL_SECONDS: Number(parsed.data.ANALYTICS_CACHE_TTL_SECONDS),
 
   BREVO_API_KEY: parsed.data.BREVO_API_KEY,
   MAIL_FROM_NAME: parsed.data.MAIL_FROM_NAME,
   MAIL_FROM_EMAIL: parsed.data.MAIL_FROM_EMAIL,
+
+  JOBS_ENABLED: parsed.data.JOBS_ENABLED === "true",
+  OVERDUE_SCAN_INTERVAL_MINUTES: Number(
+    parsed.data.OVERDUE_SCAN_INTERVAL_MINUTES,
+  ),
+  REMINDER_SCAN_INTERVAL_MINUTES: Number(
+    parsed.data.REMINDER_SCAN_INTERVAL_MINUTES,
+  ),
 };
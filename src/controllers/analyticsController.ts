@@ -0,0 +1,83 @@
+import { Request, Response, NextFunction } from "express";
+
+import { catchAsyncErrors } from "../middleware/catchAsyncErrors";
+import ErrorHandler from "../middleware/errorMiddlewares";
+import { resolveCycleFilter } from "../services/cycle.service";
+import {
+  buildAnalyticsOverview,
+  buildReviewerReport,
+} from "../services/analytics.service";
+import { cachedAnalytics } from "../services/analyticsCache.service";
+
+const DEFAULT_TREND_MONTHS = 12;
+const MAX_TREND_MONTHS = 36;
+const DEFAULT_REVIEW_WINDOW_DAYS = 90;
+const MAX_REVIEW_WINDOW_DAYS = 730;
+
+// Whole-number query parameter within [1, max], or the default
+const parseWindow = (value: unknown, fallback: number, max: number) => {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 1 && parsed <= max
+    ? parsed
+    : null;
+};
+
+/* =====================================================
+  EXECUTIVE OVERVIEW
+  Served from Redis until the next indicator write.
+===================================================== */
+export const getAnalyticsOverview = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const months = parseWindow(
+      req.query.months,
+      DEFAULT_TREND_MONTHS,
+      MAX_TREND_MONTHS,
+    );
+    if (months === null)
+      return next(
+        new ErrorHandler(
+          400,
+          `months must be a whole number from 1 to ${MAX_TREND_MONTHS}`,
+        ),
+      );
+
+    const cycle = await resolveCycleFilter(req.query.cycle);
+    const { data, cached } = await cachedAnalytics(
+      `overview:${cycle ?? "all"}:${months}`,
+      () => buildAnalyticsOverview({ cycle, months }),
+    );
+
+    res.status(200).json({ success: true, cached, ...data });
+  },
+);
+
+/* =====================================================
+  REVIEWER WORKLOAD & SLA
+  Decisions per reviewer over the last ?days (default
+  90), the open review queue and SLA compliance.
+===================================================== */
+export const getReviewerReport = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const days = parseWindow(
+      req.query.days,
+      DEFAULT_REVIEW_WINDOW_DAYS,
+      MAX_REVIEW_WINDOW_DAYS,
+    );
+    if (days === null)
+      return next(
+        new ErrorHandler(
+          400,
+          `days must be a whole number from 1 to ${MAX_REVIEW_WINDOW_DAYS}`,
+        ),
+      );
+
+    const cycle = await resolveCycleFilter(req.query.cycle);
+    const { data, cached } = await cachedAnalytics(
+      `reviewers:${cycle ?? "all"}:${days}`,
+      () => buildReviewerReport({ cycle, days }),
+    );
+
+    res.status(200).json({ success: true, cached, ...data });
+  },
+);
@@ -1,7 +1,12 @@
 // controllers/categoryController.ts
 import mongoose from "mongoose";
 import { Request, Response, NextFunction } from "express";
-import { Category, ICategory } from "../models/Category";
+import {
+  Category,
+  ICategory,
+  isReviewRole,
+  REVIEW_ROLES,
+} from "../models/Category";
 import { catchAsyncErrors } from "../middleware/catchAsyncErrors";
 import ErrorHandler from "../middleware/errorMiddlewares";
 
@@ -265,3 +270,126 @@ export const deleteCategory = catchAsyncErrors(
     });
   }
 );
+
+/* ============================================================
+   📌 UPDATE CATEGORY REVIEW CHAIN
+      - Ordered list of roles that must sign off indicators
+      - Empty list falls back to the parent / default chain
+============================================================ */
+export const updateCategoryReviewChain = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { id } = req.params;
+    const { reviewChain } = req.body;
+
+    if (!Array.isArray(reviewChain))
+      return next(new ErrorHandler(400, "reviewChain must be an array"));
+
+    const invalid = reviewChain.filter((role: unknown) => !isReviewRole(role));
+    if (invalid.length)
+      return next(
+        new ErrorHandler(
+          400,
+          `Invalid review role(s): ${invalid.join(", ")}. Allowed: ${REVIEW_ROLES.join(", ")}`
+        )
+      );
+
+    // Each stage hands over to a different role
+    if (reviewChain.some((role, i) => i > 0 && role === reviewChain[i - 1]))
+      return next(
+        new ErrorHandler(
+          400,
+          "Consecutive review stages must require different roles"
+        )
+      );
+
+    const category = await Category.findById(id);
+    if (!category) return next(new ErrorHandler(404, "Category not found"));
+
+    if (category.level > 2)
+      return next(
+        new ErrorHandler(
+          400,
+          "Review chains can only be set on level 1 or level 2 categories"
+        )
+      );
+
+    category.reviewChain = reviewChain;
+    await category.save();
+
+    res.status(200).json({
+      success: true,
+      message: "Review chain updated successfully",
+      category,
+    });
+  }
+);
+
+/* ============================================================
+   📌 UPDATE CATEGORY REVIEW SLA
+      - Working days reviewers have to decide on a submission
+      - null falls back to the parent / default SLA
+============================================================ */
+export const updateCategoryReviewSla = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { reviewSlaDays } = req.body;
+
+    if (
+      reviewSlaDays !== null &&
+      (!Number.isInteger(reviewSlaDays) || reviewSlaDays < 1)
+    )
+      return next(
+        new ErrorHandler(
+          400,
+          "reviewSlaDays must be a whole number of days (1 or more) or null"
+        )
+      );
+
+    const category = await Category.findById(req.params.id);
+    if (!category) return next(new ErrorHandler(404, "Category not found"));
+
+    if (category.level > 2)
+      return next(
+        new ErrorHandler(
+          400,
+          "Review SLAs can only be set on level 1 or level 2 categories"
+        )
+      );
+
+    // Applies to submissions from now on; open rounds keep their deadline
+    category.reviewSlaDays = reviewSlaDays;
+    await category.save();
+
+    res.status(200).json({
+      success: true,
+      message: "Review SLA updated successfully",
+      category,
+    });
+  }
+);
+
+/* ============================================================
+   📌 UPDATE CATEGORY WEIGHT (score rollup)
+============================================================ */
+export const updateCategoryWeight = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { weight } = req.body;
+
+    if (typeof weight !== "number" || !Number.isFinite(weight) || weight < 0)
+      return next(
+        new ErrorHandler(400, "weight must be a number of zero or more")
+      );
+
+    const category = await Category.findById(req.params.id);
+    if (!category) return next(new ErrorHandler(404, "Category not found"));
+
+    // Weights are applied when scores are read; nothing to recompute
+    category.weight = weight;
+    await category.save();
+
+    res.status(200).json({
+      success: true,
+      message: "Category weight updated successfully",
+      category,
+    });
+  }
+);
@@ -0,0 +1,321 @@
+import { Request, Response, NextFunction } from "express";
+import Joi from "joi";
+import { Types } from "mongoose";
+
+import { Cycle } from "../models/Cycle";
+import { Indicator } from "../models/Indicator";
+import { catchAsyncErrors } from "../middleware/catchAsyncErrors";
+import ErrorHandler from "../middleware/errorMiddlewares";
+import { logActivity } from "../utils/activityLogger";
+import {
+  assignUncycledIndicators,
+  closeCycle,
+} from "../services/cycle.service";
+import {
+  createRollForwardIndicators,
+  prepareRollForward,
+} from "../services/indicatorRollForward.service";
+import { notifyUser } from "../services/notification.service";
+import { queueScoreRefresh } from "../services/scoring.service";
+import { emitIndicatorUpdateToAdmins } from "../sockets/socket";
+
+/* =====================================================
+  JOI SCHEMAS
+===================================================== */
+const createCycleSchema = Joi.object({
+  name: Joi.string().trim().required(),
+  startDate: Joi.date().required(),
+  endDate: Joi.date().greater(Joi.ref("startDate")).required(),
+});
+
+const objectId = Joi.string().hex().length(24);
+
+const rollForwardSchema = Joi.object({
+  indicatorIds: Joi.array().items(objectId).min(1),
+  categoryId: objectId,
+  startDate: Joi.date(),
+  dueDate: Joi.date(),
+  dryRun: Joi.boolean().default(false),
+})
+  .xor("indicatorIds", "categoryId")
+  .and("startDate", "dueDate");
+
+const updateCycleSchema = Joi.object({
+  name: Joi.string().trim(),
+  startDate: Joi.date(),
+  endDate: Joi.date(),
+}).min(1);
+
+// Open cycles must not overlap, otherwise new indicators are ambiguous
+const findOverlappingOpenCycle = (
+  startDate: Date,
+  endDate: Date,
+  excludeId?: Types.ObjectId,
+) =>
+  Cycle.findOne({
+    status: "open",
+    startDate: { $lte: endDate },
+    endDate: { $gte: startDate },
+    ...(excludeId ? { _id: { $ne: excludeId } } : {}),
+  });
+
+/* =====================================================
+  CREATE CYCLE
+===================================================== */
+export const createCycle = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) return next(new ErrorHandler(401, "Unauthorized"));
+
+    const { error, value } = createCycleSchema.validate(req.body, {
+      stripUnknown: true,
+    });
+    if (error) return next(new ErrorHandler(400, error.message));
+
+    const overlapping = await findOverlappingOpenCycle(
+      value.startDate,
+      value.endDate,
+    );
+    if (overlapping)
+      return next(
+        new ErrorHandler(
+          409,
+          `Dates overlap the open cycle "${overlapping.name}"`,
+        ),
+      );
+
+    const cycle = await Cycle.create({
+      name: value.name,
+      startDate: value.startDate,
+      endDate: value.endDate,
+      createdBy: req.user._id,
+    });
+    // Indicators that predate cycles join the one covering their start
+    const assignedIndicators = await assignUncycledIndicators(cycle);
+
+    await logActivity({
+      user: req.user._id,
+      action: "create_cycle",
+      entity: cycle.name,
+      entityId: cycle._id,
+      level: "success",
+      meta: { assignedIndicators },
+    });
+
+    res.status(201).json({ success: true, cycle, assignedIndicators });
+  },
+);
+
+/* =====================================================
+  GETTERS
+===================================================== */
+export const getCycles = catchAsyncErrors(
+  async (req: Request, res: Response) => {
+    const filter: Record<string, any> = {};
+    if (typeof req.query.status === "string") filter.status = req.query.status;
+
+    const cycles = await Cycle.find(filter).sort({ startDate: -1 }).lean();
+    res.status(200).json({ success: true, count: cycles.length, cycles });
+  },
+);
+
+export const getCycleById = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const cycle = await Cycle.findById(req.params.id)
+      .populate("createdBy closedBy", "name")
+      .lean();
+    if (!cycle) return next(new ErrorHandler(404, "Cycle not found"));
+
+    const indicatorCount = await Indicator.countDocuments({ cycle: cycle._id });
+    res.status(200).json({ success: true, cycle, indicatorCount });
+  },
+);
+
+/* =====================================================
+  UPDATE CYCLE (OPEN ONLY)
+===================================================== */
+export const updateCycle = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { error, value } = updateCycleSchema.validate(req.body, {
+      stripUnknown: true,
+    });
+    if (error) return next(new ErrorHandler(400, error.message));
+
+    const cycle = await Cycle.findById(req.params.id);
+    if (!cycle) return next(new ErrorHandler(404, "Cycle not found"));
+    if (cycle.status !== "open")
+      return next(new ErrorHandler(403, `Cycle is ${cycle.status}`));
+
+    cycle.set(value);
+    if (cycle.endDate <= cycle.startDate)
+      return next(new ErrorHandler(400, "End date must be after start date"));
+
+    const overlapping = await findOverlappingOpenCycle(
+      cycle.startDate,
+      cycle.endDate,
+      cycle._id,
+    );
+    if (overlapping)
+      return next(
+        new ErrorHandler(
+          409,
+          `Dates overlap the open cycle "${overlapping.name}"`,
+        ),
+      );
+
+    await cycle.save();
+    res.status(200).json({ success: true, cycle });
+  },
+);
+
+/* =====================================================
+  CLOSE / ARCHIVE CYCLE (SUPERADMIN)
+===================================================== */
+export const closeCycleById = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) return next(new ErrorHandler(401, "Unauthorized"));
+
+    const cycle = await Cycle.findById(req.params.id);
+    if (!cycle) return next(new ErrorHandler(404, "Cycle not found"));
+    if (cycle.status !== "open")
+      return next(new ErrorHandler(409, `Cycle is already ${cycle.status}`));
+
+    await closeCycle(cycle, req.user._id);
+
+    await logActivity({
+      user: req.user._id,
+      action: "close_cycle",
+      entity: cycle.name,
+      entityId: cycle._id,
+      level: "warn",
+      meta: { ...cycle.summary },
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Cycle closed and final scores captured",
+      cycle,
+    });
+  },
+);
+
+export const archiveCycle = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) return next(new ErrorHandler(401, "Unauthorized"));
+
+    const cycle = await Cycle.findById(req.params.id);
+    if (!cycle) return next(new ErrorHandler(404, "Cycle not found"));
+    if (cycle.status !== "closed")
+      return next(new ErrorHandler(409, "Only closed cycles can be archived"));
+
+    cycle.status = "archived";
+    await cycle.save();
+
+    await logActivity({
+      user: req.user._id,
+      action: "archive_cycle",
+      entity: cycle.name,
+      entityId: cycle._id,
+      level: "info",
+    });
+
+    res.status(200).json({ success: true, cycle });
+  },
+);
+
+/* =====================================================
+  ROLL FORWARD INTO CYCLE (SUPERADMIN)
+===================================================== */
+export const rollForwardIntoCycle = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) return next(new ErrorHandler(401, "Unauthorized"));
+
+    const { error, value } = rollForwardSchema.validate(
+      { ...req.body, dryRun: req.query.dryRun ?? req.body.dryRun },
+      { stripUnknown: true },
+    );
+    if (error) return next(new ErrorHandler(400, error.message));
+
+    const cycle = await Cycle.findById(req.params.id);
+    if (!cycle) return next(new ErrorHandler(404, "Cycle not found"));
+    if (cycle.status !== "open")
+      return next(new ErrorHandler(409, `Cycle is ${cycle.status}`));
+
+    const { items, skipped } = await prepareRollForward(
+      cycle,
+      { indicatorIds: value.indicatorIds, categoryId: value.categoryId },
+      { startDate: value.startDate, dueDate: value.dueDate },
+    );
+
+    const missingAssignees = [
+      ...new Set(items.flatMap((i) => i.missingAssignees.map(String))),
+    ];
+    const report = {
+      toCreate: items.length,
+      skipped,
+      missingAssignees,
+      preview: items.map((item) => ({
+        sourceId: item.sourceId,
+        indicatorTitle: item.indicatorTitle,
+        assignedToType: item.assignedToType,
+        assignees: item.assignees,
+        missingAssignees: item.missingAssignees,
+        startDate: item.startDate,
+        dueDate: item.dueDate,
+      })),
+    };
+
+    if (value.dryRun)
+      return res.status(200).json({ success: true, dryRun: true, ...report });
+
+    if (!items.length)
+      return next(new ErrorHandler(422, "Nothing to roll forward"));
+
+    const created = await createRollForwardIndicators(items, req.user._id);
+    queueScoreRefresh(...created);
+
+    await logActivity({
+      user: req.user._id,
+      action: "roll_forward_indicators",
+      entity: cycle.name,
+      entityId: cycle._id,
+      level: "success",
+      meta: { created: created.length, skipped: skipped.length },
+    });
+
+    // One notification per assignee, however many indicators they receive
+    const byAssignee = new Map<string, Types.ObjectId[]>();
+    created.forEach((indicator) => {
+      const targets = indicator.assignedTo
+        ? [indicator.assignedTo]
+        : (indicator.assignedGroup ?? []);
+      targets.forEach((userId) => {
+        const key = userId.toString();
+        if (!byAssignee.has(key)) byAssignee.set(key, []);
+        byAssignee.get(key)!.push(indicator._id);
+      });
+      emitIndicatorUpdateToAdmins({
+        indicatorId: indicator._id.toString(),
+        status: indicator.status,
+      });
+    });
+
+    for (const [userId, indicatorIds] of byAssignee) {
+      await notifyUser({
+        userId: new Types.ObjectId(userId),
+        submittedBy: req.user._id,
+        title: "Indicators Carried Forward",
+        message: `${indicatorIds.length} indicator(s) have been assigned to you for ${cycle.name}`,
+        type: "assignment",
+        metadata: { indicatorIds, cycleId: cycle._id },
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      dryRun: false,
+      ...report,
+      created: created.length,
+      indicators: created.map((i) => i._id),
+    });
+  },
+);
@@ -0,0 +1,72 @@
+import { Request, Response, NextFunction } from "express";
+
+import { EvidenceIntegrityRun } from "../models/EvidenceIntegrityRun";
+import { catchAsyncErrors } from "../middleware/catchAsyncErrors";
+import ErrorHandler from "../middleware/errorMiddlewares";
+import { logActivity } from "../utils/activityLogger";
+import {
+  failAbandonedIntegrityRuns,
+  startEvidenceVerification,
+} from "../jobs/evidenceIntegrity.job";
+
+/* =====================================================
+  START VERIFY-ALL RUN (SUPERADMIN)
+===================================================== */
+export const startIntegrityRun = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) return next(new ErrorHandler(401, "Unauthorized"));
+
+    await failAbandonedIntegrityRuns();
+    const running = await EvidenceIntegrityRun.findOne({ status: "running" })
+      .select("_id startedAt")
+      .lean();
+    if (running)
+      return next(
+        new ErrorHandler(409, "An evidence verification is already running"),
+      );
+
+    const run = await EvidenceIntegrityRun.create({
+      startedBy: req.user._id,
+    });
+    startEvidenceVerification(run);
+
+    await logActivity({
+      user: req.user._id,
+      action: "verify_all_evidence",
+      entity: "Evidence Integrity",
+      entityId: run._id,
+      level: "info",
+    });
+
+    res.status(202).json({
+      success: true,
+      message: "Evidence verification started",
+      runId: run._id,
+    });
+  },
+);
+
+/* =====================================================
+  RUN REPORTS
+===================================================== */
+export const getIntegrityRuns = catchAsyncErrors(
+  async (_req: Request, res: Response) => {
+    const runs = await EvidenceIntegrityRun.find()
+      .select("-issues")
+      .populate("startedBy", "name")
+      .sort({ startedAt: -1 })
+      .limit(20)
+      .lean();
+    res.status(200).json({ success: true, runs });
+  },
+);
+
+export const getIntegrityRunById = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const run = await EvidenceIntegrityRun.findById(req.params.id)
+      .populate("startedBy", "name")
+      .lean();
+    if (!run) return next(new ErrorHandler(404, "Verification run not found"));
+    res.status(200).json({ success: true, run });
+  },
+);
@@ -1,20 +1,23 @@
 import { Request, Response, NextFunction } from "express";
-import Joi from "joi";
 import mongoose, { Types } from "mongoose";
-import axios from "axios";
 
-import { Category, ICategory } from "../models/Category";
-import { Indicator, IEvidence } from "../models/Indicator";
+import { Category, ICategory, ReviewRole } from "../models/Category";
+import { assertCycleOpen, Indicator, IEvidence } from "../models/Indicator";
 import { User } from "../models/User";
 
 import { catchAsyncErrors } from "../middleware/catchAsyncErrors";
 import ErrorHandler from "../middleware/errorMiddlewares";
 
 import {
-  cloudinary,
-  deleteFromCloudinary,
-  uploadToCloudinary,
-} from "../utils/cloudinary";
+  evidenceStorageRef,
+  storageForEvidence,
+} from "../services/storage";
+import { sliceStream } from "../services/storage/utils";
+import { contentDisposition, parseRangeHeader } from "../utils/httpRange";
+import {
+  createHashingStream,
+  recordIntegrityStatus,
+} from "../services/evidenceIntegrity.service";
 import { logActivity } from "../utils/activityLogger";
 import { notifyUser } from "../services/notification.service";
 import sendMail from "../utils/sendMail";
@@ -29,6 +32,82 @@ import {
   emitIndicatorUpdateToAdmins,
   emitIndicatorUpdateToUser,
 } from "../sockets/socket";
+import {
+  canTransition,
+  getAllowedTransitions,
+  transitionIndicator,
+} from "../services/indicatorStatus.service";
+import {
+  getCurrentReviewStage,
+  isReviewChainComplete,
+  notifyNextReviewers,
+  recordReviewDecision,
+  resolveReviewChain,
+} from "../services/reviewWorkflow.service";
+import {
+  computeGroupRollup,
+  findContribution,
+  isGroupIndicator,
+  recordMemberSubmission,
+  recordMemberWithdrawal,
+  resetMemberContributions,
+} from "../services/groupContribution.service";
+import {
+  createImportedIndicators,
+  validateImportRows,
+} from "../services/indicatorImport.service";
+import { readSpreadsheetRows } from "../utils/spreadsheet";
+import {
+  buildIndicatorVisibilityFilter,
+  listIndicators,
+} from "../services/indicatorQuery.service";
+import {
+  archiveSupersededVersions,
+  getEvidenceHistory,
+  resolveSupersededEvidence,
+  restoreEvidenceVersion,
+} from "../services/evidenceVersion.service";
+import {
+  resolveCycleFilter,
+  resolveCycleForNewIndicator,
+} from "../services/cycle.service";
+import {
+  ArchiveIndicator,
+  streamEvidenceArchive,
+  safeArchiveName,
+} from "../services/evidenceArchive.service";
+import { expandEvidenceUploads } from "../services/evidenceZip.service";
+import {
+  deleteEvidencePreview,
+  previewStorageFields,
+  queueEvidencePreviews,
+} from "../services/evidencePreview.service";
+import {
+  assertEvidenceScanned,
+  assertEvidenceServable,
+  isEvidenceServable,
+  queueEvidenceScans,
+} from "../services/evidenceScan.service";
+import { queueScoreRefresh } from "../services/scoring.service";
+import {
+  assertActualEditable,
+  deriveProgress,
+  parseActualValue,
+  parseMeasurementDefinition,
+  recordActualValue,
+} from "../services/measurement.service";
+import {
+  assertPeriodSubmittable,
+  findReportingPeriod,
+  periodEvidence,
+  reviewReportingPeriod,
+  submitReportingPeriod,
+} from "../services/reportingPeriod.service";
+import {
+  findAttachableUploads,
+  markUploadsAttached,
+  storedObjectOfUpload,
+} from "../services/chunkedUpload.service";
 
 // ✅ Centralized helpers
 import {
@@ -36,6 +115,9 @@ import {
   validateCategories,
   resolveIndicatorTitle,
   buildEvidence,
+  storeEvidenceFile,
+  createIndicatorSchema,
+  reviewPeriodSchema,
 } from "../utils/helpers";
 
 /* =====================================================
@@ -44,6 +126,7 @@ import {
 export const STATUS = {
   PENDING: "pending",
   SUBMITTED: "submitted",
+  PARTIALLY_COMPLETED: "partially_completed",
   APPROVED: "approved",
   COMPLETED: "completed",
   REJECTED: "rejected",
@@ -78,34 +161,6 @@ export interface IIndicator extends mongoose.Document {
   // ...other Indicator fields remain as defined in your model
 }
 
-/* =====================================================
-  JOI SCHEMA
-===================================================== */
-const objectId = Joi.string().hex().length(24);
-
-const createIndicatorSchema = Joi.object({
-  categoryId: objectId.required(),
-  level2CategoryId: objectId.required(),
-  indicatorId: objectId.required(),
-  unitOfMeasure: Joi.string().required(),
-  assignedToType: Joi.string().valid("individual", "group").required(),
-  assignedTo: objectId.allow(null).optional(),
-  assignedGroup: Joi.array().items(objectId).optional(),
-  startDate: Joi.date().required(),
-  dueDate: Joi.date().greater(Joi.ref("startDate")).required(),
-  calendarEvent: Joi.object().optional(),
-}).custom((value, helpers) => {
-  const hasIndividual = !!value.assignedTo;
-  const hasGroup =
-    Array.isArray(value.assignedGroup) && value.assignedGroup.length > 0;
-  if (!hasIndividual && !hasGroup) {
-    return helpers.error("any.custom", {
-      message: "At least one assignee is required",
-    });
-  }
-  return value;
-});
-
 /* =====================================================
   CREATE INDICATOR
 ===================================================== */
@@ -126,13 +181,17 @@ export const createIndicator = catchAsyncErrors(
     if (error) return next(new ErrorHandler(400, error.message));
 
     const {
+      cycleId,
       categoryId,
       level2CategoryId,
       indicatorId,
       unitOfMeasure,
+      measurement,
       assignedToType,
       assignedTo,
       assignedGroup,
+      groupRollup,
+      reportingFrequency,
       startDate,
       dueDate,
       calendarEvent,
@@ -140,21 +199,27 @@ export const createIndicator = catchAsyncErrors(
 
     await validateCategories(categoryId, level2CategoryId);
     const indicatorTitle = await resolveIndicatorTitle(indicatorId);
+    const cycle = await resolveCycleForNewIndicator(cycleId, startDate);
 
     const indicator = await Indicator.create({
+      cycle,
       category: categoryId,
       level2Category: level2CategoryId,
       indicatorTitle,
       unitOfMeasure,
+      measurement: measurement ? parseMeasurementDefinition(measurement) : null,
       assignedToType,
       assignedTo: assignedTo || null,
       assignedGroup: assignedGroup || [],
+      groupRollup,
+      reportingFrequency,
       startDate,
       dueDate,
       calendarEvent: calendarEvent ?? null,
       createdBy: req.user._id,
       status: STATUS.PENDING,
     });
+    queueScoreRefresh(indicator);
 
     await logActivity({
       user: req.user._id,
@@ -217,40 +282,113 @@ export const submitIndicatorEvidence = catchAsyncErrors(
 
     const indicator = await Indicator.findById(req.params.id);
     if (!indicator) return next(new ErrorHandler(404, "Indicator not found"));
-
-    const files = req.files as Express.Multer.File[];
-    if (!files || files.length === 0)
+    await assertCycleOpen(indicator.cycle);
+
+    // Large files arrive beforehand through resumable uploads (uploadIds)
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+    const staged = await findAttachableUploads(
+      indicator._id,
+      req.user._id,
+      req.body.uploadIds,
+    );
+    if (!files.length && !staged.length)
       return next(new ErrorHandler(400, "No files uploaded"));
 
+    // With expandZips each zip is replaced by the files it contains
+    const { uploads, report } = expandEvidenceUploads(
+      files,
+      String(req.query.expandZips ?? req.body.expandZips) === "true",
+    );
+    staged.forEach((s) =>
+      report.push({
+        source: s.fileName,
+        status: "accepted",
+        size: s.totalSize,
+      }),
+    );
+    if (!uploads.length && !staged.length)
+      return res.status(422).json({
+        success: false,
+        message: "None of the uploaded files could be used",
+        uploadReport: report,
+      });
+
+    // Group indicators only move on once the rollup rule is satisfied
+    const isGroup = isGroupIndicator(indicator);
+    if (isGroup) recordMemberSubmission(indicator, req.user._id);
+
+    // Validate the move before anything is uploaded
+    if (!isGroup || computeGroupRollup(indicator).isComplete)
+      transitionIndicator(indicator, STATUS.SUBMITTED, {
+        by: req.user._id,
+        role: req.user.role,
+        reason: "Evidence submitted",
+      });
+
+    const previous = resolveSupersededEvidence(
+      indicator,
+      req.body.supersedes,
+      uploads.length + staged.length,
+    );
+
     const rawDescs = req.body.descriptions;
     const descriptions: string[] = Array.isArray(rawDescs)
       ? rawDescs
       : [rawDescs || ""];
 
-    const evidenceItems: IEvidence[] = await Promise.all(
-      files.map(async (file, i) => {
-        const desc = descriptions[i] || "Evidence submission";
-        const upload = await uploadToCloudinary(
-          file.buffer,
-          indicator._id.toString(),
-          file.originalname,
-        );
-        return buildEvidence(
+    // One at a time, so at most one expanded zip entry is in memory
+    const evidenceItems: IEvidence[] = [];
+    for (const [i, file] of uploads.entries()) {
+      const desc = descriptions[file.sourceIndex] || "Evidence submission";
+      const upload = await storeEvidenceFile(indicator._id, {
+        ...file,
+        buffer: file.read(),
+      });
+      evidenceItems.push(
+        buildEvidence(
           upload,
           file.originalname,
           file.size,
           file.mimetype,
-          req.user!._id,
+          req.user._id,
           desc,
-        );
-      }),
+          0,
+          previous[i],
+        ),
+      );
+    }
+
+    const stagedItems = staged.map((session, j) =>
+      buildEvidence(
+        storedObjectOfUpload(session),
+        session.fileName,
+        session.totalSize,
+        session.mimeType,
+        req.user!._id,
+        session.description || "Evidence submission",
+        0,
+        previous[uploads.length + j],
+      ),
     );
 
-    indicator.evidence.push(...evidenceItems);
-    indicator.status = STATUS.SUBMITTED;
+    archiveSupersededVersions(indicator, previous);
+    indicator.evidence.push(...evidenceItems, ...stagedItems);
     await indicator.save();
-
-    res.json({ success: true, indicator });
+    await markUploadsAttached(
+      staged.map((session, j) => ({
+        session,
+        evidenceId: stagedItems[j]._id,
+      })),
+    );
+    queueEvidenceScans(indicator._id, [
+      ...evidenceItems.map((evidence, i) => ({
+        evidence,
+        source: uploads[i].buffer,
+      })),
+      ...stagedItems.map((evidence) => ({ evidence })),
+    ]);
+
+    res.json({ success: true, indicator, uploadReport: report });
   },
 );
 
@@ -272,18 +410,53 @@ const reviewIndicator = async (
       );
 
     const indicator = await Indicator.findById(req.params.id).populate(
-      "assignedTo",
+      "assignedTo assignedGroup",
+      "name email",
     );
     if (!indicator) return next(new ErrorHandler(404, "Indicator not found"));
+    assertEvidenceScanned(indicator.evidence);
+    // A measured target is scored by its actual, so one must be on record
+    if (
+      action === "approve" &&
+      indicator.measurement &&
+      indicator.measurement.actual == null
+    )
+      return next(
+        new ErrorHandler(
+          409,
+          "Record the measured actual before approving this indicator",
+        ),
+      );
 
     const { notes, reportData } = req.body;
     const specificIndicatorUrl = `${env.FRONTEND_URL}/user/indicators/${indicator._id}`;
-    const recipientEmail = (indicator.assignedTo as any)?.email;
+
+    // Every assignee hears about the decision, including all group members
+    const recipientEmails = new Set<string>();
+    const assignee = indicator.assignedTo as any;
+    if (assignee?.email) recipientEmails.add(assignee.email);
+    (indicator.assignedGroup as any[])?.forEach((member) => {
+      if (member?.email) recipientEmails.add(member.email);
+    });
+    const recipientEmail = Array.from(recipientEmails);
+    const chain = await resolveReviewChain(indicator);
+    let nextStage: { role: ReviewRole; stage: number } | null = null;
 
     if (action === "reject") {
       if (!notes || notes.trim().length === 0)
         return next(new ErrorHandler(400, "Rejection requires a remark."));
-      indicator.status = STATUS.REJECTED;
+      transitionIndicator(indicator, STATUS.REJECTED, {
+        by: req.user._id,
+        role: userRole,
+        reason: notes.trim(),
+        path: "review",
+      });
+      recordReviewDecision(indicator, chain, {
+        reviewer: req.user._id,
+        role: userRole,
+        decision: "rejected",
+        remarks: notes.trim(),
+      });
       indicator.rejectionCount = (indicator.rejectionCount || 0) + 1;
       indicator.progress = 0;
       indicator.result = "fail";
@@ -293,7 +466,7 @@ const reviewIndicator = async (
         createdAt: new Date(),
       });
 
-      if (recipientEmail) {
+      if (recipientEmail.length) {
         const mail = indicatorRejectedTemplate({
           indicatorTitle: indicator.indicatorTitle,
           rejectionNotes: notes.trim(),
@@ -302,10 +475,36 @@ const reviewIndicator = async (
         await sendMail({ to: recipientEmail, ...mail });
       }
     } else if (action === "approve") {
-      indicator.status =
-        userRole === "superadmin" ? STATUS.COMPLETED : STATUS.APPROVED;
-      indicator.progress = 100;
-      indicator.result = "pass";
+      const remarks = typeof notes === "string" ? notes.trim() : "";
+      const outcome = recordReviewDecision(indicator, chain, {
+        reviewer: req.user._id,
+        role: userRole,
+        decision: "approved",
+        remarks,
+      });
+
+      // Only the last stage in the chain may complete the indicator
+      transitionIndicator(
+        indicator,
+        outcome.isFinal ? STATUS.COMPLETED : STATUS.APPROVED,
+        {
+          by: req.user._id,
+          role: userRole,
+          reason:
+            remarks ||
+            `Stage ${outcome.stage + 1} (${outcome.requiredRole}) approved`,
+          path: "review",
+        },
+      );
+      // A measured target scores what the recorded actual achieved;
+      // an unmeasured one is met in full once approved
+      const measured = indicator.measurement
+        ? deriveProgress(indicator.measurement)
+        : null;
+      indicator.progress = measured ?? 100;
+      if (outcome.isFinal) indicator.result = "pass";
+      if (outcome.nextRole)
+        nextStage = { role: outcome.nextRole, stage: outcome.stage + 1 };
 
       if (notes && typeof notes === "string")
         indicator.notes.push({
@@ -314,7 +513,7 @@ const reviewIndicator = async (
           createdAt: new Date(),
         });
 
-      if (recipientEmail) {
+      if (recipientEmail.length && outcome.isFinal) {
         const mail = indicatorApprovedTemplate({
           indicatorTitle: indicator.indicatorTitle,
           appUrl: specificIndicatorUrl,
@@ -328,6 +527,16 @@ const reviewIndicator = async (
     if (reportData) indicator.reportData = reportData;
 
     await indicator.save();
+    queueScoreRefresh(indicator);
+
+    if (nextStage)
+      await notifyNextReviewers(
+        indicator,
+        nextStage.role,
+        nextStage.stage,
+        req.user._id,
+      );
+
     res.status(200).json({ success: true, indicator });
   } catch (err) {
     next(err);
@@ -364,7 +573,25 @@ export const updateIndicator = catchAsyncErrors(
       );
     }
 
-    const { notes, evidence: incomingEvidence, ...otherData } = req.body;
+    const {
+      notes,
+      evidence: incomingEvidence,
+      status: requestedStatus,
+      statusHistory: _ignoredHistory,
+      // Targets and actuals have their own validated endpoints
+      measurement: _ignoredMeasurement,
+      // Rebuilt from reportingFrequency and the dates on save
+      reportingPeriods: _ignoredPeriods,
+      // Indicators only change cycle through roll-forward
+      cycle: _ignoredCycle,
+      // Written by the review, contribution and close workflows
+      reviewStages: _ignoredStages,
+      reviewRound: _ignoredRound,
+      reviewRounds: _ignoredRounds,
+      memberContributions: _ignoredContributions,
+      finalSnapshot: _ignoredSnapshot,
+      ...otherData
+    } = req.body;
 
     const changes: Record<string, { old: any; new: any }> = {};
     const trackableFields = [
@@ -375,11 +602,12 @@ export const updateIndicator = catchAsyncErrors(
       "assignedTo",
       "status",
       "nextDeadline",
+      "reportingFrequency",
     ];
 
     trackableFields.forEach((field) => {
       const currentVal = indicator.get(field);
-      const newVal = otherData[field];
+      const newVal = field === "status" ? requestedStatus : otherData[field];
       if (newVal !== undefined && String(currentVal) !== String(newVal))
         changes[field] = { old: currentVal, new: newVal };
     });
@@ -409,8 +637,22 @@ export const updateIndicator = catchAsyncErrors(
       });
     }
 
+    // Moving the indicator changes two objectives' scores
+    const previousPlacement = {
+      cycle: indicator.cycle,
+      level2Category: indicator.level2Category,
+    };
     indicator.set(otherData);
 
+    // Review outcomes are bound to the review endpoints, so only the
+    // unbound moves in the transition table can be made here
+    if (requestedStatus !== undefined)
+      transitionIndicator(indicator, requestedStatus, {
+        by: req.user._id,
+        role: req.user.role,
+        reason: typeof notes === "string" ? notes.trim() : "Manual update",
+      });
+
     if (notes && notes.trim() !== "")
       indicator.notes.push({
         text: notes.trim(),
@@ -419,6 +661,7 @@ export const updateIndicator = catchAsyncErrors(
       });
 
     await indicator.save();
+    queueScoreRefresh(previousPlacement, indicator);
 
     const updatedIndicator = await Indicator.findById(indicator._id)
       .populate("category level2Category", "title")
@@ -492,18 +735,15 @@ export const deleteIndicator = catchAsyncErrors(
     const indicator = await Indicator.findById(req.params.id);
     if (!indicator) return next(new ErrorHandler(404, "Indicator not found"));
 
-    // Delete associated Cloudinary files
+    // Delete associated stored files
     if (indicator.evidence?.length) {
       await Promise.all(
         indicator.evidence.map(async (item) => {
           try {
-            await deleteFromCloudinary(
-              item.publicId,
-              item.resourceType || "auto",
-            );
+            await storageForEvidence(item).delete(evidenceStorageRef(item));
           } catch (err) {
             console.error(
-              `Failed to delete Cloudinary file ${item.publicId}:`,
+              `Failed to delete stored file ${item.publicId}:`,
               err,
             );
           }
@@ -512,6 +752,7 @@ export const deleteIndicator = catchAsyncErrors(
     }
 
     await indicator.deleteOne();
+    queueScoreRefresh(indicator);
 
     await logActivity({
       user: req.user._id,
@@ -532,30 +773,38 @@ export const deleteIndicator = catchAsyncErrors(
   GETTERS
 ===================================================== */
 export const getIndicatorById = catchAsyncErrors(
-  async (req: AuthenticatedRequest, res: Response) => {
-    const indicator = await Indicator.findById(req.params.id)
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) return next(new ErrorHandler(401, "Unauthorized"));
+
+    const indicator = await Indicator.findOne({
+      _id: req.params.id,
+      ...buildIndicatorVisibilityFilter(req.user),
+    })
       .populate("category level2Category", "title")
       .populate("createdBy reviewedBy", "name email")
       .lean();
+    if (!indicator) return next(new ErrorHandler(404, "Indicator not found"));
 
     await logActivity({
-      user: req.user?._id || "SYSTEM",
+      user: req.user._id,
       action: "view_indicator",
-      entity: indicator?.indicatorTitle || "Unknown",
-      entityId: indicator?._id,
+      entity: indicator.indicatorTitle,
+      entityId: indicator._id,
       level: "info",
     });
 
-    res.json({ success: !!indicator, indicator });
+    res.json({ success: true, indicator });
   },
 );
 
 export const getAllIndicators = catchAsyncErrors(
   async (req: AuthenticatedRequest, res: Response) => {
-    const indicators = await Indicator.find()
-      .populate("category level2Category", "title")
-      .sort({ createdAt: -1 })
-      .lean();
+    const { indicators, pagination } = await listIndicators(
+      {},
+      req.query,
+      { sortBy: "createdAt", sortOrder: "desc" },
+      [{ path: "category level2Category", select: "title code" }],
+    );
 
     await logActivity({
       user: req.user?._id || "SYSTEM",
@@ -564,19 +813,21 @@ export const getAllIndicators = catchAsyncErrors(
       level: "info",
     });
 
-    res.json({ success: true, indicators });
+    res.json({ success: true, indicators, pagination });
   },
 );
 
 export const getSubmittedIndicators = catchAsyncErrors(
   async (req: AuthenticatedRequest, res: Response) => {
-    const indicators = await Indicator.find({
-      status: { $in: [STATUS.SUBMITTED, STATUS.APPROVED, STATUS.PENDING] },
-    })
-      .populate("category level2Category", "title")
-      .populate("createdBy reviewedBy", "name email")
-      .sort({ updatedAt: -1 })
-      .lean();
+    const { indicators, pagination } = await listIndicators(
+      { status: { $in: [STATUS.SUBMITTED, STATUS.APPROVED, STATUS.PENDING] } },
+      req.query,
+      { sortBy: "updatedAt", sortOrder: "desc" },
+      [
+        { path: "category level2Category", select: "title code" },
+        { path: "createdBy reviewedBy", select: "name email" },
+      ],
+    );
 
     await logActivity({
       user: req.user?._id || "SYSTEM",
@@ -585,18 +836,20 @@ export const getSubmittedIndicators = catchAsyncErrors(
       level: "info",
     });
 
-    res.json({ success: true, indicators });
+    res.json({ success: true, indicators, pagination });
   },
 );
 
 export const getUserIndicators = catchAsyncErrors(
   async (req: AuthenticatedRequest, res: Response) => {
-    const indicators = await Indicator.find({
-      $or: [{ assignedTo: req.user?._id }, { assignedGroup: req.user?._id }],
-    })
-      .populate("category level2Category", "title")
-      .sort({ dueDate: 1 })
-      .lean();
+    const { indicators, pagination } = await listIndicators(
+      {
+        $or: [{ assignedTo: req.user?._id }, { assignedGroup: req.user?._id }],
+      },
+      req.query,
+      { sortBy: "dueDate", sortOrder: "asc" },
+      [{ path: "category level2Category", select: "title code" }],
+    );
 
     await logActivity({
       user: req.user?._id || "SYSTEM",
@@ -605,70 +858,114 @@ export const getUserIndicators = catchAsyncErrors(
       level: "info",
     });
 
-    res.json({ success: true, indicators });
+    res.json({ success: true, indicators, pagination });
   },
 );
 
 /* =====================================================
-  PROXY STREAM EVIDENCE
+  STREAM EVIDENCE (RANGE-AWARE)
 ===================================================== */
-export const proxyEvidenceStream = catchAsyncErrors(
-  async (req: Request, res: Response, next: NextFunction) => {
-    const publicId = decodeURIComponent(req.query.publicId as string);
-
-    try {
-      if (!publicId) {
-        return next(new ErrorHandler(400, "Missing publicId"));
-      }
-
-      // 🔎 Detect file type
-      const isPdf = publicId.toLowerCase().endsWith(".pdf");
-
-      const resourceType = isPdf ? "raw" : "image";
-      const format = isPdf ? "pdf" : ""; // must always be a string
+export const streamEvidence = catchAsyncErrors(
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) return next(new ErrorHandler(401, "Unauthorized"));
 
-      // 🔐 Generate signed URL
-      const signedUrl = cloudinary.utils.private_download_url(
-        publicId,
-        format,
-        {
-          resource_type: resourceType,
-          type: "authenticated",
-          expires_at: Math.floor(Date.now() / 1000) + 3600, // 1 hour expiry
-        }
-      );
+    // 🔎 Only assignees and admins may read the file
+    const indicator = await Indicator.findOne(
+      {
+        _id: req.params.id,
+        "evidence._id": req.params.evidenceId,
+        ...buildIndicatorVisibilityFilter(req.user),
+      },
+      { "evidence.$": 1 },
+    ).lean();
+    const evidence = indicator?.evidence?.[0];
+    if (!evidence) return next(new ErrorHandler(404, "Evidence not found"));
+    assertEvidenceServable(evidence);
+
+    const size = evidence.fileSize;
+    const range = parseRangeHeader(req.headers.range, size);
+    if (range === "unsatisfiable") {
+      res.setHeader("Content-Range", `bytes */${size}`);
+      return next(new ErrorHandler(416, "Requested range not satisfiable"));
+    }
 
-      // 🌐 Fetch file stream from Cloudinary
-      const response = await axios({
-        method: "get",
-        url: signedUrl,
-        responseType: "stream",
-      });
+    const download = ["1", "true"].includes(String(req.query.download));
+    const { stream, partial } = await storageForEvidence(evidence).getStream(
+      evidenceStorageRef(evidence),
+      range ?? undefined,
+    );
 
-      // 📦 Set correct content type dynamically
-      const contentType =
-        response.headers["content-type"] ||
-        (isPdf ? "application/pdf" : "image/jpeg");
+    // 📦 Type and name come from the record, never from the URL
+    res.setHeader(
+      "Content-Type",
+      evidence.mimeType || "application/octet-stream",
+    );
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.setHeader("Accept-Ranges", "bytes");
+    res.setHeader(
+      "Content-Disposition",
+      contentDisposition(download ? "attachment" : "inline", evidence.fileName),
+    );
 
-      res.setHeader("Content-Type", contentType);
-      res.setHeader("Content-Disposition", "inline");
+    // Allow iframe embedding from your frontend
+    res.removeHeader("X-Frame-Options");
+    res.setHeader(
+      "Content-Security-Policy",
+      `frame-ancestors 'self' ${env.FRONTEND_URL}`,
+    );
+    if (evidence.sha256) res.setHeader("X-Evidence-SHA256", evidence.sha256);
+
+    // Stop pulling from the backend once the client is gone
+    res.on("close", () => stream.destroy());
+    stream.on("error", (err) => {
+      console.error("[STREAM ERROR]:", err.message);
+      if (!res.headersSent) return next(err);
+      res.destroy(err);
+    });
 
-      // Allow iframe embedding from your frontend
-      res.removeHeader("X-Frame-Options");
+    if (range) {
+      res.status(206);
       res.setHeader(
-        "Content-Security-Policy",
-        `frame-ancestors 'self' ${env.FRONTEND_URL}`
+        "Content-Range",
+        `bytes ${range.start}-${range.end}/${size}`,
       );
+      res.setHeader("Content-Length", range.end - range.start + 1);
+      (partial ? stream : stream.pipe(sliceStream(range))).pipe(res);
+      return;
+    }
 
+    if (size) res.setHeader("Content-Length", size);
+    if (!evidence.sha256) {
       // 🚀 Pipe stream to client
-      response.data.pipe(res);
-    } catch (err: any) {
-      console.error("[PROXY ERROR]:", err.response?.data || err.message);
-      return next(new ErrorHandler(500, "Failed to stream document"));
+      stream.pipe(res);
+      return;
     }
-  }
-);
 
+    // 🔏 Full downloads are re-hashed on the way through
+    const hashing = createHashingStream();
+    stream.on("end", () => {
+      const actual = hashing.digest();
+      const status = actual === evidence.sha256 ? "verified" : "mismatch";
+      if (status === evidence.integrityStatus) return;
+
+      void recordIntegrityStatus(indicator!._id, evidence._id, status);
+      if (status === "mismatch")
+        void logActivity({
+          user: req.user?._id || "SYSTEM",
+          action: "evidence_integrity_mismatch",
+          entity: evidence.fileName,
+          entityId: indicator!._id,
+          level: "error",
+          meta: {
+            evidenceId: evidence._id,
+            expected: evidence.sha256,
+            actual,
+          },
+        });
+    });
+    stream.pipe(hashing.transform).pipe(res);
+  },
+);
 
 /* =====================================================
   DELETE SINGLE EVIDENCE (USER ONLY)
@@ -697,17 +994,30 @@ export const deleteSingleEvidence = catchAsyncErrors(
         new ErrorHandler(403, "Action prohibited: This record is sealed."),
       );
 
+    // Withdrawing the last file sends a submission back to pending;
+    // any other status is kept as it is
+    if (
+      indicator.evidence.length === 1 &&
+      canTransition(indicator.status, STATUS.PENDING, req.user!.role)
+    )
+      transitionIndicator(indicator, STATUS.PENDING, {
+        by: req.user!._id,
+        role: req.user!.role,
+        reason: "All evidence withdrawn",
+      });
+
     try {
-      await deleteFromCloudinary(
-        evidenceDoc.publicId,
-        evidenceDoc.resourceType || "auto",
+      await storageForEvidence(evidenceDoc).delete(
+        evidenceStorageRef(evidenceDoc),
       );
+      await deleteEvidencePreview(evidenceDoc.preview);
     } catch (err) {
-      console.error("Cloudinary Cleanup Failed:", err);
+      console.error("Storage Cleanup Failed:", err);
     }
 
     (indicator.evidence as any).pull(evidenceId);
-    if (indicator.evidence.length === 0) indicator.status = STATUS.PENDING;
+    if (isGroupIndicator(indicator))
+      recordMemberWithdrawal(indicator, req.user!._id);
 
     await indicator.save();
 
@@ -738,6 +1048,7 @@ export const updateIndicatorProgress = catchAsyncErrors(
     indicator.progress = progress;
 
     await indicator.save();
+    queueScoreRefresh(indicator);
 
     await logActivity({
       user: req.user._id,
@@ -752,6 +1063,108 @@ export const updateIndicatorProgress = catchAsyncErrors(
   },
 );
 
+/* =====================================================
+  SET MEASUREMENT TARGET (ADMIN / SUPERADMIN)
+===================================================== */
+export const updateIndicatorMeasurement = catchAsyncErrors(
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user || !hasRole(req.user.role, ["admin", "superadmin"]))
+      return next(new ErrorHandler(403, "Forbidden"));
+
+    const indicator = await Indicator.findById(req.params.id);
+    if (!indicator) return next(new ErrorHandler(404, "Indicator not found"));
+    // A new target re-rates the record, which a sealed one must not be
+    assertActualEditable(indicator, true);
+
+    const previous = indicator.measurement ?? null;
+    const measurement =
+      req.body.measurement === null
+        ? null
+        : parseMeasurementDefinition(req.body.measurement, previous);
+
+    const changes: Record<string, { old: any; new: any }> = {
+      measurement: { old: previous, new: measurement },
+    };
+    indicator.measurement = measurement;
+
+    // A new target re-rates the actual already on record
+    const progress = measurement ? deriveProgress(measurement) : null;
+    if (progress !== null && progress !== indicator.progress) {
+      changes.progress = { old: indicator.progress, new: progress };
+      indicator.progress = progress;
+    }
+
+    indicator.editHistory.push({
+      updatedBy: req.user._id,
+      updatedAt: new Date(),
+      changes,
+    });
+    await indicator.save();
+    queueScoreRefresh(indicator);
+
+    await logActivity({
+      user: req.user._id,
+      action: "update_measurement",
+      entity: indicator.indicatorTitle,
+      entityId: indicator._id,
+      level: "info",
+      meta: { measurement },
+    });
+
+    res.status(200).json({ success: true, indicator });
+  },
+);
+
+/* =====================================================
+  RECORD MEASURED ACTUAL (ASSIGNEE / ADMIN)
+===================================================== */
+export const recordIndicatorActual = catchAsyncErrors(
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) return next(new ErrorHandler(401, "Unauthorized"));
+
+    const indicator = await Indicator.findOne({
+      _id: req.params.id,
+      ...buildIndicatorVisibilityFilter(req.user),
+    });
+    if (!indicator) return next(new ErrorHandler(404, "Indicator not found"));
+    if (!indicator.measurement)
+      return next(
+        new ErrorHandler(409, "This indicator has no measurable target"),
+      );
+
+    const isReviewer = hasRole(req.user.role, ["admin", "superadmin"]);
+    assertActualEditable(indicator, isReviewer);
+
+    const actual = parseActualValue(indicator.measurement, req.body.actual);
+    const changes = recordActualValue(indicator, actual, req.user._id, {
+      applyProgress: isReviewer,
+    });
+
+    indicator.editHistory.push({
+      updatedBy: req.user._id,
+      updatedAt: new Date(),
+      changes,
+    });
+    await indicator.save();
+    queueScoreRefresh(indicator);
+
+    await logActivity({
+      user: req.user._id,
+      action: "record_actual",
+      entity: indicator.indicatorTitle,
+      entityId: indicator._id,
+      level: "info",
+      meta: { actual, progress: indicator.progress },
+    });
+
+    res.status(200).json({
+      success: true,
+      progress: indicator.progress,
+      indicator,
+    });
+  },
+);
+
 /* =====================================================
   ADMIN SUBMIT INDICATOR EVIDENCE
 ===================================================== */
@@ -762,20 +1175,25 @@ export const adminSubmitIndicatorEvidence = catchAsyncErrors(
 
     const indicator = await Indicator.findById(req.params.id);
     if (!indicator) return next(new ErrorHandler(404, "Indicator not found"));
+    await assertCycleOpen(indicator.cycle);
 
     const files = req.files as Express.Multer.File[];
     if (!files?.length) return next(new ErrorHandler(400, "No files uploaded"));
 
+    // Admin submission typically auto-approves
+    transitionIndicator(indicator, STATUS.APPROVED, {
+      by: req.user._id,
+      role: req.user.role,
+      reason: "Admin direct upload",
+      path: "admin-upload",
+    });
+
     const rawDescs = req.body.descriptions || [];
     const descriptions = Array.isArray(rawDescs) ? rawDescs : [rawDescs];
 
     const uploadPromises = files.map(async (file, i) => {
       const desc = descriptions[i] || "Admin Verified Evidence";
-      const upload = await uploadToCloudinary(
-        file.buffer,
-        indicator._id.toString(),
-        file.originalname,
-      );
+      const upload = await storeEvidenceFile(indicator._id, file);
       return buildEvidence(
         upload,
         file.originalname,
@@ -789,13 +1207,19 @@ export const adminSubmitIndicatorEvidence = catchAsyncErrors(
     const evidenceItems = await Promise.all(uploadPromises);
     indicator.evidence.push(...evidenceItems);
 
-    // Admin submission typically auto-approves
-    indicator.status = STATUS.APPROVED;
     indicator.progress = 100;
     indicator.reviewedAt = new Date();
     indicator.reviewedBy = req.user._id;
 
     await indicator.save();
+    queueScoreRefresh(indicator);
+    queueEvidenceScans(
+      indicator._id,
+      evidenceItems.map((evidence, i) => ({
+        evidence,
+        source: files[i].buffer,
+      })),
+    );
 
     res.status(200).json({ success: true, indicator });
   },
@@ -816,11 +1240,50 @@ export const resubmitIndicatorEvidence = catchAsyncErrors(
       return next(
         new ErrorHandler(400, "Only rejected indicators can be resubmitted"),
       );
+    await assertCycleOpen(indicator.cycle);
 
-    const files = req.files as Express.Multer.File[];
-    if (!files?.length)
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+    const staged = await findAttachableUploads(
+      indicator._id,
+      user._id,
+      req.body.uploadIds,
+    );
+    if (!files.length && !staged.length)
       return next(new ErrorHandler(400, "Please upload revised evidence"));
 
+    // With expandZips each zip is replaced by the files it contains
+    const { uploads, report } = expandEvidenceUploads(
+      files,
+      String(req.query.expandZips ?? req.body.expandZips) === "true",
+    );
+    staged.forEach((s) =>
+      report.push({
+        source: s.fileName,
+        status: "accepted",
+        size: s.totalSize,
+      }),
+    );
+    if (!uploads.length && !staged.length)
+      return res.status(422).json({
+        success: false,
+        message: "None of the uploaded files could be used",
+        uploadReport: report,
+      });
+
+    const attempt = (indicator.rejectionCount ?? 0) + 1;
+    transitionIndicator(indicator, STATUS.SUBMITTED, {
+      by: user._id,
+      role: user.role,
+      reason: `Resubmission attempt ${attempt}`,
+    });
+
+    // Link each new file to the version it replaces before archiving
+    const previous = resolveSupersededEvidence(
+      indicator,
+      req.body.supersedes,
+      uploads.length + staged.length,
+    );
+
     // Archive old evidence
     indicator.evidence.forEach((ev: any) => {
       if (!ev.isArchived) {
@@ -830,7 +1293,7 @@ export const resubmitIndicatorEvidence = catchAsyncErrors(
       }
     });
 
-    const attempt = (indicator.rejectionCount ?? 0) + 1;
+    if (isGroupIndicator(indicator)) resetMemberContributions(indicator);
     indicator.rejectionCount = attempt;
 
     const rawDescs = req.body.descriptions;
@@ -839,16 +1302,16 @@ export const resubmitIndicatorEvidence = catchAsyncErrors(
       : [rawDescs || ""];
 
     const newEvidence: IEvidence[] = [];
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i];
+    for (let i = 0; i < uploads.length; i++) {
+      const file = uploads[i];
       const desc =
-        descriptions[i] || `Resubmission Evidence (Attempt ${attempt})`;
+        descriptions[file.sourceIndex] ||
+        `Resubmission Evidence (Attempt ${attempt})`;
 
-      const upload = await uploadToCloudinary(
-        file.buffer,
-        indicator._id.toString(),
-        file.originalname,
-      );
+      const upload = await storeEvidenceFile(indicator._id, {
+        ...file,
+        buffer: file.read(),
+      });
       newEvidence.push(
         buildEvidence(
           upload,
@@ -858,12 +1321,30 @@ export const resubmitIndicatorEvidence = catchAsyncErrors(
           user._id,
           desc,
           attempt,
+          previous[i],
         ),
       );
     }
 
+    staged.forEach((session, j) =>
+      newEvidence.push(
+        buildEvidence(
+          storedObjectOfUpload(session),
+          session.fileName,
+          session.totalSize,
+          session.mimeType,
+          user._id,
+          session.description ||
+            `Resubmission Evidence (Attempt ${attempt})`,
+          attempt,
+          previous[uploads.length + j],
+        ),
+      ),
+    );
+
     indicator.evidence.push(...newEvidence);
-    indicator.status = STATUS.SUBMITTED;
+    if (isGroupIndicator(indicator))
+      recordMemberSubmission(indicator, user._id);
     indicator.result = null;
     indicator.reviewedBy = null;
     indicator.reviewedAt = null;
@@ -875,8 +1356,21 @@ export const resubmitIndicatorEvidence = catchAsyncErrors(
     });
 
     await indicator.save();
+    await markUploadsAttached(
+      staged.map((session, j) => ({
+        session,
+        evidenceId: newEvidence[uploads.length + j]._id,
+      })),
+    );
+    queueEvidenceScans(
+      indicator._id,
+      newEvidence.map((evidence, i) => ({
+        evidence,
+        source: uploads[i]?.buffer,
+      })),
+    );
 
-    res.status(200).json({ success: true, indicator });
+    res.status(200).json({ success: true, indicator, uploadReport: report });
   },
 );
 
@@ -908,11 +1402,29 @@ export const submitIndicatorScore = catchAsyncErrors(
       submittedAt: new Date(),
     });
 
-    if (score === 100) {
-      indicator.status = STATUS.COMPLETED;
+    const transitionContext = {
+      by: adminId,
+      role: req.user?.role,
+      reason: note || `Score ${score}%`,
+    };
+
+    // A full score cannot bypass the review chain: without every
+    // stage's sign-off the status is left for the reviewers
+    const signedOff =
+      score === 100 &&
+      isReviewChainComplete(indicator, await resolveReviewChain(indicator));
+
+    if (score === 100 && signedOff) {
+      transitionIndicator(indicator, STATUS.COMPLETED, {
+        ...transitionContext,
+        path: "review",
+      });
       indicator.result = "pass";
-    } else if (score > 0) {
-      indicator.status = "partially_completed";
+    } else if (score > 0 && score < 100) {
+      transitionIndicator(indicator, STATUS.PARTIALLY_COMPLETED, {
+        ...transitionContext,
+        path: "score",
+      });
       if (nextDeadline) {
         indicator.nextDeadline = new Date(nextDeadline);
         changes.nextDeadline = { old: null, new: nextDeadline };
@@ -936,10 +1448,16 @@ export const submitIndicatorScore = catchAsyncErrors(
     }
 
     await indicator.save();
+    queueScoreRefresh(indicator);
 
     res.status(200).json({
       success: true,
-      message: score === 100 ? "Completed" : "Partially completed",
+      message:
+        score === 100
+          ? signedOff
+            ? "Completed"
+            : "Scored in full — awaiting review sign-off"
+          : "Partially completed",
       indicator,
     });
   },
@@ -1103,11 +1621,24 @@ export const rejectSingleEvidence = catchAsyncErrors(
     // Update the document status
     const oldStatus = doc.status;
     doc.status = "rejected";
-    (doc as any).rejectionReason = reason.trim(); // Ensure this is in your Schema
+    doc.rejectionReason = reason.trim();
+    doc.rejectedBy = req.user._id;
+    doc.rejectedAt = new Date();
 
     // If any document is rejected, we typically move the whole indicator 
     // to a "revisions_required" or "rejected" status so the user sees it.
-    indicator.status = STATUS.REJECTED; 
+    transitionIndicator(indicator, STATUS.REJECTED, {
+      by: req.user._id,
+      role: req.user.role,
+      reason: `Document rejected (${doc.fileName}): ${reason.trim()}`,
+      path: "review",
+    });
+    recordReviewDecision(indicator, await resolveReviewChain(indicator), {
+      reviewer: req.user._id,
+      role: req.user.role,
+      decision: "rejected",
+      remarks: `${doc.fileName}: ${reason.trim()}`,
+    });
     
     // Add to indicator notes for the audit trail
     indicator.notes.push({
@@ -1138,36 +1669,305 @@ export const rejectSingleEvidence = catchAsyncErrors(
 
 
 /* =====================================================
-  ADD STATUS NOTE (JUSTIFICATION)
+  EVIDENCE VERSION HISTORY
 ===================================================== */
-export const addIndicatorNote = catchAsyncErrors(
+export const getEvidenceVersionHistory = catchAsyncErrors(
   async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     if (!req.user) return next(new ErrorHandler(401, "Unauthorized"));
 
-    const { id } = req.params;
-    const { text } = req.body;
-
-    if (!text || text.trim().length === 0) {
-      return next(new ErrorHandler(400, "Note text cannot be empty"));
-    }
-
-    const indicator = await Indicator.findById(id);
+    const indicator = await Indicator.findOne({
+      _id: req.params.id,
+      ...buildIndicatorVisibilityFilter(req.user),
+    })
+      .select("indicatorTitle evidence")
+      .populate(
+        "evidence.uploadedBy evidence.rejectedBy evidence.restoredBy",
+        "name pjNumber",
+      )
+      .lean();
     if (!indicator) return next(new ErrorHandler(404, "Indicator not found"));
 
-    // Push to the global notes array
-    indicator.notes.push({
-      text: text.trim(),
-      createdBy: req.user._id,
-      createdAt: new Date(),
+    const history = getEvidenceHistory(
+      indicator,
+      req.params.evidenceId as string,
+    );
+
+    res.status(200).json({
+      success: true,
+      indicatorId: indicator._id,
+      indicatorTitle: indicator.indicatorTitle,
+      ...history,
     });
+  },
+);
 
-    // Optional: Auto-update status to 'submitted' if it was 'pending' 
-    // to let admin know there is something to read
-    if (indicator.status === STATUS.PENDING) {
-      indicator.status = STATUS.SUBMITTED;
-    }
+/* =====================================================
+  EVIDENCE THUMBNAIL
+===================================================== */
+export const getEvidenceThumbnail = catchAsyncErrors(
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) return next(new ErrorHandler(401, "Unauthorized"));
 
-    await indicator.save();
+    const indicator = await Indicator.findOne(
+      {
+        _id: req.params.id,
+        "evidence._id": req.params.evidenceId,
+        ...buildIndicatorVisibilityFilter(req.user),
+      },
+      { "evidence.$": 1 },
+    ).lean();
+    const evidence = indicator?.evidence?.[0];
+    if (!evidence) return next(new ErrorHandler(404, "Evidence not found"));
+
+    const preview = evidence.preview;
+
+    // Previews are only made once the scanner has cleared the file
+    if (evidence.scanStatus === "pending") {
+      res.setHeader("Retry-After", "5");
+      return res.status(202).json({ success: true, status: "pending" });
+    }
+    if (!isEvidenceServable(evidence))
+      return next(
+        new ErrorHandler(404, "No preview is available for this file"),
+      );
+
+    // Not generated yet: evidence from before previews is queued now
+    if (!preview || preview.status === "pending") {
+      if (!preview) {
+        await Indicator.updateOne(
+          { _id: indicator._id, "evidence._id": evidence._id },
+          { $set: { "evidence.$.preview": { status: "pending" } } },
+        );
+        queueEvidencePreviews(indicator._id, [{ evidence }]);
+      }
+      res.setHeader("Retry-After", "5");
+      return res.status(202).json({ success: true, status: "pending" });
+    }
+
+    if (preview.status !== "ready")
+      return next(
+        new ErrorHandler(
+          404,
+          preview.error || "No preview is available for this file",
+        ),
+      );
+
+    const fields = previewStorageFields(preview);
+    const { stream, contentLength } = await storageForEvidence(
+      fields,
+    ).getStream(evidenceStorageRef(fields));
+
+    res.setHeader("Content-Type", "image/png");
+    res.setHeader("Cache-Control", "private, max-age=86400");
+    if (contentLength) res.setHeader("Content-Length", contentLength);
+    stream.on("error", next);
+    stream.pipe(res);
+  },
+);
+
+/* =====================================================
+  RESTORE PREVIOUS EVIDENCE VERSION (ADMIN / SUPERADMIN)
+===================================================== */
+export const restoreEvidenceVersionById = catchAsyncErrors(
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user || !hasRole(req.user.role, ["admin", "superadmin"]))
+      return next(
+        new ErrorHandler(403, "Only administrators can restore evidence"),
+      );
+
+    const indicator = await Indicator.findById(req.params.id);
+    if (!indicator) return next(new ErrorHandler(404, "Indicator not found"));
+
+    if (indicator.status === STATUS.COMPLETED)
+      return next(
+        new ErrorHandler(403, "Record is sealed and cannot be modified"),
+      );
+
+    const evidenceId = req.params.evidenceId as string;
+    const { restored, replaced } = restoreEvidenceVersion(
+      indicator,
+      evidenceId,
+      req.user._id,
+    );
+
+    indicator.editHistory.push({
+      updatedBy: req.user._id,
+      updatedAt: new Date(),
+      changes: {
+        [`evidence.${restored.slotId ?? restored._id}.current`]: {
+          old: replaced?._id ?? null,
+          new: restored._id,
+        },
+      },
+    });
+    indicator.notes.push({
+      text: `EVIDENCE RESTORED: ${restored.fileName} (revision ${restored.revision ?? 1})`,
+      createdBy: req.user._id,
+      createdAt: new Date(),
+    });
+
+    await indicator.save();
+
+    await logActivity({
+      user: req.user._id,
+      action: "restore_evidence_version",
+      entity: indicator.indicatorTitle,
+      entityId: indicator._id,
+      level: "info",
+      meta: {
+        restored: String(restored._id),
+        replaced: replaced ? String(replaced._id) : null,
+      },
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Previous version restored",
+      indicator,
+    });
+  },
+);
+
+/* =====================================================
+  EVIDENCE ARCHIVE (ZIP + MANIFEST)
+===================================================== */
+// The zip is written straight to the response; once bytes have gone
+// out a failure can only cut the download short
+const sendEvidenceArchive = async (
+  res: Response,
+  next: NextFunction,
+  name: string,
+  indicators: ArchiveIndicator[],
+  options: Parameters<typeof streamEvidenceArchive>[2],
+) => {
+  res.setHeader("Content-Type", "application/zip");
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="${encodeURIComponent(name)}.zip"`,
+  );
+  res.status(200);
+  try {
+    return await streamEvidenceArchive(indicators, res, options);
+  } catch (err: any) {
+    if (!res.headersSent) next(err);
+    else res.destroy(err);
+    return null;
+  }
+};
+
+export const downloadIndicatorEvidenceArchive = catchAsyncErrors(
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) return next(new ErrorHandler(401, "Unauthorized"));
+
+    const indicator = await Indicator.findOne({
+      _id: req.params.id,
+      ...buildIndicatorVisibilityFilter(req.user),
+    })
+      .select("indicatorTitle evidence")
+      .populate("evidence.uploadedBy", "name pjNumber")
+      .lean();
+    if (!indicator) return next(new ErrorHandler(404, "Indicator not found"));
+
+    const includeArchived = req.query.includeArchived === "true";
+    const archive = await sendEvidenceArchive(
+      res,
+      next,
+      `${safeArchiveName(indicator.indicatorTitle)} - evidence`,
+      [indicator],
+      { includeArchived },
+    );
+    if (!archive) return;
+
+    await logActivity({
+      user: req.user._id,
+      action: "download_evidence_archive",
+      entity: indicator.indicatorTitle,
+      entityId: indicator._id,
+      level: "info",
+      meta: { files: archive.files, includeArchived },
+    });
+  },
+);
+
+export const downloadCategoryEvidenceArchive = catchAsyncErrors(
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) return next(new ErrorHandler(401, "Unauthorized"));
+
+    const category = await Category.findById(req.params.categoryId)
+      .select("code title level")
+      .lean();
+    if (!category) return next(new ErrorHandler(404, "Category not found"));
+    if (category.level !== 1 && category.level !== 2)
+      return next(
+        new ErrorHandler(400, "Evidence packs cover level 1 or 2 categories"),
+      );
+
+    const filter: Record<string, any> =
+      category.level === 1
+        ? { category: category._id }
+        : { level2Category: category._id };
+    const cycle = await resolveCycleFilter(req.query.cycle);
+    if (cycle) filter.cycle = cycle;
+
+    const indicators = await Indicator.find(filter)
+      .select("indicatorTitle evidence")
+      .populate("evidence.uploadedBy", "name pjNumber")
+      .sort({ indicatorTitle: 1 })
+      .lean();
+    if (!indicators.length)
+      return next(new ErrorHandler(404, "No indicators under this category"));
+
+    const includeArchived = req.query.includeArchived === "true";
+    const archive = await sendEvidenceArchive(
+      res,
+      next,
+      `${safeArchiveName(category.code)} - evidence`,
+      indicators,
+      { includeArchived, perIndicatorFolders: true },
+    );
+    if (!archive) return;
+
+    await logActivity({
+      user: req.user._id,
+      action: "download_evidence_archive",
+      entity: `${category.code} ${category.title}`,
+      entityId: category._id,
+      level: "info",
+      meta: {
+        indicators: indicators.length,
+        files: archive.files,
+        includeArchived,
+      },
+    });
+  },
+);
+
+/* =====================================================
+  ADD STATUS NOTE (JUSTIFICATION)
+===================================================== */
+export const addIndicatorNote = catchAsyncErrors(
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) return next(new ErrorHandler(401, "Unauthorized"));
+
+    const { id } = req.params;
+    const { text } = req.body;
+
+    if (!text || text.trim().length === 0) {
+      return next(new ErrorHandler(400, "Note text cannot be empty"));
+    }
+
+    const indicator = await Indicator.findById(id);
+    if (!indicator) return next(new ErrorHandler(404, "Indicator not found"));
+
+    // Push to the global notes array
+    indicator.notes.push({
+      text: text.trim(),
+      createdBy: req.user._id,
+      createdAt: new Date(),
+    });
+
+    // A note is not a submission, so the status is left alone
+    await indicator.save();
 
     await logActivity({
       user: req.user._id,
@@ -1184,4 +1984,494 @@ export const addIndicatorNote = catchAsyncErrors(
       note: indicator.notes[indicator.notes.length - 1],
     });
   }
-);
\ No newline at end of file
+);
+
+/* =====================================================
+  GET ALLOWED STATUS TRANSITIONS
+===================================================== */
+export const getIndicatorTransitions = catchAsyncErrors(
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) return next(new ErrorHandler(401, "Unauthorized"));
+
+    const indicator = await Indicator.findOne({
+      _id: req.params.id,
+      ...buildIndicatorVisibilityFilter(req.user),
+    })
+      .select(
+        "status statusHistory category level2Category reviewStages reviewRound",
+      )
+      .populate("statusHistory.changedBy reviewStages.reviewer", "name")
+      .lean();
+    if (!indicator) return next(new ErrorHandler(404, "Indicator not found"));
+
+    const chain = await resolveReviewChain(indicator);
+
+    res.status(200).json({
+      success: true,
+      status: indicator.status,
+      transitions: getAllowedTransitions(indicator.status, req.user.role),
+      history: indicator.statusHistory ?? [],
+      review: {
+        chain,
+        round: indicator.reviewRound ?? 0,
+        currentStage: getCurrentReviewStage(
+          {
+            reviewStages: indicator.reviewStages ?? [],
+            reviewRound: indicator.reviewRound ?? 0,
+          },
+          chain,
+        ),
+        stages: indicator.reviewStages ?? [],
+      },
+    });
+  }
+);
+
+/* =====================================================
+  GROUP MEMBER CONTRIBUTIONS
+===================================================== */
+export const getIndicatorMembers = catchAsyncErrors(
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) return next(new ErrorHandler(401, "Unauthorized"));
+
+    const indicator = await Indicator.findOne({
+      _id: req.params.id,
+      ...buildIndicatorVisibilityFilter(req.user),
+    })
+      .select(
+        "assignedToType assignedTo assignedGroup groupRollup memberContributions evidence",
+      )
+      .populate("memberContributions.user", "name email pjNumber")
+      .lean();
+    if (!indicator) return next(new ErrorHandler(404, "Indicator not found"));
+
+    if (indicator.assignedToType !== "group")
+      return next(
+        new ErrorHandler(400, "Only group indicators track member contributions"),
+      );
+
+    const members = indicator.memberContributions.map((c: any) => {
+      const memberId = String(c.user?._id ?? c.user);
+      return {
+        ...c,
+        evidence: indicator.evidence
+          .filter((ev) => String(ev.uploadedBy) === memberId)
+          .map(({ _id, fileName, status, isArchived, uploadedAt }) => ({
+            _id,
+            fileName,
+            status,
+            isArchived,
+            uploadedAt,
+          })),
+      };
+    });
+
+    res.status(200).json({
+      success: true,
+      groupRollup: indicator.groupRollup,
+      rollup: computeGroupRollup(indicator),
+      members,
+    });
+  },
+);
+
+export const updateIndicatorMember = catchAsyncErrors(
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user || !hasRole(req.user.role, ["admin", "superadmin"]))
+      return next(new ErrorHandler(403, "Forbidden"));
+
+    const { id, userId } = req.params;
+    const { completed, score, weight } = req.body;
+
+    if (
+      score !== undefined &&
+      score !== null &&
+      (typeof score !== "number" || score < 0 || score > 100)
+    )
+      return next(new ErrorHandler(400, "Score must be between 0 and 100"));
+    if (weight !== undefined && (typeof weight !== "number" || weight < 0))
+      return next(new ErrorHandler(400, "Weight must be a positive number"));
+
+    const indicator = await Indicator.findById(id);
+    if (!indicator) return next(new ErrorHandler(404, "Indicator not found"));
+
+    if (indicator.status === STATUS.COMPLETED)
+      return next(
+        new ErrorHandler(403, "Record is sealed and cannot be modified"),
+      );
+
+    const contribution = findContribution(indicator, userId);
+    if (!contribution)
+      return next(new ErrorHandler(404, "User is not a member of this group"));
+
+    const changes: Record<string, { old: any; new: any }> = {};
+    const now = new Date();
+
+    if (typeof completed === "boolean" && completed !== contribution.completed) {
+      changes[`members.${userId}.completed`] = {
+        old: contribution.completed,
+        new: completed,
+      };
+      contribution.completed = completed;
+      contribution.completedAt = completed ? now : null;
+    }
+    if (score !== undefined && score !== contribution.score) {
+      changes[`members.${userId}.score`] = {
+        old: contribution.score ?? null,
+        new: score,
+      };
+      contribution.score = score;
+      contribution.scoredBy = req.user._id;
+      contribution.scoredAt = now;
+    }
+    if (weight !== undefined && weight !== contribution.weight) {
+      changes[`members.${userId}.weight`] = {
+        old: contribution.weight,
+        new: weight,
+      };
+      contribution.weight = weight;
+    }
+
+    // Indicator progress follows the group rollup
+    const rollup = computeGroupRollup(indicator);
+    if (Object.keys(changes).length > 0) {
+      if (indicator.progress !== rollup.progress)
+        changes.progress = { old: indicator.progress, new: rollup.progress };
+      indicator.progress = rollup.progress;
+      indicator.editHistory.push({
+        updatedBy: req.user._id,
+        updatedAt: now,
+        changes,
+      });
+      await indicator.save();
+      queueScoreRefresh(indicator);
+    }
+
+    res.status(200).json({ success: true, rollup, contribution, indicator });
+  },
+);
+
+/* =====================================================
+  REPORTING PERIODS
+===================================================== */
+export const getIndicatorPeriods = catchAsyncErrors(
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) return next(new ErrorHandler(401, "Unauthorized"));
+
+    const indicator = await Indicator.findOne({
+      _id: req.params.id,
+      ...buildIndicatorVisibilityFilter(req.user),
+    })
+      .select("indicatorTitle reportingFrequency reportingPeriods evidence")
+      .populate("reportingPeriods.submittedBy", "name pjNumber")
+      .populate("reportingPeriods.reviewedBy", "name pjNumber")
+      .lean();
+    if (!indicator) return next(new ErrorHandler(404, "Indicator not found"));
+
+    const periods = indicator.reportingPeriods.map((period) => ({
+      ...period,
+      evidence: periodEvidence(indicator, period._id).map(
+        ({ _id, fileName, description, uploadedAt, scanStatus }) => ({
+          _id,
+          fileName,
+          description,
+          uploadedAt,
+          scanStatus,
+        }),
+      ),
+    }));
+
+    res.status(200).json({
+      success: true,
+      reportingFrequency: indicator.reportingFrequency,
+      periods,
+    });
+  },
+);
+
+export const submitIndicatorPeriod = catchAsyncErrors(
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) return next(new ErrorHandler(401, "Unauthorized"));
+
+    const indicator = await Indicator.findOne({
+      _id: req.params.id,
+      ...buildIndicatorVisibilityFilter(req.user),
+    });
+    if (!indicator) return next(new ErrorHandler(404, "Indicator not found"));
+
+    const period = findReportingPeriod(indicator, req.params.periodId);
+    assertPeriodSubmittable(period);
+    await assertCycleOpen(indicator.cycle);
+
+    // Files already attached to the period may be resubmitted as they are
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+    const staged = await findAttachableUploads(
+      indicator._id,
+      req.user._id,
+      req.body.uploadIds,
+    );
+
+    const rawDescs = req.body.descriptions;
+    const descriptions: string[] = Array.isArray(rawDescs)
+      ? rawDescs
+      : [rawDescs || ""];
+    const description = (i: number) =>
+      descriptions[i] || `${period.label} report`;
+
+    const evidenceItems: IEvidence[] = await Promise.all(
+      files.map(async (file, i) => {
+        const upload = await storeEvidenceFile(indicator._id, file);
+        return {
+          ...buildEvidence(
+            upload,
+            file.originalname,
+            file.size,
+            file.mimetype,
+            req.user!._id,
+            description(i),
+          ),
+          period: period._id,
+        };
+      }),
+    );
+    const stagedItems = staged.map((session) => ({
+      ...buildEvidence(
+        storedObjectOfUpload(session),
+        session.fileName,
+        session.totalSize,
+        session.mimeType,
+        req.user!._id,
+        session.description || `${period.label} report`,
+      ),
+      period: period._id,
+    }));
+
+    indicator.evidence.push(...evidenceItems, ...stagedItems);
+    const changes = submitReportingPeriod(indicator, period, {
+      by: req.user._id,
+      note: typeof req.body.note === "string" ? req.body.note.trim() : "",
+    });
+    indicator.editHistory.push({
+      updatedBy: req.user._id,
+      updatedAt: new Date(),
+      changes,
+    });
+    await indicator.save();
+    await markUploadsAttached(
+      staged.map((session, j) => ({
+        session,
+        evidenceId: stagedItems[j]._id,
+      })),
+    );
+    queueEvidenceScans(indicator._id, [
+      ...evidenceItems.map((evidence, i) => ({
+        evidence,
+        source: files[i].buffer,
+      })),
+      ...stagedItems.map((evidence) => ({ evidence })),
+    ]);
+
+    await logActivity({
+      user: req.user._id,
+      action: "submit_period",
+      entity: indicator.indicatorTitle,
+      entityId: indicator._id,
+      level: "info",
+      meta: { period: period.key, files: evidenceItems.length + staged.length },
+    });
+    emitIndicatorUpdateToAdmins({
+      indicatorId: indicator._id.toString(),
+      status: indicator.status,
+    });
+
+    res.status(200).json({ success: true, period, indicator });
+  },
+);
+
+export const reviewIndicatorPeriod = catchAsyncErrors(
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user || !hasRole(req.user.role, ["admin", "superadmin"]))
+      return next(new ErrorHandler(403, "Forbidden"));
+
+    const { error, value } = reviewPeriodSchema.validate(req.body, {
+      stripUnknown: true,
+    });
+    if (error) return next(new ErrorHandler(400, error.message));
+
+    const indicator = await Indicator.findById(req.params.id);
+    if (!indicator) return next(new ErrorHandler(404, "Indicator not found"));
+
+    const period = findReportingPeriod(indicator, req.params.periodId);
+    const { changes, notifications } = reviewReportingPeriod(
+      indicator,
+      period,
+      { by: req.user._id, ...value },
+    );
+    indicator.editHistory.push({
+      updatedBy: req.user._id,
+      updatedAt: new Date(),
+      changes,
+    });
+    await indicator.save();
+    await Promise.all(notifications.map(notifyUser));
+
+    await logActivity({
+      user: req.user._id,
+      action: `period_${value.decision}`,
+      entity: indicator.indicatorTitle,
+      entityId: indicator._id,
+      level: value.decision === "approved" ? "success" : "warn",
+      meta: { period: period.key, score: period.score },
+    });
+    const payload = {
+      indicatorId: indicator._id.toString(),
+      status: indicator.status,
+    };
+    if (indicator.assignedTo)
+      emitIndicatorUpdateToUser(indicator.assignedTo.toString(), payload);
+    indicator.assignedGroup?.forEach((id) =>
+      emitIndicatorUpdateToUser(id.toString(), payload),
+    );
+    emitIndicatorUpdateToAdmins(payload);
+
+    res.status(200).json({ success: true, period, indicator });
+  },
+);
+
+/* =====================================================
+  BULK IMPORT INDICATORS (CSV / XLSX)
+===================================================== */
+export const importIndicators = catchAsyncErrors(
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user || !hasRole(req.user.role, ["superadmin"]))
+      return next(new ErrorHandler(403, "Forbidden"));
+
+    const file = req.file;
+    if (!file) return next(new ErrorHandler(400, "No spreadsheet uploaded"));
+
+    const dryRun = String(req.query.dryRun ?? req.body.dryRun) === "true";
+
+    const rows = await readSpreadsheetRows(
+      file.buffer,
+      file.originalname,
+      file.mimetype,
+    );
+    const { prepared, errors } = await validateImportRows(
+      rows,
+      (req.query.cycleId ?? req.body.cycleId) as string | undefined,
+    );
+
+    const report = {
+      totalRows: rows.length,
+      validRows: prepared.length,
+      invalidRows: errors.length,
+      errors,
+    };
+
+    if (dryRun) {
+      return res.status(200).json({
+        success: errors.length === 0,
+        dryRun: true,
+        ...report,
+        preview: prepared.map((item) => ({
+          row: item.row,
+          indicatorCode: item.indicatorCode,
+          indicatorTitle: item.indicatorTitle,
+          assigneePjNumbers: item.assigneePjNumbers,
+          assignedToType: item.data.assignedToType,
+          startDate: item.data.startDate,
+          dueDate: item.data.dueDate,
+        })),
+      });
+    }
+
+    // Nothing is created unless every row is valid
+    if (errors.length)
+      return res.status(422).json({
+        success: false,
+        dryRun: false,
+        message: "Import aborted: fix the listed rows and try again",
+        ...report,
+      });
+
+    const created = await createImportedIndicators(prepared, req.user._id);
+    queueScoreRefresh(...created);
+
+    await logActivity({
+      user: req.user._id,
+      action: "import_indicators",
+      entity: file.originalname,
+      level: "success",
+      meta: { created: created.length },
+    });
+
+    // One notification and email per assignee, however many rows they appear in
+    const byAssignee = new Map<string, typeof created>();
+    created.forEach((indicator) => {
+      const targets = new Set<string>();
+      if (indicator.assignedTo) targets.add(indicator.assignedTo.toString());
+      indicator.assignedGroup?.forEach((id) => targets.add(id.toString()));
+      targets.forEach((userId) => {
+        if (!byAssignee.has(userId)) byAssignee.set(userId, []);
+        byAssignee.get(userId)!.push(indicator);
+      });
+    });
+
+    const adminUser = await User.findById(req.user._id).select("name");
+    const assignedBy = adminUser?.name ?? "Administrator";
+
+    for (const [userId, indicators] of byAssignee) {
+      const earliestDue = indicators.reduce(
+        (min, i) => (i.dueDate < min ? i.dueDate : min),
+        indicators[0].dueDate,
+      );
+      const summary =
+        indicators.length > 1
+          ? `${indicators.length} new indicators have been assigned to you`
+          : indicators[0].indicatorTitle;
+
+      await notifyUser({
+        userId: new Types.ObjectId(userId),
+        submittedBy: req.user._id,
+        title:
+          indicators.length > 1
+            ? "New Indicators Assigned"
+            : "New Indicator Assigned",
+        message: summary,
+        type: "assignment",
+        metadata: { indicatorIds: indicators.map((i) => i._id) },
+      });
+
+      const user = await User.findById(userId).select("email");
+      if (user?.email) {
+        const mail = indicatorCreatedTemplate({
+          indicatorTitle: summary,
+          assignedBy,
+          dueDate: earliestDue,
+          appUrl:
+            indicators.length > 1
+              ? `${env.FRONTEND_URL}/user/dashboard`
+              : `${env.FRONTEND_URL}/user/indicators/${indicators[0]._id}`,
+        });
+        await sendMail({ to: user.email, ...mail }).catch((err) =>
+          console.error(`[IMPORT] Email to ${user.email} failed:`, err.message),
+        );
+      }
+    }
+
+    created.forEach((indicator) =>
+      emitIndicatorUpdateToAdmins({
+        indicatorId: indicator._id.toString(),
+        status: indicator.status,
+      }),
+    );
+
+    res.status(201).json({
+      success: true,
+      dryRun: false,
+      ...report,
+      created: created.length,
+      indicators: created.map((i) => i._id),
+    });
+  },
+);
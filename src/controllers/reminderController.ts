@@ -0,0 +1,96 @@
+import { Request, Response, NextFunction } from "express";
+import Joi from "joi";
+import { Types } from "mongoose";
+
+import { ReminderSchedule } from "../models/ReminderSchedule";
+import { ReminderLog } from "../models/ReminderLog";
+import { Indicator } from "../models/Indicator";
+import { catchAsyncErrors } from "../middleware/catchAsyncErrors";
+import ErrorHandler from "../middleware/errorMiddlewares";
+import { logActivity } from "../utils/activityLogger";
+import { getActiveReminderSchedule } from "../jobs/reminderCampaign.job";
+
+/* =====================================================
+  JOI SCHEMA
+===================================================== */
+const reminderScheduleSchema = Joi.object({
+  name: Joi.string().trim().default("Default"),
+  steps: Joi.array()
+    .items(
+      Joi.object({
+        label: Joi.string().trim().required(),
+        offsetDays: Joi.number().integer().min(-365).max(365).required(),
+      }),
+    )
+    .min(1)
+    .unique("offsetDays")
+    .required(),
+  repeatEveryDays: Joi.number().integer().min(0).max(90).default(7),
+  escalateAfterMisses: Joi.number().integer().min(1).max(50).default(3),
+});
+
+/* =====================================================
+  GET ACTIVE REMINDER SCHEDULE
+===================================================== */
+export const getReminderSchedule = catchAsyncErrors(
+  async (_req: Request, res: Response) => {
+    const schedule = await getActiveReminderSchedule();
+    res.status(200).json({ success: true, schedule });
+  },
+);
+
+/* =====================================================
+  UPDATE REMINDER SCHEDULE (SUPERADMIN)
+===================================================== */
+export const updateReminderSchedule = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) return next(new ErrorHandler(401, "Unauthorized"));
+
+    const { error, value } = reminderScheduleSchema.validate(req.body, {
+      stripUnknown: true,
+    });
+    if (error) return next(new ErrorHandler(400, error.message));
+
+    // A single schedule is active at any time
+    await ReminderSchedule.updateMany(
+      { name: { $ne: value.name } },
+      { isActive: false },
+    );
+    const schedule = await ReminderSchedule.findOneAndUpdate(
+      { name: value.name },
+      { ...value, isActive: true, updatedBy: req.user._id },
+      { upsert: true, new: true, runValidators: true },
+    );
+
+    await logActivity({
+      user: req.user._id,
+      action: "update_reminder_schedule",
+      entity: value.name,
+      level: "info",
+      meta: { steps: value.steps.length },
+    });
+
+    res.status(200).json({ success: true, schedule });
+  },
+);
+
+/* =====================================================
+  GET REMINDER LOG FOR AN INDICATOR
+===================================================== */
+export const getIndicatorReminderLog = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { id } = req.params;
+    if (!Types.ObjectId.isValid(id))
+      return next(new ErrorHandler(400, "Invalid indicator id"));
+
+    const exists = await Indicator.exists({ _id: id });
+    if (!exists) return next(new ErrorHandler(404, "Indicator not found"));
+
+    const logs = await ReminderLog.find({ indicator: id })
+      .populate("recipient", "name email pjNumber")
+      .sort({ sentAt: -1 })
+      .lean();
+
+    res.status(200).json({ success: true, count: logs.length, logs });
+  },
+);
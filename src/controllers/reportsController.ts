@@ -3,27 +3,37 @@ import puppeteer, { Browser } from "puppeteer";
 import { Indicator } from "../models/Indicator";
 import { Types } from "mongoose";
 import { UserDocument } from "../models/User";
+import { resolveCycleFilter } from "../services/cycle.service";
+import {
+  buildIndicatorVisibilityFilter,
+  isIndicatorAdmin,
+} from "../services/indicatorQuery.service";
+import { describeMeasurement } from "../services/measurement.service";
+import { buildPeriodTrend } from "../services/reportingPeriod.service";
+import {
+  ReportIndicator,
+  ReportIndicatorRefs,
+  buildReportCsv,
+  buildReportXlsx,
+  toReportRows,
+} from "../services/reportExport.service";
+import { contentDisposition } from "../utils/httpRange";
 
 /* ============================================================
     QUERY BUILDER
 ============================================================ */
-const buildIndicatorQuery = (req: Request) => {
+const buildIndicatorQuery = async (req: Request) => {
   const user = req.user as UserDocument;
   if (!user) throw new Error("Unauthorized");
 
-  const query: Record<string, any> = {};
-  const userRole = user.role.toLowerCase();
-  const isAdmin = userRole === "admin" || userRole === "superadmin";
+  const query: Record<string, any> = buildIndicatorVisibilityFilter(user);
+  const isAdmin = isIndicatorAdmin(user.role);
 
   const type = (req.query.type as string | undefined)?.toLowerCase().trim();
   const rawUserId = req.query.userId as string;
 
-  if (!isAdmin) {
-    query.$or = [
-      { assignedTo: user._id },
-      { assignedGroup: { $in: [user._id] } },
-    ];
-  } else if (
+  if (
+    isAdmin &&
     rawUserId &&
     rawUserId !== "undefined" &&
     Types.ObjectId.isValid(rawUserId)
@@ -70,9 +80,56 @@ const buildIndicatorQuery = (req: Request) => {
       query.assignedToType = "group";
       break;
   }
+
+  const cycle = await resolveCycleFilter(req.query.cycle);
+  if (cycle) query.cycle = cycle;
+
   return query;
 };
 
+/* ============================================================
+    PERIOD TREND
+============================================================ */
+type PeriodTrend = ReturnType<typeof buildPeriodTrend>;
+
+// Quarter-over-quarter by default; monthly reporters ask for it
+const trendFrequency = (req: Request) =>
+  req.query.frequency === "monthly" ? "monthly" : "quarterly";
+
+const formatTrendForHtml = (trend: PeriodTrend): string => {
+  if (!trend.length) return "";
+  const rows = trend.map(
+    (p) => `
+      <tr>
+        <td style="font-weight: bold; color: #1a3a32;">${p.label}</td>
+        <td>${p.submitted} / ${p.expected}</td>
+        <td>${p.approved}</td>
+        <td>${p.overdue}</td>
+        <td style="font-weight: bold;">${
+          p.averageScore === null ? "—" : `${p.averageScore}%`
+        }</td>
+        <td>${
+          p.change === null ? "—" : `${p.change > 0 ? "+" : ""}${p.change}`
+        }</td>
+      </tr>
+    `,
+  );
+  return `
+  <table>
+    <thead>
+      <tr>
+        <th style="width: 20%;">Reporting Period</th>
+        <th style="width: 16%;">Reports Received</th>
+        <th style="width: 16%;">Approved</th>
+        <th style="width: 16%;">Overdue</th>
+        <th style="width: 16%;">Avg. Score</th>
+        <th style="width: 16%;">Change</th>
+      </tr>
+    </thead>
+    <tbody>${rows.join("")}</tbody>
+  </table>`;
+};
+
 /* ============================================================
     HTML TEMPLATE (JUDICIAL DESIGN)
 ============================================================ */
@@ -80,6 +137,7 @@ const formatIndicatorsForHtml = (
   indicators: any[],
   title: string,
   user: UserDocument,
+  trend: PeriodTrend = [],
 ): string => {
   const dateLabel = new Date().toLocaleString("en-KE");
   // Official Placeholder for Judiciary Logo (Use a public URL to your hosted logo)
@@ -105,6 +163,7 @@ const formatIndicatorsForHtml = (
         }</td>
         <td>${i.category?.title ?? "General"}</td>
         <td>${responsible}</td>
+        <td>${i.measurement ? describeMeasurement(i.measurement) : "—"}</td>
         <td><span class="status-badge">${(
           i.status || "N/A"
         ).toUpperCase()}</span></td>
@@ -203,22 +262,24 @@ const formatIndicatorsForHtml = (
   <table>
     <thead>
       <tr>
-        <th style="width: 25%;">Indicator Description</th>
-        <th style="width: 15%;">Unit/Category</th>
-        <th style="width: 25%;">Responsible Officer</th>
-        <th style="width: 14%;">Status</th>
-        <th style="width: 10%;">Score (%)</th>
-        <th style="width: 13%;">Deadline</th>
+        <th style="width: 21%;">Indicator Description</th>
+        <th style="width: 12%;">Unit/Category</th>
+        <th style="width: 20%;">Responsible Officer</th>
+        <th style="width: 17%;">Target / Actual</th>
+        <th style="width: 11%;">Status</th>
+        <th style="width: 8%;">Score (%)</th>
+        <th style="width: 11%;">Deadline</th>
       </tr>
     </thead>
     <tbody>
       ${
         rows.length
           ? rows.join("")
-          : `<tr><td colspan="6" class="no-data">No formal records found matching the criteria in the Judicial Registry.</td></tr>`
+          : `<tr><td colspan="7" class="no-data">No formal records found matching the criteria in the Judicial Registry.</td></tr>`
       }
     </tbody>
   </table>
+${formatTrendForHtml(trend)}
 
   <div class="footer">
     This is an officially generated report from the Judiciary Performance Management System. &copy; ${new Date().getFullYear()} Republic of Kenya.
@@ -253,7 +314,7 @@ export const getReportPdf = async (req: Request, res: Response) => {
   if (!req.user) return res.sendStatus(401);
   let page;
   try {
-    const query = buildIndicatorQuery(req);
+    const query = await buildIndicatorQuery(req);
     const indicators = await Indicator.find(query)
       .populate("category", "title")
       .populate("assignedTo", "name pjNumber")
@@ -264,6 +325,7 @@ export const getReportPdf = async (req: Request, res: Response) => {
       indicators,
       `${req.query.type?.toString().toUpperCase() || "GENERAL"} AUDIT REPORT`,
       req.user as UserDocument,
+      buildPeriodTrend(indicators, trendFrequency(req)),
     );
     const browser = await getBrowser();
     page = await browser.newPage();
@@ -285,7 +347,7 @@ export const getReportPdf = async (req: Request, res: Response) => {
 export const getReportHtml = async (req: Request, res: Response) => {
   if (!req.user) return res.sendStatus(401);
   try {
-    const query = buildIndicatorQuery(req);
+    const query = await buildIndicatorQuery(req);
     const indicators = await Indicator.find(query)
       .populate("category", "title")
       .populate("assignedTo", "name pjNumber")
@@ -295,6 +357,7 @@ export const getReportHtml = async (req: Request, res: Response) => {
       indicators,
       `${req.query.type || "GENERAL"} PREVIEW`,
       req.user as UserDocument,
+      buildPeriodTrend(indicators, trendFrequency(req)),
     );
     res.status(200).send(html);
   } catch (err: any) {
@@ -388,3 +451,143 @@ export const getReportHtmlById = async (req: Request, res: Response) => {
     res.status(500).json({ success: false, message: err.message });
   }
 };
+
+/**
+ * PERIOD TREND (JSON)
+ * Same filters as the reports above; one row per quarter or month.
+ */
+export const getPeriodTrend = async (req: Request, res: Response) => {
+  if (!req.user) return res.sendStatus(401);
+  try {
+    const query = await buildIndicatorQuery(req);
+    const frequency = trendFrequency(req);
+    const indicators = await Indicator.find({
+      ...query,
+      reportingFrequency: frequency,
+    })
+      .select("reportingPeriods")
+      .lean();
+    res.status(200).json({
+      success: true,
+      frequency,
+      indicators: indicators.length,
+      periods: buildPeriodTrend(indicators, frequency),
+    });
+  } catch (err: any) {
+    res.status(500).json({ success: false, message: err.message });
+  }
+};
+
+/* ============================================================
+    SPREADSHEET EXPORTS (CSV / XLSX)
+============================================================ */
+type ExportFormat = "csv" | "xlsx";
+
+const findExportIndicators = (query: Record<string, any>) =>
+  Indicator.find(query)
+    .populate<ReportIndicatorRefs>([
+      { path: "category", select: "title code" },
+      { path: "level2Category", select: "title code" },
+      { path: "assignedTo", select: "name pjNumber" },
+      { path: "assignedGroup", select: "name pjNumber" },
+      { path: "reviewedBy", select: "name pjNumber" },
+    ])
+    .lean();
+
+const sendExport = async (
+  res: Response,
+  format: ExportFormat,
+  indicators: ReportIndicator[],
+  {
+    title,
+    fileName,
+    user,
+  }: { title: string; fileName: string; user: UserDocument },
+) => {
+  const rows = toReportRows(indicators);
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  if (format === "csv") {
+    res
+      .status(200)
+      .setHeader("Content-Type", "text/csv; charset=utf-8")
+      .setHeader(
+        "Content-Disposition",
+        contentDisposition("attachment", `${fileName}-${stamp}.csv`),
+      )
+      .send(buildReportCsv(rows));
+    return;
+  }
+
+  const xlsx = await buildReportXlsx(rows, { title, generatedBy: user.name });
+  res
+    .status(200)
+    .setHeader(
+      "Content-Type",
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    )
+    .setHeader(
+      "Content-Disposition",
+      contentDisposition("attachment", `${fileName}-${stamp}.xlsx`),
+    )
+    .send(xlsx);
+};
+
+const exportReport =
+  (format: ExportFormat) => async (req: Request, res: Response) => {
+    if (!req.user) return res.sendStatus(401);
+    try {
+      const query = await buildIndicatorQuery(req);
+      const indicators = await findExportIndicators(query);
+      const type = req.query.type?.toString().toLowerCase() || "general";
+      await sendExport(res, format, indicators, {
+        title: `${type.toUpperCase()} AUDIT REPORT`,
+        fileName: `indicator-report-${type}`,
+        user: req.user as UserDocument,
+      });
+    } catch (err: any) {
+      res.status(500).json({ success: false, message: err.message });
+    }
+  };
+
+// Same access rule as the PDF and HTML reports by ID
+const exportReportById =
+  (format: ExportFormat) => async (req: Request, res: Response) => {
+    if (!req.user)
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    const id = req.params.id as string;
+    try {
+      const user = req.user as UserDocument;
+      if (!Types.ObjectId.isValid(id))
+        return res
+          .status(404)
+          .json({ success: false, message: "Record not found" });
+
+      const query: any = { _id: new Types.ObjectId(id) };
+      if (user.role !== "Admin" && user.role !== "SuperAdmin") {
+        query.$or = [
+          { assignedTo: user._id },
+          { assignedGroup: { $in: [user._id] } },
+        ];
+      }
+
+      const indicators = await findExportIndicators(query);
+      if (!indicators.length)
+        return res
+          .status(404)
+          .json({ success: false, message: "Record not found" });
+
+      await sendExport(res, format, indicators, {
+        title: "Individual Record Audit",
+        fileName: `indicator-${id}`,
+        user,
+      });
+    } catch (err: any) {
+      res.status(500).json({ success: false, message: err.message });
+    }
+  };
+
+export const getReportCsv = exportReport("csv");
+export const getReportXlsx = exportReport("xlsx");
+export const getReportCsvById = exportReportById("csv");
+export const getReportXlsxById = exportReportById("xlsx");
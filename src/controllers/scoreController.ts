@@ -0,0 +1,25 @@
+import { Request, Response, NextFunction } from "express";
+
+import { catchAsyncErrors } from "../middleware/catchAsyncErrors";
+import ErrorHandler from "../middleware/errorMiddlewares";
+import { resolveCycleFilter } from "../services/cycle.service";
+import { isIndicatorAdmin } from "../services/indicatorQuery.service";
+import { buildScoreSummary } from "../services/scoring.service";
+
+/* =====================================================
+  SCORE SUMMARY
+  Administrators see the whole tree, every user and every
+  station; everyone else sees their own scores only.
+===================================================== */
+export const getScoreSummary = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) return next(new ErrorHandler(401, "Unauthorized"));
+
+    const summary = await buildScoreSummary({
+      cycle: await resolveCycleFilter(req.query.cycle),
+      forUser: isIndicatorAdmin(req.user.role) ? undefined : req.user._id,
+    });
+
+    res.status(200).json({ success: true, ...summary });
+  },
+);
@@ -0,0 +1,52 @@
+import { Request, Response, NextFunction } from "express";
+import Joi from "joi";
+
+import { catchAsyncErrors } from "../middleware/catchAsyncErrors";
+import ErrorHandler from "../middleware/errorMiddlewares";
+import { SEARCH_ENTITY_TYPES, searchAll } from "../services/search.service";
+
+/* =====================================================
+  JOI SCHEMA
+===================================================== */
+const searchQuerySchema = Joi.object({
+  q: Joi.string().trim().min(2).max(100).required(),
+  limit: Joi.number().integer().min(1).max(50).default(10),
+  types: Joi.array()
+    .items(Joi.string().valid(...SEARCH_ENTITY_TYPES))
+    .single()
+    .default([...SEARCH_ENTITY_TYPES]),
+});
+
+/* =====================================================
+  GLOBAL SEARCH
+===================================================== */
+export const search = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) return next(new ErrorHandler(401, "Unauthorized"));
+
+    const query = { ...req.query };
+    if (typeof query.types === "string") query.types = query.types.split(",");
+
+    const { error, value } = searchQuerySchema.validate(query, {
+      stripUnknown: true,
+    });
+    if (error) return next(new ErrorHandler(400, error.message));
+
+    const results = await searchAll(value.q, req.user, {
+      limit: value.limit,
+      types: value.types,
+    });
+
+    const counts = Object.fromEntries(
+      Object.entries(results).map(([type, hits]) => [type, hits.length]),
+    );
+
+    res.status(200).json({
+      success: true,
+      query: value.q,
+      total: Object.values(counts).reduce((sum, n) => sum + n, 0),
+      counts,
+      results,
+    });
+  },
+);
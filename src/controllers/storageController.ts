@@ -0,0 +1,39 @@
+import { Request, Response, NextFunction } from "express";
+import mime from "mime-types";
+
+import { catchAsyncErrors } from "../middleware/catchAsyncErrors";
+import ErrorHandler from "../middleware/errorMiddlewares";
+import { getStorageDriver, verifyLocalSignature } from "../services/storage";
+
+/* =====================================================
+  SERVE LOCALLY STORED FILE (SIGNED URL)
+  The signature stands in for authentication, the same
+  way a Cloudinary or S3 signed URL does.
+===================================================== */
+export const serveLocalFile = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const key = String(req.query.key ?? "");
+    const expires = Number(req.query.expires);
+    const signature = String(req.query.signature ?? "");
+
+    if (!key || !verifyLocalSignature(key, expires, signature))
+      return next(new ErrorHandler(403, "Link is invalid or has expired"));
+
+    const { stream, contentLength } = await getStorageDriver("local").getStream(
+      {
+        key,
+        resourceType: "raw",
+        format: "",
+      },
+    );
+
+    res.setHeader(
+      "Content-Type",
+      mime.lookup(key) || "application/octet-stream",
+    );
+    if (contentLength) res.setHeader("Content-Length", contentLength);
+    res.setHeader("Content-Disposition", "inline");
+
+    stream.pipe(res);
+  },
+);
@@ -0,0 +1,166 @@
+import { Request, Response, NextFunction } from "express";
+import Joi from "joi";
+
+import { catchAsyncErrors } from "../middleware/catchAsyncErrors";
+import ErrorHandler from "../middleware/errorMiddlewares";
+import { assertCycleOpen, Indicator } from "../models/Indicator";
+import {
+  CHUNKED_UPLOAD_MAX_SIZE,
+  abortUploadSession,
+  completeUploadSession,
+  describeUploadSession,
+  findUploadSession,
+  initUploadSession,
+  writeUploadChunk,
+} from "../services/chunkedUpload.service";
+import { buildIndicatorVisibilityFilter } from "../services/indicatorQuery.service";
+
+/* =====================================================
+  JOI SCHEMAS
+===================================================== */
+const initUploadSchema = Joi.object({
+  fileName: Joi.string().trim().max(255).required(),
+  mimeType: Joi.string().trim().required(),
+  totalSize: Joi.number()
+    .integer()
+    .min(1)
+    .max(CHUNKED_UPLOAD_MAX_SIZE)
+    .required(),
+  chunkSize: Joi.number().integer().min(1),
+  description: Joi.string().trim().allow("").max(1000),
+});
+
+const completeUploadSchema = Joi.object({
+  sha256: Joi.string().hex().length(64),
+});
+
+/* =====================================================
+  START A RESUMABLE UPLOAD
+===================================================== */
+export const initUpload = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) return next(new ErrorHandler(401, "Unauthorized"));
+
+    const { error, value } = initUploadSchema.validate(req.body, {
+      stripUnknown: true,
+    });
+    if (error) return next(new ErrorHandler(400, error.message));
+
+    const indicator = await Indicator.findOne({
+      _id: req.params.id,
+      ...buildIndicatorVisibilityFilter(req.user),
+    }).select("_id cycle");
+    if (!indicator) return next(new ErrorHandler(404, "Indicator not found"));
+    await assertCycleOpen(indicator.cycle);
+
+    const session = await initUploadSession({
+      ...value,
+      indicatorId: indicator._id,
+      uploadedBy: req.user._id,
+    });
+
+    res.status(201).json({
+      success: true,
+      upload: describeUploadSession(session),
+    });
+  },
+);
+
+/* =====================================================
+  UPLOAD STATUS (RESUME AFTER A DROPPED CONNECTION)
+===================================================== */
+export const getUploadStatus = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) return next(new ErrorHandler(401, "Unauthorized"));
+
+    const session = await findUploadSession(
+      req.params.uploadId as string,
+      req.params.id as string,
+      req.user._id,
+    );
+
+    res.status(200).json({
+      success: true,
+      upload: describeUploadSession(session),
+    });
+  },
+);
+
+/* =====================================================
+  UPLOAD ONE CHUNK (RAW BODY)
+===================================================== */
+export const uploadChunk = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) return next(new ErrorHandler(401, "Unauthorized"));
+
+    // The body is streamed straight to disk, never parsed
+    if (!req.is("application/octet-stream"))
+      return next(
+        new ErrorHandler(
+          415,
+          "Chunks must be sent as application/octet-stream",
+        ),
+      );
+
+    const session = await findUploadSession(
+      req.params.uploadId as string,
+      req.params.id as string,
+      req.user._id,
+    );
+    const updated = await writeUploadChunk(
+      session,
+      Number(req.params.index),
+      req,
+    );
+
+    res.status(200).json({
+      success: true,
+      upload: describeUploadSession(updated),
+    });
+  },
+);
+
+/* =====================================================
+  COMPLETE UPLOAD
+===================================================== */
+export const completeUpload = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) return next(new ErrorHandler(401, "Unauthorized"));
+
+    const { error, value } = completeUploadSchema.validate(req.body ?? {}, {
+      stripUnknown: true,
+    });
+    if (error) return next(new ErrorHandler(400, error.message));
+
+    const session = await findUploadSession(
+      req.params.uploadId as string,
+      req.params.id as string,
+      req.user._id,
+    );
+    const completed = await completeUploadSession(session, value.sha256);
+
+    res.status(200).json({
+      success: true,
+      message: "Upload complete; attach it by passing uploadIds on submission",
+      upload: describeUploadSession(completed),
+    });
+  },
+);
+
+/* =====================================================
+  ABORT UPLOAD
+===================================================== */
+export const abortUpload = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) return next(new ErrorHandler(401, "Unauthorized"));
+
+    const session = await findUploadSession(
+      req.params.uploadId as string,
+      req.params.id as string,
+      req.user._id,
+    );
+    await abortUploadSession(session);
+
+    res.status(200).json({ success: true, message: "Upload aborted" });
+  },
+);
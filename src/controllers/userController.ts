@@ -16,7 +16,7 @@ import { logActivity } from "../utils/activityLogger";
  */
 export const createUser = async (req: Request, res: Response) => {
   try {
-    const { name, email, pjNumber, role } = req.body;
+    const { name, email, pjNumber, role, station } = req.body;
 
     if (!name || !email || !pjNumber) {
       return res.status(400).json({ message: "Missing required fields" });
@@ -37,6 +37,7 @@ export const createUser = async (req: Request, res: Response) => {
       email,
       pjNumber,
       role,
+      station,
       accountLocked: true,
       accountVerified: false,
     });
@@ -59,6 +60,7 @@ export const createUser = async (req: Request, res: Response) => {
       email: newUser.email,
       pjNumber: newUser.pjNumber,
       role: newUser.role,
+      station: newUser.station,
     });
   } catch (err) {
     res.status(500).json({ message: "Failed to create user", error: err });
@@ -71,7 +73,7 @@ export const createUser = async (req: Request, res: Response) => {
 export const updateUser = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const { name, email, pjNumber, role, accountLocked } = req.body;
+    const { name, email, pjNumber, role, station, accountLocked } = req.body;
 
     if (!Types.ObjectId.isValid(id)) {
       return res.status(400).json({ message: "Invalid user ID" });
@@ -103,6 +105,7 @@ export const updateUser = async (req: Request, res: Response) => {
     }
 
     if (role) user.role = role;
+    if (typeof station === "string") user.station = station;
     if (typeof accountLocked === "boolean") user.accountLocked = accountLocked;
 
     await user.save();
@@ -123,6 +126,7 @@ export const updateUser = async (req: Request, res: Response) => {
       email: user.email,
       pjNumber: user.pjNumber,
       role: user.role,
+      station: user.station,
       accountLocked: user.accountLocked,
     });
   } catch (err) {
@@ -0,0 +1,16 @@
+import { logger } from "../config/logger";
+import { assignUncycledIndicators } from "../services/cycle.service";
+
+/* =====================================================
+   CYCLE BACKFILL
+   Indicators created before cycles existed have no
+   cycle. New ones are filed when they are created; this
+   pass files the old ones under the open cycle covering
+   their start date.
+===================================================== */
+export const backfillIndicatorCycles = async () => {
+  const assigned = await assignUncycledIndicators();
+  if (assigned)
+    logger.info(`[JOB cycle-backfill] assigned ${assigned} indicator(s)`);
+  return assigned;
+};
@@ -0,0 +1,171 @@
+import { Indicator } from "../models/Indicator";
+import {
+  EvidenceIntegrityRun,
+  EvidenceIntegrityRunDocument,
+  IIntegrityIssue,
+} from "../models/EvidenceIntegrityRun";
+import { logger } from "../config/logger";
+import {
+  checkEvidenceIntegrity,
+  recordIntegrityStatus,
+} from "../services/evidenceIntegrity.service";
+import { notifyUser } from "../services/notification.service";
+import { isLockHeld, runWithLock } from "./scheduler";
+
+const LOCK_NAME = "evidence-integrity";
+// The lock and heartbeat are renewed per file; silence this long means
+// the worker is gone
+const STALE_AFTER_MS = 30 * 60 * 1000;
+// Keeps the run document well inside MongoDB's 16MB limit
+const MAX_RECORDED_ISSUES = 1000;
+
+const recordIssue = (
+  run: EvidenceIntegrityRunDocument,
+  issue: IIntegrityIssue,
+) => {
+  if (run.issues.length < MAX_RECORDED_ISSUES) run.issues.push(issue);
+  else run.issuesOmitted += 1;
+};
+
+/* =====================================================
+   VERIFY ALL EVIDENCE
+   Re-hashes every stored file and compares it with the
+   hash recorded at upload. Progress is saved on the run
+   document so the report can be polled while it works.
+===================================================== */
+export const verifyAllEvidence = async (
+  run: EvidenceIntegrityRunDocument,
+  renewLock: () => Promise<void> = async () => undefined,
+) => {
+  const heartbeat = async () => {
+    run.heartbeatAt = new Date();
+    await Promise.all([
+      renewLock(),
+      EvidenceIntegrityRun.updateOne(
+        { _id: run._id },
+        { heartbeatAt: run.heartbeatAt },
+      ),
+    ]);
+  };
+
+  const cursor = Indicator.find({ "evidence.0": { $exists: true } })
+    .select("indicatorTitle evidence")
+    .lean()
+    .cursor();
+
+  for await (const indicator of cursor) {
+    for (const evidence of indicator.evidence) {
+      await heartbeat();
+      run.totals.checked += 1;
+
+      if (!evidence.sha256) {
+        run.totals.unhashed += 1;
+        continue;
+      }
+
+      const issue = {
+        indicator: indicator._id,
+        indicatorTitle: indicator.indicatorTitle,
+        evidenceId: evidence._id,
+        fileName: evidence.fileName,
+        expected: evidence.sha256,
+      };
+
+      try {
+        const { status, actual } = await checkEvidenceIntegrity(evidence);
+        if (status !== evidence.integrityStatus)
+          await recordIntegrityStatus(indicator._id, evidence._id, status);
+
+        if (status === "verified") run.totals.verified += 1;
+        if (status === "mismatch") {
+          run.totals.mismatched += 1;
+          recordIssue(run, { ...issue, kind: "mismatch", actual });
+        }
+        if (status === "missing") {
+          run.totals.missing += 1;
+          recordIssue(run, { ...issue, kind: "missing" });
+        }
+      } catch (err: any) {
+        run.totals.errors += 1;
+        recordIssue(run, {
+          ...issue,
+          kind: "error",
+          message: err?.message || String(err),
+        });
+      }
+    }
+
+    await run.save();
+  }
+
+  run.status = "completed";
+  run.finishedAt = new Date();
+  await run.save();
+
+  return run;
+};
+
+/**
+ * Runs the verification in the background under a Redis lock so two
+ * SuperAdmins cannot start overlapping scans, then notifies the starter.
+ */
+export const startEvidenceVerification = (
+  run: EvidenceIntegrityRunDocument,
+) => {
+  const fail = async (message: string) => {
+    run.status = "failed";
+    run.error = message;
+    run.finishedAt = new Date();
+    await run.save();
+  };
+
+  void runWithLock(LOCK_NAME, STALE_AFTER_MS, async (renew) => {
+    await verifyAllEvidence(run, renew);
+
+    const { checked, mismatched, missing } = run.totals;
+    await notifyUser({
+      userId: run.startedBy,
+      title: "Evidence Verification Finished",
+      message: `${checked} file(s) checked: ${mismatched} mismatched, ${missing} missing`,
+      type: "system",
+      metadata: { runId: run._id },
+    });
+  })
+    .then(async (ran) => {
+      if (!ran)
+        await fail("Another verification is running or Redis is unavailable");
+    })
+    .catch(async (err) => {
+      logger.error(`[JOB evidence-integrity] failed: ${err?.message || err}`);
+      await fail(err?.message || String(err)).catch(() => undefined);
+    });
+};
+
+/**
+ * Fails runs whose worker has gone away so a new run can start. At
+ * startup any run not covered by a live lock is orphaned; otherwise
+ * only runs that have stopped sending heartbeats are.
+ */
+export const failAbandonedIntegrityRuns = async ({
+  atStartup = false,
+}: { atStartup?: boolean } = {}) => {
+  const filter: Record<string, any> = { status: "running" };
+  if (!atStartup || (await isLockHeld(LOCK_NAME))) {
+    const staleBefore = new Date(Date.now() - STALE_AFTER_MS);
+    // Runs from before heartbeats were recorded go by their start time
+    filter.$or = [
+      { heartbeatAt: { $lt: staleBefore } },
+      { heartbeatAt: { $exists: false }, startedAt: { $lt: staleBefore } },
+    ];
+  }
+
+  const { modifiedCount } = await EvidenceIntegrityRun.updateMany(filter, {
+    status: "failed",
+    error: "Verification stopped responding; the server may have restarted",
+    finishedAt: new Date(),
+  });
+  if (modifiedCount)
+    logger.warn(
+      `[JOB ${LOCK_NAME}] marked ${modifiedCount} abandoned run(s) as failed`,
+    );
+};
@@ -0,0 +1,54 @@
+import { Indicator } from "../models/Indicator";
+import { logger } from "../config/logger";
+import { generateEvidencePreview } from "../services/evidencePreview.service";
+
+const BATCH_SIZE = 25;
+// Fresh uploads are handled by the in-process queue; only stale ones here
+const STALE_PENDING_MS = 15 * 60 * 1000;
+
+/* =====================================================
+   PREVIEW BACKFILL
+   Generates thumbnails for evidence uploaded before
+   previews existed, and for uploads whose preview was
+   lost to a restart while still queued.
+===================================================== */
+export const backfillEvidencePreviews = async (now = new Date()) => {
+  const stale = new Date(now.getTime() - STALE_PENDING_MS);
+
+  const candidates = await Indicator.aggregate([
+    {
+      $match: {
+        evidence: {
+          $elemMatch: {
+            $or: [{ preview: null }, { "preview.status": "pending" }],
+          },
+        },
+      },
+    },
+    { $unwind: "$evidence" },
+    {
+      $match: {
+        // Files are only opened once the scanner has cleared them
+        "evidence.scanStatus": {
+          $nin: ["pending", "infected", "encrypted", "failed"],
+        },
+        $or: [
+          { "evidence.preview": null },
+          {
+            "evidence.preview.status": "pending",
+            "evidence.uploadedAt": { $lt: stale },
+          },
+        ],
+      },
+    },
+    { $limit: BATCH_SIZE },
+    { $project: { evidence: 1 } },
+  ]);
+
+  for (const { _id, evidence } of candidates)
+    await generateEvidencePreview(_id, evidence);
+
+  if (candidates.length)
+    logger.info(`[JOB evidence-previews] processed ${candidates.length}`);
+  return candidates.length;
+};
@@ -0,0 +1,38 @@
+import { Indicator } from "../models/Indicator";
+import { logger } from "../config/logger";
+import { scanEvidence } from "../services/evidenceScan.service";
+
+const BATCH_SIZE = 25;
+// Fresh uploads are handled by the in-process queue; only stale ones here
+const STALE_PENDING_MS = 5 * 60 * 1000;
+
+/* =====================================================
+   SCAN RETRIES
+   Rescans evidence still pending after the queue should
+   have reached it: lost to a restart, or the scanner was
+   unavailable. Each failure counts towards the attempt
+   limit, after which the file is marked "failed".
+===================================================== */
+export const retryPendingEvidenceScans = async (now = new Date()) => {
+  const stale = new Date(now.getTime() - STALE_PENDING_MS);
+
+  const candidates = await Indicator.aggregate([
+    { $match: { "evidence.scanStatus": "pending" } },
+    { $unwind: "$evidence" },
+    {
+      $match: {
+        "evidence.scanStatus": "pending",
+        "evidence.uploadedAt": { $lt: stale },
+      },
+    },
+    { $limit: BATCH_SIZE },
+    { $project: { evidence: 1 } },
+  ]);
+
+  for (const { _id, evidence } of candidates)
+    await scanEvidence(_id, evidence);
+
+  if (candidates.length)
+    logger.info(`[JOB evidence-scans] processed ${candidates.length}`);
+  return candidates.length;
+};
@@ -0,0 +1,91 @@
+import { env } from "../config/env";
+import { logger } from "../config/logger";
+import { scheduleJob } from "./scheduler";
+import {
+  markOverdueIndicators,
+  markOverduePeriods,
+} from "./overdueIndicators.job";
+import { runReminderCampaign } from "./reminderCampaign.job";
+import { cleanUpExpiredUploads } from "./uploadSessionCleanup.job";
+import { backfillEvidencePreviews } from "./evidencePreviews.job";
+import { retryPendingEvidenceScans } from "./evidenceScans.job";
+import { rebuildScoreRollups } from "./scoreRollups.job";
+import { flagReviewSlaBreaches } from "./reviewSla.job";
+import { backfillIndicatorCycles } from "./cycleBackfill.job";
+
+const MINUTE = 60 * 1000;
+
+/* =====================================================
+   REGISTER BACKGROUND JOBS
+===================================================== */
+export const startJobs = () => {
+  if (!env.JOBS_ENABLED) {
+    logger.info("[JOBS] Background jobs disabled");
+    return;
+  }
+
+  scheduleJob({
+    name: "overdue-indicators",
+    intervalMs: env.OVERDUE_SCAN_INTERVAL_MINUTES * MINUTE,
+    task: async () => {
+      await markOverdueIndicators();
+      await markOverduePeriods();
+    },
+  });
+
+  scheduleJob({
+    name: "reminder-campaign",
+    intervalMs: env.REMINDER_SCAN_INTERVAL_MINUTES * MINUTE,
+    task: async () => {
+      await runReminderCampaign();
+    },
+  });
+
+  scheduleJob({
+    name: "upload-cleanup",
+    intervalMs: 60 * MINUTE,
+    task: async () => {
+      await cleanUpExpiredUploads();
+    },
+  });
+
+  scheduleJob({
+    name: "evidence-previews",
+    intervalMs: 10 * MINUTE,
+    task: async () => {
+      await backfillEvidencePreviews();
+    },
+  });
+
+  scheduleJob({
+    name: "evidence-scans",
+    intervalMs: 5 * MINUTE,
+    task: async () => {
+      await retryPendingEvidenceScans();
+    },
+  });
+
+  scheduleJob({
+    name: "review-sla",
+    intervalMs: 15 * MINUTE,
+    task: async () => {
+      await flagReviewSlaBreaches();
+    },
+  });
+
+  scheduleJob({
+    name: "cycle-backfill",
+    intervalMs: 60 * MINUTE,
+    task: async () => {
+      await backfillIndicatorCycles();
+    },
+  });
+
+  scheduleJob({
+    name: "score-rollups",
+    intervalMs: 24 * 60 * MINUTE,
+    task: async () => {
+      await rebuildScoreRollups();
+    },
+  });
+};
@@ -0,0 +1,148 @@
+import { Types } from "mongoose";
+import { Indicator } from "../models/Indicator";
+import { logger } from "../config/logger";
+import { transitionIndicator } from "../services/indicatorStatus.service";
+import { getFrozenCycleIds } from "../services/cycle.service";
+import { addEditHistory } from "../utils/helpers";
+import { notifyUser } from "../services/notification.service";
+import {
+  emitIndicatorUpdateToAdmins,
+  emitIndicatorUpdateToUser,
+} from "../sockets/socket";
+
+/* =====================================================
+   OVERDUE DETECTION
+   Flips past-due, unfinished indicators to "overdue".
+   Partially completed indicators are measured against
+   their nextDeadline when one has been set.
+===================================================== */
+export const markOverdueIndicators = async (now = new Date()) => {
+  const candidates = await Indicator.find({
+    cycle: { $nin: await getFrozenCycleIds() },
+    $or: [
+      { status: { $in: ["pending", "rejected"] }, dueDate: { $lt: now } },
+      { status: "partially_completed", nextDeadline: { $lt: now } },
+      {
+        status: "partially_completed",
+        nextDeadline: null,
+        dueDate: { $lt: now },
+      },
+    ],
+  });
+
+  let flagged = 0;
+
+  for (const indicator of candidates) {
+    const previousStatus = indicator.status;
+    const deadline =
+      previousStatus === "partially_completed" && indicator.nextDeadline
+        ? indicator.nextDeadline
+        : indicator.dueDate;
+
+    try {
+      transitionIndicator(indicator, "overdue", {
+        role: "system",
+        reason: `Deadline ${deadline.toISOString()} passed`,
+      });
+      addEditHistory(indicator, null, {
+        status: { old: previousStatus, new: "overdue" },
+      });
+      await indicator.save();
+    } catch (err: any) {
+      logger.error(
+        `[OVERDUE] Could not flag indicator ${indicator._id}: ${err.message}`,
+      );
+      continue;
+    }
+
+    flagged++;
+
+    const payload = {
+      indicatorId: indicator._id.toString(),
+      status: indicator.status,
+    };
+    const recipients = new Set<string>();
+    if (indicator.assignedTo) recipients.add(indicator.assignedTo.toString());
+    indicator.assignedGroup?.forEach((id) => recipients.add(id.toString()));
+    recipients.forEach((userId) => emitIndicatorUpdateToUser(userId, payload));
+    emitIndicatorUpdateToAdmins(payload);
+  }
+
+  if (flagged) logger.info(`[OVERDUE] ${flagged} indicator(s) marked overdue`);
+  return flagged;
+};
+
+/* =====================================================
+   OVERDUE REPORTING PERIODS
+   Quarterly and monthly reports are tracked separately
+   from the indicator's own deadline; the indicator's
+   status is left alone.
+===================================================== */
+export const markOverduePeriods = async (now = new Date()) => {
+  const candidates = await Indicator.find({
+    cycle: { $nin: await getFrozenCycleIds() },
+    reportingPeriods: {
+      $elemMatch: {
+        status: { $in: ["pending", "rejected"] },
+        dueDate: { $lt: now },
+      },
+    },
+  });
+
+  let flagged = 0;
+
+  for (const indicator of candidates) {
+    const late = indicator.reportingPeriods.filter(
+      (p) => ["pending", "rejected"].includes(p.status) && p.dueDate < now,
+    );
+    const changes: Record<string, { old: any; new: any }> = {};
+    late.forEach((period) => {
+      changes[`period.${period.key}.status`] = {
+        old: period.status,
+        new: "overdue",
+      };
+      period.status = "overdue";
+      period.overdueAt = now;
+    });
+    addEditHistory(indicator, null, changes);
+
+    try {
+      await indicator.save();
+    } catch (err: any) {
+      logger.error(
+        `[OVERDUE] Could not flag periods of indicator ${indicator._id}: ${err.message}`,
+      );
+      continue;
+    }
+
+    flagged += late.length;
+
+    const recipients = new Set<string>();
+    if (indicator.assignedTo) recipients.add(indicator.assignedTo.toString());
+    indicator.assignedGroup?.forEach((id) => recipients.add(id.toString()));
+
+    const labels = late.map((p) => p.label).join(", ");
+    const payload = {
+      indicatorId: indicator._id.toString(),
+      status: indicator.status,
+    };
+    for (const userId of recipients) {
+      await notifyUser({
+        userId: new Types.ObjectId(userId),
+        title: "Periodic report overdue",
+        message: `${labels} report for "${indicator.indicatorTitle}" is overdue.`,
+        metadata: {
+          indicatorId: indicator._id,
+          periodIds: late.map((p) => p._id),
+        },
+      }).catch((err) =>
+        logger.error(`[OVERDUE] Notification failed: ${err.message}`),
+      );
+      emitIndicatorUpdateToUser(userId, payload);
+    }
+    emitIndicatorUpdateToAdmins(payload);
+  }
+
+  if (flagged) logger.info(`[OVERDUE] ${flagged} reporting period(s) overdue`);
+  return flagged;
+};
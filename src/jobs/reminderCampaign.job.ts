@@ -0,0 +1,253 @@
+import { Types } from "mongoose";
+import { Indicator } from "../models/Indicator";
+import { ReminderLog } from "../models/ReminderLog";
+import {
+  DEFAULT_REMINDER_SCHEDULE,
+  IReminderSchedule,
+  ReminderSchedule,
+} from "../models/ReminderSchedule";
+import { logger } from "../config/logger";
+import { env } from "../config/env";
+import sendMail from "../utils/sendMail";
+import {
+  deadlineReminderTemplate,
+  overdueEscalationTemplate,
+  overdueReminderTemplate,
+} from "../utils/mailTemplates";
+import { notifyUser } from "../services/notification.service";
+import { getFrozenCycleIds } from "../services/cycle.service";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Indicators still waiting on the assignee; submitted/approved ones are with reviewers
+const REMINDABLE_STATUSES = [
+  "pending",
+  "rejected",
+  "partially_completed",
+  "overdue",
+];
+
+type ScheduleConfig = Pick<
+  IReminderSchedule,
+  "steps" | "repeatEveryDays" | "escalateAfterMisses"
+>;
+
+type Recipient = { _id: Types.ObjectId; name: string; email?: string };
+
+/* =====================================================
+   SCHEDULE HELPERS
+===================================================== */
+
+export const getActiveReminderSchedule = async (): Promise<ScheduleConfig> => {
+  const schedule = await ReminderSchedule.findOne({ isActive: true })
+    .sort({ updatedAt: -1 })
+    .lean();
+  return schedule ?? DEFAULT_REMINDER_SCHEDULE;
+};
+
+const startOfDay = (date: Date) => {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+};
+
+export const daysFromDeadline = (deadline: Date, now = new Date()) =>
+  Math.round(
+    (startOfDay(now).getTime() - startOfDay(deadline).getTime()) / DAY,
+  );
+
+/**
+ * Picks the single reminder step that applies `days` after the deadline.
+ * Only the latest reached step is returned, so a missed run never
+ * results in a burst of stale reminders.
+ */
+export const resolveReminderStep = (schedule: ScheduleConfig, days: number) => {
+  const steps = [...schedule.steps].sort((a, b) => a.offsetDays - b.offsetDays);
+  const reached = steps.filter((s) => s.offsetDays <= days);
+  if (!reached.length) return null;
+
+  const last = steps[steps.length - 1];
+  if (schedule.repeatEveryDays > 0 && days > last.offsetDays) {
+    const round = Math.floor(
+      (days - last.offsetDays) / schedule.repeatEveryDays,
+    );
+    if (round >= 1)
+      return { key: `repeat:${round}`, label: `Repeat reminder #${round}` };
+  }
+
+  const step = reached[reached.length - 1];
+  return { key: `step:${step.offsetDays}`, label: step.label };
+};
+
+/**
+ * Records a log entry before sending; the unique index makes a duplicate
+ * insert fail, which is how the same reminder is never sent twice.
+ * The entry is removed again if delivery fails so the next run retries.
+ */
+const sendOnce = async (
+  entry: {
+    indicator: Types.ObjectId;
+    recipient: Types.ObjectId;
+    stepKey: string;
+    kind: "reminder" | "escalation";
+    daysFromDeadline: number;
+    deadline: Date;
+  },
+  deliver: () => Promise<void>,
+) => {
+  let log;
+  try {
+    log = await ReminderLog.create(entry);
+  } catch (err: any) {
+    if (err?.code === 11000) return false;
+    throw err;
+  }
+
+  try {
+    await deliver();
+    return true;
+  } catch (err: any) {
+    await ReminderLog.deleteOne({ _id: log._id });
+    logger.error(
+      `[REMINDERS] Delivery to ${entry.recipient} failed: ${err.message}`,
+    );
+    return false;
+  }
+};
+
+/* =====================================================
+   CAMPAIGN RUN
+===================================================== */
+export const runReminderCampaign = async (now = new Date()) => {
+  const schedule = await getActiveReminderSchedule();
+  if (!schedule.steps.length) return { reminders: 0, escalations: 0 };
+
+  const earliestOffset = Math.min(...schedule.steps.map((s) => s.offsetDays));
+  const horizon = new Date(now.getTime() - earliestOffset * DAY);
+
+  const indicators = await Indicator.find({
+    status: { $in: REMINDABLE_STATUSES },
+    cycle: { $nin: await getFrozenCycleIds() },
+    $or: [{ dueDate: { $lte: horizon } }, { nextDeadline: { $lte: horizon } }],
+  })
+    .select(
+      "indicatorTitle status dueDate nextDeadline assignedTo assignedGroup createdBy",
+    )
+    .populate("assignedTo assignedGroup createdBy", "name email");
+
+  let reminders = 0;
+  let escalations = 0;
+
+  for (const indicator of indicators) {
+    const deadline =
+      indicator.status === "partially_completed" && indicator.nextDeadline
+        ? indicator.nextDeadline
+        : indicator.dueDate;
+    const days = daysFromDeadline(deadline, now);
+    const step = resolveReminderStep(schedule, days);
+    if (!step) continue;
+
+    const appUrl = `${env.FRONTEND_URL}/user/indicators/${indicator._id}`;
+    const recipients = new Map<string, Recipient>();
+    const assignedTo = indicator.assignedTo as unknown as Recipient | null;
+    if (assignedTo?._id) recipients.set(assignedTo._id.toString(), assignedTo);
+    (indicator.assignedGroup as unknown as Recipient[])?.forEach((u) => {
+      if (u?._id) recipients.set(u._id.toString(), u);
+    });
+
+    for (const user of recipients.values()) {
+      const sent = await sendOnce(
+        {
+          indicator: indicator._id,
+          recipient: user._id,
+          stepKey: step.key,
+          kind: "reminder",
+          daysFromDeadline: days,
+          deadline,
+        },
+        async () => {
+          if (user.email) {
+            const mail =
+              days > 0
+                ? overdueReminderTemplate({
+                    userName: user.name,
+                    indicatorTitle: indicator.indicatorTitle,
+                    dueDate: deadline,
+                    appUrl,
+                  })
+                : deadlineReminderTemplate({
+                    userName: user.name,
+                    indicatorTitle: indicator.indicatorTitle,
+                    dueDate: deadline,
+                    daysRemaining: -days,
+                    appUrl,
+                  });
+            await sendMail({ to: user.email, ...mail });
+          }
+          await notifyUser({
+            userId: user._id,
+            title: days > 0 ? "Overdue Indicator" : "Upcoming Deadline",
+            message: `${indicator.indicatorTitle} — ${step.label}`,
+            type: "system",
+            metadata: { indicatorId: indicator._id, stepKey: step.key },
+          });
+        },
+      );
+      if (sent) reminders++;
+    }
+
+    if (days <= 0) continue;
+
+    /* ---------- Escalation to the assigning admin ---------- */
+    const admin = indicator.createdBy as unknown as Recipient | null;
+    if (!admin?._id) continue;
+
+    const missedSteps = await ReminderLog.distinct("stepKey", {
+      indicator: indicator._id,
+      deadline,
+      kind: "reminder",
+      daysFromDeadline: { $gt: 0 },
+    });
+    const misses = missedSteps.length;
+    if (misses < schedule.escalateAfterMisses) continue;
+
+    const escalated = await sendOnce(
+      {
+        indicator: indicator._id,
+        recipient: admin._id,
+        stepKey: `escalation:${misses}`,
+        kind: "escalation",
+        daysFromDeadline: days,
+        deadline,
+      },
+      async () => {
+        if (admin.email) {
+          const mail = overdueEscalationTemplate({
+            adminName: admin.name,
+            indicatorTitle: indicator.indicatorTitle,
+            assignees: Array.from(recipients.values()).map((u) => u.name),
+            dueDate: deadline,
+            remindersSent: misses,
+            appUrl: `${env.FRONTEND_URL}/admin/indicators/${indicator._id}`,
+          });
+          await sendMail({ to: admin.email, ...mail });
+        }
+        await notifyUser({
+          userId: admin._id,
+          title: "Overdue Indicator Escalation",
+          message: `${indicator.indicatorTitle} is still outstanding after ${misses} reminder(s)`,
+          type: "system",
+          metadata: { indicatorId: indicator._id, misses },
+        });
+      },
+    );
+    if (escalated) escalations++;
+  }
+
+  if (reminders || escalations)
+    logger.info(
+      `[REMINDERS] Sent ${reminders} reminder(s) and ${escalations} escalation(s)`,
+    );
+
+  return { reminders, escalations };
+};
@@ -0,0 +1,81 @@
+import { Indicator } from "../models/Indicator";
+import { User } from "../models/User";
+import { logger } from "../config/logger";
+import { getFrozenCycleIds } from "../services/cycle.service";
+import { notifyUser } from "../services/notification.service";
+import { logActivity } from "../utils/activityLogger";
+
+/* =====================================================
+   REVIEW SLA BREACHES
+   Flags review rounds still open past their deadline
+   and tells every SuperAdmin once per round. Rounds
+   that close late are flagged when they close.
+===================================================== */
+export const flagReviewSlaBreaches = async (now = new Date()) => {
+  const candidates = await Indicator.find({
+    cycle: { $nin: await getFrozenCycleIds() },
+    reviewRounds: {
+      $elemMatch: {
+        closedAt: null,
+        slaBreached: false,
+        slaDueAt: { $lt: now },
+      },
+    },
+  });
+  if (!candidates.length) return 0;
+
+  const superAdmins = await User.find({ role: "SuperAdmin" })
+    .select("_id")
+    .lean();
+  let flagged = 0;
+
+  for (const indicator of candidates) {
+    const round = indicator.reviewRounds.find(
+      (r) => !r.closedAt && !r.slaBreached && r.slaDueAt && r.slaDueAt < now,
+    );
+    if (!round) continue;
+
+    round.slaBreached = true;
+    round.breachNotifiedAt = now;
+    try {
+      await indicator.save();
+    } catch (err: any) {
+      logger.error(
+        `[REVIEW SLA] Could not flag indicator ${indicator._id}: ${err.message}`,
+      );
+      continue;
+    }
+    flagged++;
+
+    const submitted = round.submittedAt.toLocaleDateString("en-GB");
+    for (const admin of superAdmins)
+      await notifyUser({
+        userId: admin._id,
+        title: "Review SLA breached",
+        message: `"${indicator.indicatorTitle}" was submitted on ${submitted} and is still awaiting review after the ${round.slaDays}-working-day SLA.`,
+        metadata: {
+          indicatorId: indicator._id,
+          round: round.round,
+          slaDueAt: round.slaDueAt,
+        },
+      }).catch((err) =>
+        logger.error(`[REVIEW SLA] Notification failed: ${err.message}`),
+      );
+
+    await logActivity({
+      user: "SYSTEM",
+      action: "review_sla_breach",
+      entity: indicator.indicatorTitle,
+      entityId: indicator._id,
+      level: "warn",
+      meta: {
+        round: round.round,
+        submittedAt: round.submittedAt,
+        slaDueAt: round.slaDueAt,
+      },
+    });
+  }
+
+  if (flagged) logger.info(`[REVIEW SLA] ${flagged} review(s) past their SLA`);
+  return flagged;
+};
@@ -0,0 +1,113 @@
+import { randomUUID } from "crypto";
+import { redisClient } from "../config/redis";
+import { logger } from "../config/logger";
+
+/* =====================================================
+   DISTRIBUTED LOCK (REDIS)
+===================================================== */
+
+// Only delete the lock if we still own it
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0
+`;
+
+// Only push the expiry out if we still own it
+const RENEW_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("pexpire", KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+const lockKey = (name: string) => `lock:job:${name}`;
+
+export const isLockHeld = async (name: string) =>
+  redisClient.isOpen && (await redisClient.exists(lockKey(name))) > 0;
+
+/**
+ * Runs `task` only if this instance can take the Redis lock for `name`.
+ * Returns false when another instance holds it or Redis is unavailable.
+ * Long tasks can call `renew` to keep a short TTL alive while they make
+ * progress, so a crashed instance frees the lock soon after.
+ */
+export const runWithLock = async (
+  name: string,
+  ttlMs: number,
+  task: (renew: () => Promise<void>) => Promise<void>,
+) => {
+  if (!redisClient.isOpen) {
+    logger.warn(`[JOB ${name}] skipped: Redis unavailable for locking`);
+    return false;
+  }
+
+  const key = lockKey(name);
+  const token = randomUUID();
+
+  const acquired = await redisClient.set(key, token, {
+    condition: "NX",
+    expiration: { type: "PX", value: ttlMs },
+  });
+  if (!acquired) return false;
+
+  const renew = async () => {
+    await redisClient
+      .eval(RENEW_LOCK_SCRIPT, {
+        keys: [key],
+        arguments: [token, String(ttlMs)],
+      })
+      .catch((err) => logger.error(`[JOB ${name}] lock renewal failed: ${err}`));
+  };
+
+  try {
+    await task(renew);
+  } finally {
+    await redisClient
+      .eval(RELEASE_LOCK_SCRIPT, { keys: [key], arguments: [token] })
+      .catch((err) => logger.error(`[JOB ${name}] lock release failed: ${err}`));
+  }
+
+  return true;
+};
+
+/* =====================================================
+   INTERVAL SCHEDULER
+===================================================== */
+
+interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  task: () => Promise<void>;
+}
+
+const timers = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Runs a job immediately and then every `intervalMs`, guarded by the
+ * Redis lock so that only one server instance executes each tick.
+ */
+export const scheduleJob = ({ name, intervalMs, task }: ScheduledJob) => {
+  if (timers.has(name)) return;
+
+  const tick = async () => {
+    try {
+      // Lock outlives the interval slightly so a slow run is never doubled
+      await runWithLock(name, intervalMs + 60_000, task);
+    } catch (err: any) {
+      logger.error(`[JOB ${name}] failed: ${err?.message || err}`);
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  timers.set(name, timer);
+
+  void tick();
+};
+
+export const stopJobs = () => {
+  timers.forEach((timer) => clearInterval(timer));
+  timers.clear();
+};
@@ -0,0 +1,15 @@
+import { logger } from "../config/logger";
+import { rebuildObjectiveScores } from "../services/scoring.service";
+
+/* =====================================================
+   SCORE ROLLUP REBUILD
+   Score changes are applied per objective as they
+   happen; this full pass repairs anything written past
+   the queue (bulk writes, restarts) and seeds the
+   rollups on first start.
+===================================================== */
+export const rebuildScoreRollups = async () => {
+  const objectives = await rebuildObjectiveScores();
+  logger.info(`[JOB score-rollups] rebuilt ${objectives} objective(s)`);
+  return objectives;
+};
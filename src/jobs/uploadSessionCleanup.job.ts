@@ -0,0 +1,13 @@
+import { logger } from "../config/logger";
+import { purgeExpiredUploadSessions } from "../services/chunkedUpload.service";
+
+/* =====================================================
+   UPLOAD SESSION CLEANUP
+   Frees the disk and storage space held by resumable
+   uploads that were abandoned or never attached.
+===================================================== */
+export const cleanUpExpiredUploads = async (now = new Date()) => {
+  const purged = await purgeExpiredUploadSessions(now);
+  if (purged) logger.info(`[JOB upload-cleanup] purged ${purged} upload(s)`);
+  return purged;
+};
@@ -4,8 +4,8 @@ import { Request } from "express";
 // In-memory storage for Multer (uploads to Cloudinary or similar)
 const storage = multer.memoryStorage();
 
-// Allowed MIME types
-const allowedMimes = [
+// Allowed MIME types for individual evidence files
+export const EVIDENCE_MIME_TYPES = [
   "image/png",
   "image/jpeg",
   "image/jpg",
@@ -13,10 +13,13 @@ const allowedMimes = [
   "image/bmp",
   "image/webp",
   "application/pdf",
-  "application/zip",
-  "application/x-zip-compressed",
 ];
 
+// Zips are stored as-is unless the client asks for them to be expanded
+export const ZIP_MIME_TYPES = ["application/zip", "application/x-zip-compressed"];
+
+const allowedMimes = [...EVIDENCE_MIME_TYPES, ...ZIP_MIME_TYPES];
+
 
 // File filter
 const fileFilter = (req: Request, file: Express.Multer.File, cb: FileFilterCallback) => {
@@ -27,9 +30,37 @@ const fileFilter = (req: Request, file: Express.Multer.File, cb: FileFilterCallb
   }
 };
 
-// Maximum file size: 5MB
+// Maximum file size: 5MB (also applied to each file expanded from a zip)
+export const MAX_EVIDENCE_FILE_SIZE = 5 * 1024 * 1024;
+
 export const upload = multer({
   storage,
   fileFilter,
-  limits: { fileSize: 5 * 1024 * 1024 },
+  limits: { fileSize: MAX_EVIDENCE_FILE_SIZE },
+});
+
+// Spreadsheet uploads (bulk indicator import)
+const spreadsheetMimes = [
+  "text/csv",
+  "application/csv",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+];
+
+const spreadsheetFilter = (
+  req: Request,
+  file: Express.Multer.File,
+  cb: FileFilterCallback,
+) => {
+  if (spreadsheetMimes.includes(file.mimetype)) {
+    cb(null, true);
+  } else {
+    cb(new Error("Only CSV or XLSX spreadsheets are allowed"));
+  }
+};
+
+export const spreadsheetUpload = multer({
+  storage,
+  fileFilter: spreadsheetFilter,
+  limits: { fileSize: 2 * 1024 * 1024 },
 });
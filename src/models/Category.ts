@@ -1,6 +1,12 @@
 // models/categoryModel.ts
 import mongoose, { Document, Schema, Model } from "mongoose";
 
+export const REVIEW_ROLES = ["Admin", "SuperAdmin"] as const;
+export type ReviewRole = (typeof REVIEW_ROLES)[number];
+
+export const isReviewRole = (value: unknown): value is ReviewRole =>
+  (REVIEW_ROLES as readonly unknown[]).includes(value);
+
 // TypeScript interface for Category
 export interface ICategory extends Document {
   code: string;
@@ -8,6 +14,12 @@ export interface ICategory extends Document {
   parent?: mongoose.Types.ObjectId | null;
   parentCode?: string | null;
   level: 1 | 2 | 3 | 4;
+  // Ordered sign-off stages for indicators under this category
+  reviewChain: ReviewRole[];
+  // Relative weight among siblings in the score rollup
+  weight: number;
+  // Working days a review may take; null inherits parent / default
+  reviewSlaDays?: number | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -44,6 +56,23 @@ const categorySchema: Schema<ICategory> = new mongoose.Schema(
       enum: [1, 2, 3, 4],
       default: 1,
     },
+
+    reviewChain: {
+      type: [{ type: String, enum: REVIEW_ROLES }],
+      default: [],
+    },
+
+    weight: {
+      type: Number,
+      min: 0,
+      default: 1,
+    },
+
+    reviewSlaDays: {
+      type: Number,
+      min: 1,
+      default: null,
+    },
   },
   { timestamps: true }
 );
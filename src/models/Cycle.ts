@@ -0,0 +1,65 @@
+import mongoose, { Schema, Model, Types, HydratedDocument } from "mongoose";
+
+/* =====================================================
+   TYPES & CONSTANTS
+===================================================== */
+
+export const CYCLE_STATUS = ["open", "closed", "archived"] as const;
+export type CycleStatus = (typeof CYCLE_STATUS)[number];
+
+export interface ICycleSummary {
+  totalIndicators: number;
+  completed: number;
+  averageProgress: number;
+  averageScore: number;
+}
+
+export interface ICycle {
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  status: CycleStatus;
+  closedAt?: Date | null;
+  closedBy?: Types.ObjectId | null;
+  summary?: ICycleSummary | null;
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type CycleDocument = HydratedDocument<ICycle>;
+
+/* =====================================================
+   SCHEMA
+===================================================== */
+
+const cycleSchema = new Schema<ICycle>(
+  {
+    name: { type: String, required: true, trim: true, unique: true },
+    startDate: { type: Date, required: true },
+    endDate: { type: Date, required: true },
+    status: { type: String, enum: CYCLE_STATUS, default: "open" },
+    closedAt: { type: Date, default: null },
+    closedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    // Frozen totals captured when the cycle is closed
+    summary: {
+      type: new Schema<ICycleSummary>(
+        {
+          totalIndicators: Number,
+          completed: Number,
+          averageProgress: Number,
+          averageScore: Number,
+        },
+        { _id: false },
+      ),
+      default: null,
+    },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  },
+  { timestamps: true },
+);
+
+cycleSchema.index({ status: 1, startDate: 1, endDate: 1 });
+
+export const Cycle: Model<ICycle> =
+  mongoose.models.Cycle || mongoose.model<ICycle>("Cycle", cycleSchema);
@@ -0,0 +1,100 @@
+import mongoose, { Schema, Model, Types, HydratedDocument } from "mongoose";
+
+/* =====================================================
+   TYPES
+===================================================== */
+
+export interface IIntegrityIssue {
+  indicator: Types.ObjectId;
+  indicatorTitle: string;
+  evidenceId: Types.ObjectId;
+  fileName: string;
+  kind: "mismatch" | "missing" | "error";
+  expected?: string | null;
+  actual?: string | null;
+  message?: string;
+}
+
+export interface IEvidenceIntegrityRun {
+  status: "running" | "completed" | "failed";
+  startedBy: Types.ObjectId;
+  startedAt: Date;
+  // Bumped as files are checked; a run that stops bumping it has died
+  heartbeatAt: Date;
+  finishedAt?: Date | null;
+  totals: {
+    checked: number;
+    verified: number;
+    mismatched: number;
+    missing: number;
+    unhashed: number;
+    errors: number;
+  };
+  issues: IIntegrityIssue[];
+  // Issues beyond the recorded cap; still counted in totals
+  issuesOmitted: number;
+  error?: string | null;
+}
+
+export type EvidenceIntegrityRunDocument =
+  HydratedDocument<IEvidenceIntegrityRun>;
+
+/* =====================================================
+   SCHEMA
+===================================================== */
+
+const integrityIssueSchema = new Schema<IIntegrityIssue>(
+  {
+    indicator: {
+      type: Schema.Types.ObjectId,
+      ref: "Indicator",
+      required: true,
+    },
+    indicatorTitle: { type: String, required: true },
+    evidenceId: { type: Schema.Types.ObjectId, required: true },
+    fileName: { type: String, required: true },
+    kind: {
+      type: String,
+      enum: ["mismatch", "missing", "error"],
+      required: true,
+    },
+    expected: { type: String, default: null },
+    actual: { type: String, default: null },
+    message: { type: String, default: "" },
+  },
+  { _id: false },
+);
+
+const evidenceIntegrityRunSchema = new Schema<IEvidenceIntegrityRun>(
+  {
+    status: {
+      type: String,
+      enum: ["running", "completed", "failed"],
+      default: "running",
+      index: true,
+    },
+    startedBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    startedAt: { type: Date, default: Date.now },
+    heartbeatAt: { type: Date, default: Date.now },
+    finishedAt: { type: Date, default: null },
+    totals: {
+      checked: { type: Number, default: 0 },
+      verified: { type: Number, default: 0 },
+      mismatched: { type: Number, default: 0 },
+      missing: { type: Number, default: 0 },
+      unhashed: { type: Number, default: 0 },
+      errors: { type: Number, default: 0 },
+    },
+    issues: [integrityIssueSchema],
+    issuesOmitted: { type: Number, default: 0 },
+    error: { type: String, default: null },
+  },
+  { versionKey: false },
+);
+
+export const EvidenceIntegrityRun: Model<IEvidenceIntegrityRun> =
+  mongoose.models.EvidenceIntegrityRun ||
+  mongoose.model<IEvidenceIntegrityRun>(
+    "EvidenceIntegrityRun",
+    evidenceIntegrityRunSchema,
+  );
@@ -1,4 +1,18 @@
 import mongoose, { Schema, Model, Types, HydratedDocument } from "mongoose";
+import { Cycle } from "./Cycle";
+import { Category } from "./Category";
+import { env } from "../config/env";
+import { addWorkingDays } from "../utils/workingDays";
+import ErrorHandler from "../middleware/errorMiddlewares";
+import { invalidateAnalytics } from "../services/analyticsCache.service";
+import {
+  buildPeriodSchedule,
+  mergeReportingPeriods,
+} from "../utils/reportingPeriods";
+import {
+  STORAGE_PROVIDERS,
+  StorageProvider,
+} from "../services/storage/types";
 
 /* =====================================================
    TYPES & CONSTANTS
@@ -15,9 +29,64 @@ export const INDICATOR_STATUS = [
 ] as const;
 export type IndicatorStatus = (typeof INDICATOR_STATUS)[number];
 
+export const GROUP_ROLLUP_RULES = ["all", "any", "weighted"] as const;
+export type GroupRollupRule = (typeof GROUP_ROLLUP_RULES)[number];
+
 export const EVIDENCE_STATUS = ["active", "rejected", "archived"] as const;
 export type EvidenceStatus = (typeof EVIDENCE_STATUS)[number];
 
+export const INTEGRITY_STATUS = [
+  "unverified",
+  "verified",
+  "mismatch",
+  "missing",
+] as const;
+export type IntegrityStatus = (typeof INTEGRITY_STATUS)[number];
+
+export const PREVIEW_STATUS = [
+  "pending",
+  "ready",
+  "failed",
+  "unsupported",
+] as const;
+export type PreviewStatus = (typeof PREVIEW_STATUS)[number];
+
+// "unscanned" marks files uploaded before scanning existed
+export const SCAN_STATUS = [
+  "unscanned",
+  "pending",
+  "clean",
+  "infected",
+  "encrypted",
+  "failed",
+] as const;
+export type ScanStatus = (typeof SCAN_STATUS)[number];
+
+export const MEASURE_TYPES = [
+  "number",
+  "percentage",
+  "days",
+  "count",
+  "boolean",
+  "date",
+] as const;
+export type MeasureType = (typeof MEASURE_TYPES)[number];
+
+export const MEASURE_DIRECTIONS = ["higher", "lower"] as const;
+export type MeasureDirection = (typeof MEASURE_DIRECTIONS)[number];
+
+export const REPORTING_FREQUENCIES = ["none", "quarterly", "monthly"] as const;
+export type ReportingFrequency = (typeof REPORTING_FREQUENCIES)[number];
+
+export const PERIOD_STATUS = [
+  "pending",
+  "submitted",
+  "approved",
+  "rejected",
+  "overdue",
+] as const;
+export type PeriodStatus = (typeof PERIOD_STATUS)[number];
+
 /* =====================================================
    INTERFACES
 ===================================================== */
@@ -27,6 +96,29 @@ interface IAuditFields {
   createdAt: Date;
 }
 
+// Thumbnail PNG, stored like the evidence itself
+export interface IEvidencePreview {
+  status: PreviewStatus;
+  storageProvider?: StorageProvider | null;
+  publicId?: string | null;
+  resourceType?: "raw" | "image" | "video";
+  cloudinaryType?: "authenticated" | "upload" | null;
+  format?: string;
+  width?: number | null;
+  height?: number | null;
+  generatedAt?: Date | null;
+  error?: string | null;
+}
+
+// Pixels for images, points for the first page of a PDF
+export interface IEvidenceMetadata {
+  pageCount?: number | null;
+  width?: number | null;
+  height?: number | null;
+  title?: string | null;
+  author?: string | null;
+}
+
 export interface IEvidence {
   _id: Types.ObjectId;
   type: "file";
@@ -34,9 +126,10 @@ export interface IEvidence {
   fileSize: number;
   mimeType: string;
   description?: string;
+  storageProvider?: StorageProvider;
   publicId: string;
   resourceType: "raw" | "image" | "video";
-  cloudinaryType: "authenticated" | "upload";
+  cloudinaryType?: "authenticated" | "upload" | null;
   format: string;
   version: number;
   status: EvidenceStatus;
@@ -46,6 +139,31 @@ export interface IEvidence {
   archivedAt?: Date;
   uploadedAt: Date;
   uploadedBy?: Types.ObjectId;
+  /* Versioning: every upload in a slot supersedes the previous one */
+  slotId?: Types.ObjectId;
+  revision?: number;
+  supersedes?: Types.ObjectId | null;
+  rejectionReason?: string;
+  rejectedBy?: Types.ObjectId | null;
+  rejectedAt?: Date | null;
+  restoredBy?: Types.ObjectId | null;
+  restoredAt?: Date | null;
+  /* Integrity: SHA-256 of the bytes as uploaded */
+  sha256?: string | null;
+  integrityStatus?: IntegrityStatus;
+  integrityCheckedAt?: Date | null;
+  /* Previews: generated in the background after upload */
+  preview?: IEvidencePreview | null;
+  metadata?: IEvidenceMetadata | null;
+  /* Scanning: infected or password-protected files are quarantined */
+  scanStatus?: ScanStatus;
+  scanSignature?: string | null;
+  scanError?: string | null;
+  scanAttempts?: number;
+  scannedAt?: Date | null;
+  quarantinedAt?: Date | null;
+  /* Reporting period the file was submitted for, if any */
+  period?: Types.ObjectId | null;
 }
 
 export interface INote extends IAuditFields {
@@ -58,20 +176,112 @@ export interface IScoreHistory {
   submittedAt: Date;
 }
 
+export interface IStatusTransition {
+  from: IndicatorStatus;
+  to: IndicatorStatus;
+  changedBy?: Types.ObjectId | null;
+  changedAt: Date;
+  reason?: string;
+}
+
+export interface IReviewStage {
+  round: number;
+  stage: number;
+  requiredRole: "Admin" | "SuperAdmin";
+  reviewer: Types.ObjectId;
+  decision: "approved" | "rejected";
+  remarks?: string;
+  decidedAt: Date;
+}
+
+// One submission and the review it waits for, with its SLA deadline
+export interface IReviewRound {
+  round: number;
+  submittedAt: Date;
+  submittedBy?: Types.ObjectId | null;
+  slaDays?: number | null;
+  slaDueAt?: Date | null;
+  closedAt?: Date | null;
+  closedBy?: Types.ObjectId | null;
+  outcome?: IndicatorStatus | null;
+  slaBreached: boolean;
+  breachNotifiedAt?: Date | null;
+}
+
+export interface IMemberContribution {
+  user: Types.ObjectId;
+  weight: number;
+  completed: boolean;
+  completedAt?: Date | null;
+  lastSubmittedAt?: Date | null;
+  score?: number | null;
+  scoredBy?: Types.ObjectId | null;
+  scoredAt?: Date | null;
+}
+
+// Yes/no measures hold booleans, date measures hold dates
+export type MeasureValue = number | boolean | Date;
+
+export interface IMeasurement {
+  type: MeasureType;
+  // "lower" for measures where less is better (days taken, backlog)
+  direction: MeasureDirection;
+  baseline?: MeasureValue | null;
+  target: MeasureValue;
+  actual?: MeasureValue | null;
+  actualRecordedAt?: Date | null;
+  actualRecordedBy?: Types.ObjectId | null;
+}
+
+// One quarter or month of reporting, with its own submission and review
+export interface IReportingPeriod {
+  _id: Types.ObjectId;
+  key: string;
+  label: string;
+  startDate: Date;
+  endDate: Date;
+  dueDate: Date;
+  status: PeriodStatus;
+  submittedBy?: Types.ObjectId | null;
+  submittedAt?: Date | null;
+  submissionNote?: string;
+  submissionCount: number;
+  score?: number | null;
+  reviewedBy?: Types.ObjectId | null;
+  reviewedAt?: Date | null;
+  reviewRemarks?: string;
+  overdueAt?: Date | null;
+}
+
+export interface IFinalSnapshot {
+  status: IndicatorStatus;
+  progress: number;
+  result?: "pass" | "fail" | null;
+  score?: number | null;
+  capturedAt: Date;
+}
+
 export interface IEditHistory {
-  updatedBy: Types.ObjectId;
+  // null when the change was made by a background job
+  updatedBy: Types.ObjectId | null;
   updatedAt: Date;
   changes: Record<string, { old: any; new: any }>;
 }
 
 export interface IIndicator {
+  cycle?: Types.ObjectId | null;
   category: Types.ObjectId;
   level2Category: Types.ObjectId;
   indicatorTitle: string;
   unitOfMeasure: string;
+  measurement?: IMeasurement | null;
+  reportingFrequency: ReportingFrequency;
+  reportingPeriods: IReportingPeriod[];
   assignedToType: "individual" | "group";
   assignedTo?: Types.ObjectId | null;
   assignedGroup?: Types.ObjectId[];
+  groupRollup: GroupRollupRule;
+  memberContributions: IMemberContribution[];
   startDate: Date;
   dueDate: Date;
   nextDeadline?: Date;
@@ -80,6 +290,10 @@ export interface IIndicator {
   evidence: IEvidence[];
   editHistory: IEditHistory[];
   scoreHistory: IScoreHistory[];
+  statusHistory: IStatusTransition[];
+  reviewStages: IReviewStage[];
+  reviewRound: number;
+  reviewRounds: IReviewRound[];
   createdBy: Types.ObjectId;
   status: IndicatorStatus;
   rejectionCount: number;
@@ -88,6 +302,7 @@ export interface IIndicator {
   reviewedAt?: Date | null;
   reportData?: Record<string, unknown>;
   calendarEvent?: Record<string, unknown> | null;
+  finalSnapshot?: IFinalSnapshot | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -98,6 +313,37 @@ export type IndicatorDocument = HydratedDocument<IIndicator>;
    SUB-SCHEMAS
 ===================================================== */
 
+const evidencePreviewSchema = new Schema<IEvidencePreview>(
+  {
+    status: { type: String, enum: PREVIEW_STATUS, default: "pending" },
+    storageProvider: { type: String, enum: STORAGE_PROVIDERS, default: null },
+    publicId: { type: String, default: null },
+    resourceType: { type: String, enum: ["raw", "image", "video"] },
+    cloudinaryType: {
+      type: String,
+      enum: ["authenticated", "upload", null],
+      default: null,
+    },
+    format: { type: String, default: "png" },
+    width: { type: Number, default: null },
+    height: { type: Number, default: null },
+    generatedAt: { type: Date, default: null },
+    error: { type: String, default: null },
+  },
+  { _id: false },
+);
+
+const evidenceMetadataSchema = new Schema<IEvidenceMetadata>(
+  {
+    pageCount: { type: Number, default: null },
+    width: { type: Number, default: null },
+    height: { type: Number, default: null },
+    title: { type: String, default: null },
+    author: { type: String, default: null },
+  },
+  { _id: false },
+);
+
 const evidenceSchema = new Schema<IEvidence>(
   {
     type: { type: String, enum: ["file"], required: true },
@@ -105,16 +351,22 @@ const evidenceSchema = new Schema<IEvidence>(
     fileSize: { type: Number, required: true },
     mimeType: { type: String, required: true },
     description: { type: String, default: "" },
+    storageProvider: {
+      type: String,
+      enum: STORAGE_PROVIDERS,
+      default: "cloudinary",
+    },
     publicId: { type: String, required: true },
     resourceType: {
       type: String,
       enum: ["raw", "image", "video"],
       required: true,
     },
+    // Only set for files held on Cloudinary
     cloudinaryType: {
       type: String,
-      enum: ["authenticated", "upload"],
-      required: true,
+      enum: ["authenticated", "upload", null],
+      default: null,
     },
     format: { type: String, required: true },
     version: { type: Number, required: true, default: 1 },
@@ -125,6 +377,66 @@ const evidenceSchema = new Schema<IEvidence>(
     archivedAt: Date,
     uploadedAt: { type: Date, default: Date.now },
     uploadedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    slotId: { type: Schema.Types.ObjectId },
+    revision: { type: Number, default: 1 },
+    supersedes: { type: Schema.Types.ObjectId, default: null },
+    rejectionReason: { type: String, default: "" },
+    rejectedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    rejectedAt: { type: Date, default: null },
+    restoredBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    restoredAt: { type: Date, default: null },
+    sha256: { type: String, default: null },
+    integrityStatus: {
+      type: String,
+      enum: INTEGRITY_STATUS,
+      default: "unverified",
+    },
+    integrityCheckedAt: { type: Date, default: null },
+    preview: { type: evidencePreviewSchema, default: null },
+    metadata: { type: evidenceMetadataSchema, default: null },
+    scanStatus: { type: String, enum: SCAN_STATUS, default: "unscanned" },
+    scanSignature: { type: String, default: null },
+    scanError: { type: String, default: null },
+    scanAttempts: { type: Number, default: 0 },
+    scannedAt: { type: Date, default: null },
+    quarantinedAt: { type: Date, default: null },
+    period: { type: Schema.Types.ObjectId, default: null },
+  },
+  { _id: true },
+);
+
+const measurementSchema = new Schema<IMeasurement>(
+  {
+    type: { type: String, enum: MEASURE_TYPES, required: true },
+    direction: { type: String, enum: MEASURE_DIRECTIONS, default: "higher" },
+    // Typed by the measurement service; stored as given
+    baseline: { type: Schema.Types.Mixed, default: null },
+    target: { type: Schema.Types.Mixed, required: true },
+    actual: { type: Schema.Types.Mixed, default: null },
+    actualRecordedAt: { type: Date, default: null },
+    actualRecordedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+  },
+  { _id: false },
+);
+
+const reportingPeriodSchema = new Schema<IReportingPeriod>(
+  {
+    // "FY2025-Q1" or "2025-07"; stable across schedule rebuilds
+    key: { type: String, required: true },
+    label: { type: String, required: true },
+    startDate: { type: Date, required: true },
+    endDate: { type: Date, required: true },
+    dueDate: { type: Date, required: true },
+    status: { type: String, enum: PERIOD_STATUS, default: "pending" },
+    submittedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    submittedAt: { type: Date, default: null },
+    submissionNote: { type: String, default: "" },
+    submissionCount: { type: Number, default: 0 },
+    score: { type: Number, min: 0, max: 100, default: null },
+    reviewedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    reviewedAt: { type: Date, default: null },
+    reviewRemarks: { type: String, default: "" },
+    overdueAt: { type: Date, default: null },
   },
   { _id: true },
 );
@@ -144,6 +456,7 @@ const noteSchema = new Schema<INote>(
 
 const indicatorSchema = new Schema<IIndicator>(
   {
+    cycle: { type: Schema.Types.ObjectId, ref: "Cycle", default: null },
     category: { type: Schema.Types.ObjectId, ref: "Category", required: true },
     level2Category: {
       type: Schema.Types.ObjectId,
@@ -152,6 +465,13 @@ const indicatorSchema = new Schema<IIndicator>(
     },
     indicatorTitle: { type: String, required: true, trim: true },
     unitOfMeasure: { type: String, required: true },
+    measurement: { type: measurementSchema, default: null },
+    reportingFrequency: {
+      type: String,
+      enum: REPORTING_FREQUENCIES,
+      default: "none",
+    },
+    reportingPeriods: [reportingPeriodSchema],
     assignedToType: {
       type: String,
       enum: ["individual", "group"],
@@ -159,6 +479,22 @@ const indicatorSchema = new Schema<IIndicator>(
     },
     assignedTo: { type: Schema.Types.ObjectId, ref: "User", default: null },
     assignedGroup: [{ type: Schema.Types.ObjectId, ref: "User" }],
+    groupRollup: { type: String, enum: GROUP_ROLLUP_RULES, default: "all" },
+    memberContributions: [
+      new Schema(
+        {
+          user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+          weight: { type: Number, min: 0, default: 1 },
+          completed: { type: Boolean, default: false },
+          completedAt: { type: Date, default: null },
+          lastSubmittedAt: { type: Date, default: null },
+          score: { type: Number, min: 0, max: 100, default: null },
+          scoredBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+          scoredAt: { type: Date, default: null },
+        },
+        { _id: false },
+      ),
+    ],
     startDate: { type: Date, required: true },
     dueDate: { type: Date, required: true },
     nextDeadline: Date,
@@ -174,11 +510,7 @@ const indicatorSchema = new Schema<IIndicator>(
     editHistory: [
       new Schema(
         {
-          updatedBy: {
-            type: Schema.Types.ObjectId,
-            ref: "User",
-            required: true,
-          },
+          updatedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
           updatedAt: { type: Date, default: Date.now },
           changes: { type: Schema.Types.Mixed, required: true },
         },
@@ -199,6 +531,65 @@ const indicatorSchema = new Schema<IIndicator>(
         { _id: false },
       ),
     ],
+    statusHistory: [
+      new Schema(
+        {
+          from: { type: String, enum: INDICATOR_STATUS, required: true },
+          to: { type: String, enum: INDICATOR_STATUS, required: true },
+          // null when the change was made by a background job
+          changedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+          changedAt: { type: Date, default: Date.now },
+          reason: { type: String, default: "" },
+        },
+        { _id: false },
+      ),
+    ],
+    reviewStages: [
+      new Schema(
+        {
+          round: { type: Number, required: true },
+          stage: { type: Number, required: true },
+          requiredRole: {
+            type: String,
+            enum: ["Admin", "SuperAdmin"],
+            required: true,
+          },
+          reviewer: { type: Schema.Types.ObjectId, ref: "User", required: true },
+          decision: {
+            type: String,
+            enum: ["approved", "rejected"],
+            required: true,
+          },
+          remarks: { type: String, default: "" },
+          decidedAt: { type: Date, default: Date.now },
+        },
+        { _id: false },
+      ),
+    ],
+    // Incremented on every rejection so each submission is reviewed afresh
+    reviewRound: { type: Number, default: 0 },
+    // Opened on every move to "submitted", closed by the review outcome
+    reviewRounds: [
+      new Schema<IReviewRound>(
+        {
+          round: { type: Number, required: true },
+          submittedAt: { type: Date, required: true },
+          submittedBy: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+            default: null,
+          },
+          slaDays: { type: Number, default: null },
+          slaDueAt: { type: Date, default: null },
+          closedAt: { type: Date, default: null },
+          closedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+          outcome: { type: String, enum: INDICATOR_STATUS, default: null },
+          slaBreached: { type: Boolean, default: false },
+          breachNotifiedAt: { type: Date, default: null },
+        },
+        { _id: false },
+      ),
+    ],
     createdBy: { type: Schema.Types.ObjectId, ref: "User" },
     status: { type: String, enum: INDICATOR_STATUS, default: "pending" },
     rejectionCount: { type: Number, default: 0 },
@@ -207,6 +598,20 @@ const indicatorSchema = new Schema<IIndicator>(
     reviewedAt: { type: Date, default: null },
     reportData: { type: Schema.Types.Mixed, default: {} },
     calendarEvent: { type: Schema.Types.Mixed, default: null },
+    // Captured when the owning cycle is closed
+    finalSnapshot: {
+      type: new Schema<IFinalSnapshot>(
+        {
+          status: { type: String, enum: INDICATOR_STATUS },
+          progress: Number,
+          result: { type: String, enum: ["pass", "fail"], default: null },
+          score: { type: Number, default: null },
+          capturedAt: Date,
+        },
+        { _id: false },
+      ),
+      default: null,
+    },
   },
   { timestamps: true },
 );
@@ -216,6 +621,82 @@ const indicatorSchema = new Schema<IIndicator>(
 ===================================================== */
 
 indicatorSchema.index({ status: 1, dueDate: 1 });
+indicatorSchema.index({ cycle: 1, status: 1 });
+indicatorSchema.index({
+  "reviewRounds.closedAt": 1,
+  "reviewRounds.slaDueAt": 1,
+});
+indicatorSchema.index({
+  "reportingPeriods.status": 1,
+  "reportingPeriods.dueDate": 1,
+});
+
+/**
+ * Closed and archived cycles are frozen: no indicator inside them
+ * may be created, edited or deleted through a document save.
+ * Controllers also call this before storing files, so a frozen
+ * cycle does not leave uploads behind that the save then refuses.
+ */
+export const assertCycleOpen = async (cycleId?: Types.ObjectId | null) => {
+  if (!cycleId) return;
+  const cycle = await Cycle.findById(cycleId).select("name status").lean();
+  if (cycle && cycle.status !== "open") {
+    throw new ErrorHandler(
+      403,
+      `Cycle "${cycle.name}" is ${cycle.status}; its indicators are read-only`,
+    );
+  }
+};
+
+indicatorSchema.pre("save", async function () {
+  await assertCycleOpen(this.cycle);
+  // Moving an indicator out of a frozen cycle is an edit of that cycle
+  if (!this.isNew && this.isModified("cycle")) {
+    const stored = await this.$model()
+      .findById(this._id)
+      .select("cycle")
+      .lean<{ cycle?: Types.ObjectId | null }>();
+    await assertCycleOpen(stored?.cycle);
+  }
+});
+
+/**
+ * Working days allowed for a review: the level-2 objective's SLA, then
+ * the level-1 perspective's, then the configured default.
+ */
+const resolveReviewSlaDays = async (
+  indicator: Pick<IIndicator, "category" | "level2Category">,
+) => {
+  const [level2, main] = await Promise.all([
+    Category.findById(indicator.level2Category).select("reviewSlaDays").lean(),
+    Category.findById(indicator.category).select("reviewSlaDays").lean(),
+  ]);
+  return (
+    level2?.reviewSlaDays ?? main?.reviewSlaDays ?? env.REVIEW_SLA_WORKING_DAYS
+  );
+};
+
+// Rounds are opened synchronously on transition; the deadline is set here
+indicatorSchema.pre("save", async function () {
+  const unstamped = this.reviewRounds.filter((r) => !r.slaDueAt);
+  if (!unstamped.length) return;
+
+  const slaDays = await resolveReviewSlaDays(this);
+  unstamped.forEach((round) => {
+    round.slaDays = slaDays;
+    round.slaDueAt = addWorkingDays(round.submittedAt, slaDays);
+    if (round.closedAt && round.closedAt > round.slaDueAt)
+      round.slaBreached = true;
+  });
+});
+
+indicatorSchema.pre(
+  "deleteOne",
+  { document: true, query: false },
+  async function () {
+    await assertCycleOpen(this.cycle);
+  },
+);
 
 /**
  * Updated Middleware:
@@ -228,10 +709,67 @@ indicatorSchema.pre("save", async function () {
       if (!ev.uploadedBy) {
         ev.uploadedBy = (this.assignedTo as Types.ObjectId) || this.createdBy;
       }
+      // A first upload opens its own slot
+      if (!ev.slotId) ev.slotId = ev._id;
     });
   }
+
+  // Keep one contribution record per group member; groups saved before
+  // contributions were tracked get theirs on their next save
+  if (
+    this.assignedToType === "group" &&
+    (this.isNew ||
+      this.isModified("assignedGroup") ||
+      !this.memberContributions.length)
+  ) {
+    const members = (this.assignedGroup ?? []).map(String);
+    const existing = new Map(
+      this.memberContributions.map((c) => [String(c.user), c]),
+    );
+    const contributions: IMemberContribution[] = members.map(
+      (id) =>
+        existing.get(id) ?? {
+          user: new Types.ObjectId(id),
+          weight: 1,
+          completed: false,
+        },
+    );
+    this.set("memberContributions", contributions);
+  }
+
+  // Periods follow the frequency and the indicator's own dates
+  if (
+    this.isNew ||
+    this.isModified("reportingFrequency") ||
+    this.isModified("startDate") ||
+    this.isModified("dueDate")
+  ) {
+    this.set(
+      "reportingPeriods",
+      mergeReportingPeriods(
+        this.reportingPeriods,
+        buildPeriodSchedule(
+          this.reportingFrequency,
+          this.startDate,
+          this.dueDate,
+        ),
+      ),
+    );
+  }
 });
 
+// Any write may move the dashboard figures; cached analytics start over
+const dropCachedAnalytics = () => {
+  void invalidateAnalytics();
+};
+indicatorSchema.post("save", dropCachedAnalytics);
+indicatorSchema.post(
+  ["updateOne", "updateMany", "findOneAndUpdate", "deleteOne", "deleteMany"],
+  { document: true, query: true },
+  dropCachedAnalytics,
+);
+indicatorSchema.post("bulkWrite", dropCachedAnalytics);
+
 export const Indicator: Model<IIndicator> =
   mongoose.models.Indicator ||
   mongoose.model<IIndicator>("Indicator", indicatorSchema);
@@ -0,0 +1,73 @@
+import mongoose, { Schema, Model, Types } from "mongoose";
+
+/* =====================================================
+   TYPES
+   Materialised scores for one level-2 objective in one
+   cycle. A score change only rebuilds the objective it
+   belongs to; weights are applied when the summary is
+   read, so changing a weight needs no recompute.
+===================================================== */
+
+export interface IMemberScore {
+  user: Types.ObjectId;
+  score: number;
+}
+
+export interface IIndicatorScore {
+  indicator: Types.ObjectId;
+  indicatorTitle: string;
+  score: number;
+  // Everyone the indicator counts towards, with their own score
+  members: IMemberScore[];
+}
+
+export interface IObjectiveScore {
+  cycle: Types.ObjectId | null;
+  category: Types.ObjectId;
+  level2Category: Types.ObjectId;
+  indicators: IIndicatorScore[];
+  computedAt: Date;
+}
+
+/* =====================================================
+   SCHEMA
+===================================================== */
+
+const objectiveScoreSchema = new Schema<IObjectiveScore>(
+  {
+    cycle: { type: Schema.Types.ObjectId, ref: "Cycle", default: null },
+    category: { type: Schema.Types.ObjectId, ref: "Category", required: true },
+    level2Category: {
+      type: Schema.Types.ObjectId,
+      ref: "Category",
+      required: true,
+    },
+    indicators: [
+      new Schema<IIndicatorScore>(
+        {
+          indicator: { type: Schema.Types.ObjectId, ref: "Indicator" },
+          indicatorTitle: { type: String, default: "" },
+          score: { type: Number, min: 0, max: 100, default: 0 },
+          members: [
+            new Schema<IMemberScore>(
+              {
+                user: { type: Schema.Types.ObjectId, ref: "User" },
+                score: { type: Number, min: 0, max: 100, default: 0 },
+              },
+              { _id: false },
+            ),
+          ],
+        },
+        { _id: false },
+      ),
+    ],
+    computedAt: { type: Date, default: Date.now },
+  },
+  { versionKey: false },
+);
+
+objectiveScoreSchema.index({ cycle: 1, level2Category: 1 }, { unique: true });
+
+export const ObjectiveScore: Model<IObjectiveScore> =
+  mongoose.models.ObjectiveScore ||
+  mongoose.model<IObjectiveScore>("ObjectiveScore", objectiveScoreSchema);
@@ -0,0 +1,44 @@
+import mongoose, { Schema, Model, Types } from "mongoose";
+
+export interface IReminderLog {
+  indicator: Types.ObjectId;
+  recipient: Types.ObjectId;
+  // e.g. "step:-7", "step:0", "repeat:2", "escalation:3"
+  stepKey: string;
+  kind: "reminder" | "escalation";
+  daysFromDeadline: number;
+  deadline: Date;
+  sentAt: Date;
+}
+
+const reminderLogSchema = new Schema<IReminderLog>(
+  {
+    indicator: {
+      type: Schema.Types.ObjectId,
+      ref: "Indicator",
+      required: true,
+      index: true,
+    },
+    recipient: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    stepKey: { type: String, required: true },
+    kind: {
+      type: String,
+      enum: ["reminder", "escalation"],
+      default: "reminder",
+    },
+    daysFromDeadline: { type: Number, required: true },
+    deadline: { type: Date, required: true },
+    sentAt: { type: Date, default: Date.now },
+  },
+  { versionKey: false },
+);
+
+// One reminder per recipient per step and deadline — the de-duplication guard
+reminderLogSchema.index(
+  { indicator: 1, recipient: 1, stepKey: 1, deadline: 1 },
+  { unique: true },
+);
+
+export const ReminderLog: Model<IReminderLog> =
+  mongoose.models.ReminderLog ||
+  mongoose.model<IReminderLog>("ReminderLog", reminderLogSchema);
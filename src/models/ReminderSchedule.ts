@@ -0,0 +1,71 @@
+import mongoose, { Schema, Model, Types } from "mongoose";
+
+/* =====================================================
+   INTERFACES
+===================================================== */
+
+export interface IReminderStep {
+  label: string;
+  // Days relative to the deadline: negative = before, 0 = on the day
+  offsetDays: number;
+}
+
+export interface IReminderSchedule {
+  name: string;
+  steps: IReminderStep[];
+  // Keep reminding every N days after the last step (0 = stop)
+  repeatEveryDays: number;
+  // Escalate to the assigning admin after N overdue reminders
+  escalateAfterMisses: number;
+  isActive: boolean;
+  updatedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/* =====================================================
+   DEFAULTS
+===================================================== */
+
+export const DEFAULT_REMINDER_SCHEDULE: Pick<
+  IReminderSchedule,
+  "name" | "steps" | "repeatEveryDays" | "escalateAfterMisses" | "isActive"
+> = {
+  name: "Default",
+  steps: [
+    { label: "7 days before due", offsetDays: -7 },
+    { label: "On due date", offsetDays: 0 },
+    { label: "3 days overdue", offsetDays: 3 },
+  ],
+  repeatEveryDays: 7,
+  escalateAfterMisses: 3,
+  isActive: true,
+};
+
+/* =====================================================
+   SCHEMA
+===================================================== */
+
+const reminderScheduleSchema = new Schema<IReminderSchedule>(
+  {
+    name: { type: String, required: true, trim: true, unique: true },
+    steps: [
+      new Schema<IReminderStep>(
+        {
+          label: { type: String, required: true, trim: true },
+          offsetDays: { type: Number, required: true },
+        },
+        { _id: false },
+      ),
+    ],
+    repeatEveryDays: { type: Number, min: 0, default: 7 },
+    escalateAfterMisses: { type: Number, min: 1, default: 3 },
+    isActive: { type: Boolean, default: true },
+    updatedBy: { type: Schema.Types.ObjectId, ref: "User" },
+  },
+  { timestamps: true },
+);
+
+export const ReminderSchedule: Model<IReminderSchedule> =
+  mongoose.models.ReminderSchedule ||
+  mongoose.model<IReminderSchedule>("ReminderSchedule", reminderScheduleSchema);
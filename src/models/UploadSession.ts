@@ -0,0 +1,112 @@
+import mongoose, { Schema, Model, Types, HydratedDocument } from "mongoose";
+import { STORAGE_PROVIDERS, StorageProvider } from "../services/storage/types";
+
+/* =====================================================
+   TYPES
+   A resumable upload: chunks land in UPLOAD_TMP_DIR until
+   the client completes it, then the file is streamed to
+   the storage backend and waits to be attached to a
+   submission.
+===================================================== */
+
+export const UPLOAD_SESSION_STATUS = [
+  "active",
+  "completing",
+  "completed",
+  "attached",
+  "aborted",
+] as const;
+export type UploadSessionStatus = (typeof UPLOAD_SESSION_STATUS)[number];
+
+export interface IUploadedObject {
+  provider: StorageProvider;
+  key: string;
+  resourceType: "raw" | "image" | "video";
+  format: string;
+  cloudinaryType?: "authenticated" | "upload" | null;
+  version?: number | null;
+  sha256: string;
+}
+
+export interface IUploadSession {
+  indicator: Types.ObjectId;
+  uploadedBy: Types.ObjectId;
+  fileName: string;
+  mimeType: string;
+  totalSize: number;
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: number[];
+  description: string;
+  status: UploadSessionStatus;
+  stored?: IUploadedObject | null;
+  evidenceId?: Types.ObjectId | null;
+  expiresAt: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export type UploadSessionDocument = HydratedDocument<IUploadSession>;
+
+/* =====================================================
+   SCHEMA
+===================================================== */
+
+const uploadedObjectSchema = new Schema<IUploadedObject>(
+  {
+    provider: { type: String, enum: STORAGE_PROVIDERS, required: true },
+    key: { type: String, required: true },
+    resourceType: {
+      type: String,
+      enum: ["raw", "image", "video"],
+      required: true,
+    },
+    format: { type: String, default: "" },
+    cloudinaryType: {
+      type: String,
+      enum: ["authenticated", "upload", null],
+      default: null,
+    },
+    version: { type: Number, default: null },
+    sha256: { type: String, required: true },
+  },
+  { _id: false },
+);
+
+const uploadSessionSchema = new Schema<IUploadSession>(
+  {
+    indicator: {
+      type: Schema.Types.ObjectId,
+      ref: "Indicator",
+      required: true,
+      index: true,
+    },
+    uploadedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    fileName: { type: String, required: true, trim: true },
+    mimeType: { type: String, required: true },
+    totalSize: { type: Number, required: true, min: 1 },
+    chunkSize: { type: Number, required: true, min: 1 },
+    totalChunks: { type: Number, required: true, min: 1 },
+    receivedChunks: { type: [Number], default: [] },
+    description: { type: String, default: "" },
+    status: {
+      type: String,
+      enum: UPLOAD_SESSION_STATUS,
+      default: "active",
+      index: true,
+    },
+    stored: { type: uploadedObjectSchema, default: null },
+    evidenceId: { type: Schema.Types.ObjectId, default: null },
+    expiresAt: { type: Date, required: true, index: true },
+  },
+  { timestamps: true, versionKey: false },
+);
+
+export const UploadSession: Model<IUploadSession> =
+  mongoose.models.UploadSession ||
+  mongoose.model<IUploadSession>("UploadSession", uploadSessionSchema);
@@ -12,6 +12,8 @@ export interface IUser {
   email: string;
   pjNumber: string;
   role: Role;
+  // Court station the user reports from; groups scores by station
+  station?: string;
 
   /* Account state */
   accountVerified: boolean;
@@ -94,6 +96,13 @@ const userSchema = new Schema<
       default: "User",
     },
 
+    station: {
+      type: String,
+      trim: true,
+      default: "",
+      index: true,
+    },
+
     accountVerified: {
       type: Boolean,
       default: false,
@@ -1,6 +1,11 @@
 // src/routes/adminRoutes.ts
 import express from "express";
 import { getLiveActivityFeed, clearActivityFeed, getOnlineUsers } from "../controllers/adminController";
+import {
+  startIntegrityRun,
+  getIntegrityRuns,
+  getIntegrityRunById,
+} from "../controllers/evidenceIntegrityController";
 import { isAuthenticated, isAuthorized } from "../middleware/auth";
 
 const router = express.Router();
@@ -21,5 +26,26 @@ router.route("/activity-feed/clear")
   getOnlineUsers
 );
 
+// Evidence integrity: re-hash every stored file and report tampering
+router.post(
+  "/evidence-integrity/verify",
+  isAuthenticated,
+  isAuthorized("SuperAdmin"),
+  startIntegrityRun,
+);
+
+router.get(
+  "/evidence-integrity/runs",
+  isAuthenticated,
+  isAuthorized("SuperAdmin"),
+  getIntegrityRuns,
+);
+
+router.get(
+  "/evidence-integrity/runs/:id",
+  isAuthenticated,
+  isAuthorized("SuperAdmin"),
+  getIntegrityRunById,
+);
 
 export default router;
\ No newline at end of file
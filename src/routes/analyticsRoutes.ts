@@ -0,0 +1,30 @@
+import express from "express";
+import {
+  getAnalyticsOverview,
+  getReviewerReport,
+} from "../controllers/analyticsController";
+import { isAuthenticated, isAuthorized } from "../middleware/auth";
+
+const router = express.Router();
+
+/* ================================================
+   EXECUTIVE DASHBOARD
+   ================================================ */
+
+// ?cycle=<id>|current narrows the figures; ?months sets the trend window
+router.get(
+  "/overview",
+  isAuthenticated,
+  isAuthorized("admin", "superadmin"),
+  getAnalyticsOverview,
+);
+
+// Per-reviewer decisions and turnaround, open queue, SLA compliance
+router.get(
+  "/reviewers",
+  isAuthenticated,
+  isAuthorized("admin", "superadmin"),
+  getReviewerReport,
+);
+
+export default router;
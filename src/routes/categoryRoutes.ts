@@ -6,6 +6,9 @@ import {
   updateCategory,
   deleteCategory,
   getCategoryHierarchy,
+  updateCategoryReviewChain,
+  updateCategoryWeight,
+  updateCategoryReviewSla,
 } from "../controllers/categoryController";
 import { isAuthenticated, isAuthorized } from "../middleware/auth";
 
@@ -58,6 +61,30 @@ router.put(
   updateCategory
 );
 
+// Configure the review sign-off chain
+router.put(
+  "/:id/review-chain",
+  isAuthenticated,
+  isAuthorized("superAdmin"),
+  updateCategoryReviewChain
+);
+
+// Working days allowed for each review round
+router.put(
+  "/:id/review-sla",
+  isAuthenticated,
+  isAuthorized("superAdmin"),
+  updateCategoryReviewSla
+);
+
+// Weight among siblings in the score rollup (0 leaves it out)
+router.put(
+  "/:id/weight",
+  isAuthenticated,
+  isAuthorized("superAdmin"),
+  updateCategoryWeight
+);
+
 // Delete a category
 router.delete(
   "/delete/:id",
@@ -0,0 +1,50 @@
+import express from "express";
+import {
+  createCycle,
+  getCycles,
+  getCycleById,
+  updateCycle,
+  closeCycleById,
+  archiveCycle,
+  rollForwardIntoCycle,
+} from "../controllers/cycleController";
+import { isAuthenticated, isAuthorized } from "../middleware/auth";
+
+const router = express.Router();
+
+/* ================================================
+   PERFORMANCE CYCLES
+   ================================================ */
+
+router.get("/", isAuthenticated, getCycles);
+
+router.get("/:id", isAuthenticated, getCycleById);
+
+router.post("/", isAuthenticated, isAuthorized("superadmin"), createCycle);
+
+router.put("/:id", isAuthenticated, isAuthorized("superadmin"), updateCycle);
+
+// Freezes every indicator in the cycle and snapshots final scores
+router.post(
+  "/:id/close",
+  isAuthenticated,
+  isAuthorized("superadmin"),
+  closeCycleById,
+);
+
+router.post(
+  "/:id/archive",
+  isAuthenticated,
+  isAuthorized("superadmin"),
+  archiveCycle,
+);
+
+// Clones indicators into this cycle; ?dryRun=true returns the preview only
+router.post(
+  "/:id/roll-forward",
+  isAuthenticated,
+  isAuthorized("superadmin"),
+  rollForwardIntoCycle,
+);
+
+export default router;
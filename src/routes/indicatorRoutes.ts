@@ -12,7 +12,7 @@ import {
   getSubmittedIndicators,
   updateIndicatorProgress,
   adminSubmitIndicatorEvidence,
-  proxyEvidenceStream,
+  streamEvidence,
   resubmitIndicatorEvidence,
   submitIndicatorScore,
   deleteSingleEvidence,
@@ -20,9 +20,30 @@ import {
   remindOverdueIndicators,
   rejectSingleEvidence,
   addIndicatorNote,
+  getIndicatorTransitions,
+  getIndicatorMembers,
+  updateIndicatorMember,
+  importIndicators,
+  getEvidenceVersionHistory,
+  restoreEvidenceVersionById,
+  downloadIndicatorEvidenceArchive,
+  downloadCategoryEvidenceArchive,
+  getEvidenceThumbnail,
+  updateIndicatorMeasurement,
+  recordIndicatorActual,
+  getIndicatorPeriods,
+  submitIndicatorPeriod,
+  reviewIndicatorPeriod,
 } from "../controllers/indicatorController";
+import {
+  initUpload,
+  getUploadStatus,
+  uploadChunk,
+  completeUpload,
+  abortUpload,
+} from "../controllers/uploadController";
 import { isAuthenticated, isAuthorized } from "../middleware/auth";
-import { upload } from "../middleware/multer";
+import { upload, spreadsheetUpload } from "../middleware/multer";
 
 const router = express.Router();
 
@@ -46,6 +67,14 @@ router.get(
   getAllIndicators,
 );
 
+// Zip of every indicator's evidence under a level 1/2 category
+router.get(
+  "/category/:categoryId/evidence/archive",
+  isAuthenticated,
+  isAuthorized("superadmin", "admin"),
+  downloadCategoryEvidenceArchive,
+);
+
 /* ================================================
    2. CORE CRUD & ACTION ROUTES
    ================================================ */
@@ -57,8 +86,20 @@ router.post(
   createIndicator,
 );
 
+// Bulk create from CSV/XLSX (?dryRun=true validates only)
+router.post(
+  "/import",
+  isAuthenticated,
+  isAuthorized("superadmin"),
+  spreadsheetUpload.single("file"),
+  importIndicators,
+);
+
 router.get("/get/:id", isAuthenticated, getIndicatorById);
 
+// Status moves currently allowed for the caller's role
+router.get("/:id/transitions", isAuthenticated, getIndicatorTransitions);
+
 router.put(
   "/update/:id",
   isAuthenticated,
@@ -93,6 +134,22 @@ router.post(
   resubmitIndicatorEvidence,
 );
 
+// Resumable chunked uploads for large files; completed uploads are
+// attached by passing their ids as uploadIds to submit/resubmit
+router.post("/:id/uploads", isAuthenticated, initUpload);
+router.get("/:id/uploads/:uploadId", isAuthenticated, getUploadStatus);
+router.put(
+  "/:id/uploads/:uploadId/chunks/:index",
+  isAuthenticated,
+  uploadChunk,
+);
+router.post(
+  "/:id/uploads/:uploadId/complete",
+  isAuthenticated,
+  completeUpload,
+);
+router.delete("/:id/uploads/:uploadId", isAuthenticated, abortUpload);
+
 // Admin Direct Upload (Auto-approve)
 router.post(
   "/:id/admin-submit",
@@ -117,6 +174,69 @@ router.patch(
   updateEvidenceDescription,
 );
 
+// Zip of the indicator's evidence with manifest.csv
+router.get(
+  "/:id/evidence/archive",
+  isAuthenticated,
+  downloadIndicatorEvidenceArchive,
+);
+
+// Version chain of the slot this evidence belongs to
+router.get(
+  "/:id/evidence/:evidenceId/history",
+  isAuthenticated,
+  getEvidenceVersionHistory,
+);
+
+// File contents; honours Range, ?download=1 saves under the original name
+router.get(
+  "/:id/evidence/:evidenceId/stream",
+  isAuthenticated,
+  streamEvidence,
+);
+
+// PNG preview (PDF first page or downscaled image)
+router.get(
+  "/:id/evidence/:evidenceId/thumbnail",
+  isAuthenticated,
+  getEvidenceThumbnail,
+);
+
+// Make an earlier version the current one again
+router.post(
+  "/:id/evidence/:evidenceId/restore",
+  isAuthenticated,
+  isAuthorized("admin", "superadmin"),
+  restoreEvidenceVersionById,
+);
+
+// Group member contributions
+router.get("/:id/members", isAuthenticated, getIndicatorMembers);
+
+router.patch(
+  "/:id/members/:userId",
+  isAuthenticated,
+  isAuthorized("admin", "superadmin"),
+  updateIndicatorMember,
+);
+
+// Quarterly / monthly reporting: one submission and review per period
+router.get("/:id/periods", isAuthenticated, getIndicatorPeriods);
+
+router.post(
+  "/:id/periods/:periodId/submit",
+  isAuthenticated,
+  upload.array("files", 100),
+  submitIndicatorPeriod,
+);
+
+router.put(
+  "/:id/periods/:periodId/review",
+  isAuthenticated,
+  isAuthorized("admin", "superadmin"),
+  reviewIndicatorPeriod,
+);
+
 /* ================================================
    4. REVIEW & SCORING
    ================================================ */
@@ -142,6 +262,18 @@ router.patch(
   updateIndicatorProgress,
 );
 
+// Baseline and target; progress is derived from actuals against them
+router.put(
+  "/:id/measurement",
+  isAuthenticated,
+  isAuthorized("admin", "superadmin"),
+  updateIndicatorMeasurement,
+);
+
+// Assignees report what was achieved; progress follows on approval, or
+// at once when a reviewer records it
+router.put("/:id/actual", isAuthenticated, recordIndicatorActual);
+
 router.post(
   "/submit-score/:id",
   isAuthenticated,
@@ -150,15 +282,9 @@ router.post(
 );
 
 /* ================================================
-   5. UTILITY / PROXY
+   5. UTILITY
    ================================================ */
 
-router.get(
-  "/:id/proxy-evidence", // Changed :indicatorId to :id for consistency
-  isAuthenticated,
-  proxyEvidenceStream,
-);
-
 /**
  * @route   POST /api/v1/indicators/admin/remind-overdue
  * @desc    Broadcast reminder emails to all users with overdue tasks
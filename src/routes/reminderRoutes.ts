@@ -0,0 +1,40 @@
+import express from "express";
+import {
+  getReminderSchedule,
+  updateReminderSchedule,
+  getIndicatorReminderLog,
+} from "../controllers/reminderController";
+import { isAuthenticated, isAuthorized } from "../middleware/auth";
+
+const router = express.Router();
+
+/* ================================================
+   REMINDER SCHEDULE
+   ================================================ */
+
+router.get(
+  "/schedule",
+  isAuthenticated,
+  isAuthorized("admin", "superadmin"),
+  getReminderSchedule,
+);
+
+router.put(
+  "/schedule",
+  isAuthenticated,
+  isAuthorized("superadmin"),
+  updateReminderSchedule,
+);
+
+/* ================================================
+   REMINDER LOG
+   ================================================ */
+
+router.get(
+  "/indicator/:id",
+  isAuthenticated,
+  isAuthorized("admin", "superadmin"),
+  getIndicatorReminderLog,
+);
+
+export default router;
@@ -4,6 +4,11 @@ import {
   getReportPdf,
   getReportHtmlById,
   getReportPdfById,
+  getPeriodTrend,
+  getReportCsv,
+  getReportXlsx,
+  getReportCsvById,
+  getReportXlsxById,
 } from "../controllers/reportsController";
 import { isAuthenticated, isAuthorized } from "../middleware/auth";
 
@@ -37,12 +42,31 @@ router.get(
   getReportHtml
 );
 
+/**
+ * @desc Export Global Reports for spreadsheets (CSV / XLSX)
+ * @access Private (Admin, SuperAdmin)
+ */
+router.get(
+  "/admin/get/csv",
+  isAuthenticated,
+  isAuthorized("Admin", "SuperAdmin"),
+  getReportCsv
+);
+router.get(
+  "/admin/get/xlsx",
+  isAuthenticated,
+  isAuthorized("Admin", "SuperAdmin"),
+  getReportXlsx
+);
+
 /* ============================================================
    STANDARD USER ROUTES (Self-Access Only)
 ============================================================ */
 
 router.get("/userpdf/pdf", isAuthenticated, getReportPdf);
 router.get("/userhtml/html", isAuthenticated, getReportHtml);
+router.get("/usercsv/csv", isAuthenticated, getReportCsv);
+router.get("/userxlsx/xlsx", isAuthenticated, getReportXlsx);
 
 /* ============================================================
    INDICATOR-SPECIFIC REPORTS (By ID)
@@ -50,6 +74,14 @@ router.get("/userhtml/html", isAuthenticated, getReportHtml);
 
 router.get("/getpdf/pdf/:id", isAuthenticated, getReportPdfById);
 router.get("/gethtml/html/:id", isAuthenticated, getReportHtmlById);
+router.get("/getcsv/csv/:id", isAuthenticated, getReportCsvById);
+router.get("/getxlsx/xlsx/:id", isAuthenticated, getReportXlsxById);
+
+/* ============================================================
+   PERIOD TREND (quarter-over-quarter, ?frequency=monthly)
+============================================================ */
+
+router.get("/trend", isAuthenticated, getPeriodTrend);
 
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,14 @@
+import express from "express";
+import { getScoreSummary } from "../controllers/scoreController";
+import { isAuthenticated } from "../middleware/auth";
+
+const router = express.Router();
+
+/* ================================================
+   WEIGHTED SCORES
+   ================================================ */
+
+// ?cycle=<id>|current narrows the summary to one performance cycle
+router.get("/summary", isAuthenticated, getScoreSummary);
+
+export default router;
@@ -0,0 +1,14 @@
+import express from "express";
+import { search } from "../controllers/searchController";
+import { isAuthenticated } from "../middleware/auth";
+
+const router = express.Router();
+
+/* ================================================
+   GLOBAL SEARCH
+   ================================================ */
+
+// Results are limited to what the caller is allowed to see
+router.get("/", isAuthenticated, search);
+
+export default router;
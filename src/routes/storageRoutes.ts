@@ -0,0 +1,13 @@
+import express from "express";
+import { serveLocalFile } from "../controllers/storageController";
+
+const router = express.Router();
+
+/* ================================================
+   LOCAL STORAGE SIGNED DOWNLOADS
+   ================================================ */
+
+// No session required: access is granted by the URL signature
+router.get("/files", serveLocalFile);
+
+export default router;
@@ -4,6 +4,8 @@ import { connectDB } from "./config/db";
 import { connectRedis } from "./config/redis"; // Import your helper
 import { env } from "./config/env";
 import { initSocket } from "./sockets/socket";
+import { startJobs } from "./jobs";
+import { failAbandonedIntegrityRuns } from "./jobs/evidenceIntegrity.job";
 
 const PORT = Number(env.PORT);
 
@@ -16,6 +18,9 @@ const startServer = async () => {
   try {
     await connectDB();
     await connectRedis(); // Connect Redis here
+    // Runs interrupted by the last shutdown would block new ones
+    await failAbandonedIntegrityRuns({ atStartup: true });
+    startJobs();
     
     server.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
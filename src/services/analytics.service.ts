@@ -0,0 +1,628 @@
+import { Types } from "mongoose";
+import { Category } from "../models/Category";
+import {
+  INDICATOR_STATUS,
+  Indicator,
+  IndicatorStatus,
+} from "../models/Indicator";
+import { User } from "../models/User";
+
+/* =====================================================
+   EXECUTIVE OVERVIEW
+   Every figure is computed in MongoDB so the dashboard
+   never has to download indicators. Results are cached
+   by the caller; see analyticsCache.service.
+===================================================== */
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Status changes plotted month by month alongside new indicators
+const TREND_EVENTS = ["submitted", "completed", "rejected", "overdue"] as const;
+
+type Match = Record<string, unknown>;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const percentOf = (part: unknown, whole: unknown) => ({
+  $cond: [
+    { $gt: [whole, 0] },
+    { $round: [{ $multiply: [{ $divide: [part, whole] }, 100] }, 1] },
+    null,
+  ],
+});
+
+const lookupCategory = [
+  {
+    $lookup: {
+      from: Category.collection.name,
+      localField: "_id",
+      foreignField: "_id",
+      as: "node",
+    },
+  },
+  { $unwind: { path: "$node", preserveNullAndEmptyArrays: true } },
+];
+
+/* =====================================================
+   BUILDING BLOCKS
+===================================================== */
+
+const countByStatus = async (match: Match) => {
+  const rows = await Indicator.aggregate<{
+    _id: IndicatorStatus;
+    count: number;
+  }>([{ $match: match }, { $group: { _id: "$status", count: { $sum: 1 } } }]);
+
+  const byStatus = Object.fromEntries(
+    INDICATOR_STATUS.map((status) => [status, 0]),
+  ) as Record<IndicatorStatus, number>;
+  rows.forEach((r) => (byStatus[r._id] = r.count));
+
+  return {
+    total: rows.reduce((sum, r) => sum + r.count, 0),
+    byStatus,
+  };
+};
+
+// Completed means signed off by the whole review chain
+const completionBy = (match: Match, field: "category" | "level2Category") =>
+  Indicator.aggregate([
+    { $match: match },
+    {
+      $group: {
+        _id: `$${field}`,
+        total: { $sum: 1 },
+        completed: {
+          $sum: { $cond: [{ $eq: ["$status", "completed"] }, 1, 0] },
+        },
+        averageProgress: { $avg: "$progress" },
+      },
+    },
+    ...lookupCategory,
+    {
+      $project: {
+        _id: 0,
+        categoryId: "$_id",
+        parentId: "$node.parent",
+        code: "$node.code",
+        title: "$node.title",
+        total: 1,
+        completed: 1,
+        completionRate: percentOf("$completed", "$total"),
+        averageProgress: { $round: ["$averageProgress", 1] },
+      },
+    },
+    { $sort: { code: 1 } },
+  ]);
+
+const topOverdueAssignees = (match: Match, limit: number) =>
+  Indicator.aggregate([
+    { $match: { ...match, status: "overdue" } },
+    {
+      $project: {
+        assignees: {
+          $setUnion: [
+            {
+              $cond: [{ $ifNull: ["$assignedTo", false] }, ["$assignedTo"], []],
+            },
+            { $ifNull: ["$assignedGroup", []] },
+          ],
+        },
+      },
+    },
+    { $unwind: "$assignees" },
+    { $group: { _id: "$assignees", overdue: { $sum: 1 } } },
+    { $sort: { overdue: -1, _id: 1 } },
+    { $limit: limit },
+    {
+      $lookup: {
+        from: User.collection.name,
+        localField: "_id",
+        foreignField: "_id",
+        as: "user",
+      },
+    },
+    { $unwind: { path: "$user", preserveNullAndEmptyArrays: true } },
+    {
+      $project: {
+        _id: 0,
+        userId: "$_id",
+        name: "$user.name",
+        pjNumber: "$user.pjNumber",
+        station: "$user.station",
+        overdue: 1,
+      },
+    },
+  ]);
+
+/**
+ * Time from the last submission before a review to that review, over
+ * every indicator that has been reviewed.
+ */
+const reviewTurnaround = async (match: Match) => {
+  const [row] = await Indicator.aggregate<{
+    reviewed: number;
+    averageHours: number;
+    fastestHours: number;
+    slowestHours: number;
+  }>([
+    { $match: { ...match, reviewedAt: { $ne: null } } },
+    {
+      $project: {
+        reviewedAt: 1,
+        submittedAt: {
+          $max: {
+            $map: {
+              input: {
+                $filter: {
+                  input: { $ifNull: ["$statusHistory", []] },
+                  as: "h",
+                  cond: {
+                    $and: [
+                      { $eq: ["$$h.to", "submitted"] },
+                      { $lte: ["$$h.changedAt", "$reviewedAt"] },
+                    ],
+                  },
+                },
+              },
+              as: "h",
+              in: "$$h.changedAt",
+            },
+          },
+        },
+      },
+    },
+    { $match: { submittedAt: { $ne: null } } },
+    {
+      $project: {
+        hours: {
+          $divide: [{ $subtract: ["$reviewedAt", "$submittedAt"] }, HOUR_MS],
+        },
+      },
+    },
+    {
+      $group: {
+        _id: null,
+        reviewed: { $sum: 1 },
+        averageHours: { $avg: "$hours" },
+        fastestHours: { $min: "$hours" },
+        slowestHours: { $max: "$hours" },
+      },
+    },
+  ]);
+
+  if (!row)
+    return {
+      reviewed: 0,
+      averageHours: null,
+      averageDays: null,
+      fastestHours: null,
+      slowestHours: null,
+    };
+  return {
+    reviewed: row.reviewed,
+    averageHours: round1(row.averageHours),
+    averageDays: round1(row.averageHours / 24),
+    fastestHours: round1(row.fastestHours),
+    slowestHours: round1(row.slowestHours),
+  };
+};
+
+// Rejections as a share of submissions, per level-1 category
+const rejectionRates = (match: Match) =>
+  Indicator.aggregate([
+    { $match: match },
+    {
+      $project: {
+        category: 1,
+        rejectionCount: { $ifNull: ["$rejectionCount", 0] },
+        submissions: {
+          $size: {
+            $filter: {
+              input: { $ifNull: ["$statusHistory", []] },
+              as: "h",
+              cond: { $eq: ["$$h.to", "submitted"] },
+            },
+          },
+        },
+      },
+    },
+    {
+      $group: {
+        _id: "$category",
+        indicators: { $sum: 1 },
+        submissions: { $sum: "$submissions" },
+        rejections: { $sum: "$rejectionCount" },
+        rejectedIndicators: {
+          $sum: { $cond: [{ $gt: ["$rejectionCount", 0] }, 1, 0] },
+        },
+      },
+    },
+    ...lookupCategory,
+    {
+      $project: {
+        _id: 0,
+        categoryId: "$_id",
+        code: "$node.code",
+        title: "$node.title",
+        indicators: 1,
+        submissions: 1,
+        rejections: 1,
+        rejectedIndicators: 1,
+        rejectionRate: percentOf("$rejections", "$submissions"),
+      },
+    },
+    { $sort: { code: 1 } },
+  ]);
+
+const monthKey = (date: Date) => date.toISOString().slice(0, 7);
+
+/**
+ * Indicators created and status changes made per calendar month (UTC)
+ * over the last `months` months, oldest first.
+ */
+const monthlyTrends = async (match: Match, months: number, now: Date) => {
+  const since = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - months + 1, 1),
+  );
+
+  const rows = await Indicator.aggregate<{
+    _id: { month: string; type: string };
+    count: number;
+  }>([
+    { $match: match },
+    {
+      $project: {
+        events: {
+          $concatArrays: [
+            [{ type: "created", at: "$createdAt" }],
+            {
+              $map: {
+                input: {
+                  $filter: {
+                    input: { $ifNull: ["$statusHistory", []] },
+                    as: "h",
+                    cond: { $in: ["$$h.to", TREND_EVENTS] },
+                  },
+                },
+                as: "h",
+                in: { type: "$$h.to", at: "$$h.changedAt" },
+              },
+            },
+          ],
+        },
+      },
+    },
+    { $unwind: "$events" },
+    { $match: { "events.at": { $gte: since } } },
+    {
+      $group: {
+        _id: {
+          month: {
+            $dateToString: { format: "%Y-%m", date: "$events.at" },
+          },
+          type: "$events.type",
+        },
+        count: { $sum: 1 },
+      },
+    },
+  ]);
+
+  const counts = new Map(
+    rows.map((r) => [`${r._id.month}:${r._id.type}`, r.count]),
+  );
+  return Array.from({ length: months }, (_, i) => {
+    const month = monthKey(
+      new Date(Date.UTC(since.getUTCFullYear(), since.getUTCMonth() + i, 1)),
+    );
+    return {
+      month,
+      created: counts.get(`${month}:created`) ?? 0,
+      ...Object.fromEntries(
+        TREND_EVENTS.map((type) => [type, counts.get(`${month}:${type}`) ?? 0]),
+      ),
+    };
+  });
+};
+
+/* =====================================================
+   OVERVIEW
+===================================================== */
+
+export const buildAnalyticsOverview = async ({
+  cycle,
+  months,
+  topAssignees = 10,
+  now = new Date(),
+}: {
+  cycle: Types.ObjectId | null;
+  months: number;
+  topAssignees?: number;
+  now?: Date;
+}) => {
+  const match: Match = cycle ? { cycle } : {};
+
+  const [status, perspectives, objectives, overdue, turnaround, rejections] =
+    await Promise.all([
+      countByStatus(match),
+      completionBy(match, "category"),
+      completionBy(match, "level2Category"),
+      topOverdueAssignees(match, topAssignees),
+      reviewTurnaround(match),
+      rejectionRates(match),
+    ]);
+
+  return {
+    generatedAt: now,
+    cycle,
+    status: {
+      ...status,
+      completionRate: status.total
+        ? round1((status.byStatus.completed / status.total) * 100)
+        : null,
+    },
+    completion: { perspectives, objectives },
+    topOverdueAssignees: overdue,
+    reviewTurnaround: turnaround,
+    rejectionRates: rejections,
+    trends: await monthlyTrends(match, months, now),
+  };
+};
+
+/* =====================================================
+   REVIEWER WORKLOAD & SLA
+   A stage decision is timed from when it became that
+   reviewer's turn: the round's submission for the first
+   stage, the previous stage's sign-off after that.
+===================================================== */
+
+const hoursBetween = (from: unknown, to: unknown) => ({
+  $divide: [{ $subtract: [to, from] }, HOUR_MS],
+});
+
+const reviewerDecisions = (match: Match, since: Date) =>
+  Indicator.aggregate([
+    { $match: { ...match, "reviewStages.decidedAt": { $gte: since } } },
+    { $project: { reviewRounds: 1, reviewStages: 1, stage: "$reviewStages" } },
+    { $unwind: "$stage" },
+    { $match: { "stage.decidedAt": { $gte: since } } },
+    {
+      $addFields: {
+        round: {
+          $last: {
+            $filter: {
+              input: { $ifNull: ["$reviewRounds", []] },
+              as: "r",
+              cond: {
+                $and: [
+                  { $eq: ["$$r.round", "$stage.round"] },
+                  { $lte: ["$$r.submittedAt", "$stage.decidedAt"] },
+                ],
+              },
+            },
+          },
+        },
+      },
+    },
+    {
+      $addFields: {
+        waitingSince: {
+          $max: [
+            "$round.submittedAt",
+            {
+              $max: {
+                $map: {
+                  input: {
+                    $filter: {
+                      input: "$reviewStages",
+                      as: "s",
+                      cond: {
+                        $and: [
+                          { $eq: ["$$s.round", "$stage.round"] },
+                          {
+                            $eq: [
+                              "$$s.stage",
+                              { $subtract: ["$stage.stage", 1] },
+                            ],
+                          },
+                          { $lte: ["$$s.decidedAt", "$stage.decidedAt"] },
+                          { $gte: ["$$s.decidedAt", "$round.submittedAt"] },
+                        ],
+                      },
+                    },
+                  },
+                  as: "s",
+                  in: "$$s.decidedAt",
+                },
+              },
+            },
+          ],
+        },
+      },
+    },
+    {
+      $project: {
+        reviewer: "$stage.reviewer",
+        decision: "$stage.decision",
+        // Decisions from before rounds were recorded have no start time
+        hours: {
+          $cond: [
+            { $ifNull: ["$waitingSince", false] },
+            hoursBetween("$waitingSince", "$stage.decidedAt"),
+            null,
+          ],
+        },
+        afterSla: {
+          $cond: [
+            {
+              $and: [
+                { $ifNull: ["$round.slaDueAt", false] },
+                { $gt: ["$stage.decidedAt", "$round.slaDueAt"] },
+              ],
+            },
+            1,
+            0,
+          ],
+        },
+      },
+    },
+    {
+      $group: {
+        _id: "$reviewer",
+        decisions: { $sum: 1 },
+        approvals: {
+          $sum: { $cond: [{ $eq: ["$decision", "approved"] }, 1, 0] },
+        },
+        rejections: {
+          $sum: { $cond: [{ $eq: ["$decision", "rejected"] }, 1, 0] },
+        },
+        averageHours: { $avg: "$hours" },
+        slowestHours: { $max: "$hours" },
+        afterSla: { $sum: "$afterSla" },
+      },
+    },
+    {
+      $lookup: {
+        from: User.collection.name,
+        localField: "_id",
+        foreignField: "_id",
+        as: "user",
+      },
+    },
+    { $unwind: { path: "$user", preserveNullAndEmptyArrays: true } },
+    {
+      $project: {
+        _id: 0,
+        reviewerId: "$_id",
+        name: "$user.name",
+        pjNumber: "$user.pjNumber",
+        role: "$user.role",
+        decisions: 1,
+        approvals: 1,
+        rejections: 1,
+        averageHours: { $round: ["$averageHours", 1] },
+        slowestHours: { $round: ["$slowestHours", 1] },
+        afterSla: 1,
+      },
+    },
+    { $sort: { decisions: -1, averageHours: 1 } },
+  ]);
+
+// Submissions still waiting on a decision right now
+const openReviewQueue = async (match: Match, now: Date) => {
+  const [row] = await Indicator.aggregate<{
+    open: number;
+    breached: number;
+    oldestSubmittedAt: Date;
+    averageWaitingHours: number;
+  }>([
+    { $match: { ...match, reviewRounds: { $elemMatch: { closedAt: null } } } },
+    { $unwind: "$reviewRounds" },
+    { $match: { "reviewRounds.closedAt": null } },
+    {
+      $group: {
+        _id: null,
+        open: { $sum: 1 },
+        breached: {
+          $sum: {
+            $cond: [
+              {
+                $or: [
+                  "$reviewRounds.slaBreached",
+                  {
+                    $and: [
+                      { $ifNull: ["$reviewRounds.slaDueAt", false] },
+                      { $lt: ["$reviewRounds.slaDueAt", now] },
+                    ],
+                  },
+                ],
+              },
+              1,
+              0,
+            ],
+          },
+        },
+        oldestSubmittedAt: { $min: "$reviewRounds.submittedAt" },
+        averageWaitingHours: {
+          $avg: hoursBetween("$reviewRounds.submittedAt", now),
+        },
+      },
+    },
+  ]);
+
+  return {
+    open: row?.open ?? 0,
+    breached: row?.breached ?? 0,
+    oldestSubmittedAt: row?.oldestSubmittedAt ?? null,
+    averageWaitingHours: row ? round1(row.averageWaitingHours) : null,
+  };
+};
+
+// Rounds decided in the window, and how many met their SLA
+const closedRoundCompliance = async (match: Match, since: Date) => {
+  const [row] = await Indicator.aggregate<{
+    closed: number;
+    breached: number;
+    averageHours: number;
+  }>([
+    { $match: { ...match, "reviewRounds.closedAt": { $gte: since } } },
+    { $unwind: "$reviewRounds" },
+    {
+      $match: {
+        "reviewRounds.closedAt": { $gte: since },
+        // Superseded by a newer submission rather than reviewed
+        "reviewRounds.outcome": { $ne: "submitted" },
+      },
+    },
+    {
+      $group: {
+        _id: null,
+        closed: { $sum: 1 },
+        breached: { $sum: { $cond: ["$reviewRounds.slaBreached", 1, 0] } },
+        averageHours: {
+          $avg: hoursBetween(
+            "$reviewRounds.submittedAt",
+            "$reviewRounds.closedAt",
+          ),
+        },
+      },
+    },
+  ]);
+
+  if (!row)
+    return {
+      closed: 0,
+      withinSla: 0,
+      breached: 0,
+      complianceRate: null,
+      averageHours: null,
+    };
+  return {
+    closed: row.closed,
+    withinSla: row.closed - row.breached,
+    breached: row.breached,
+    complianceRate: round1(((row.closed - row.breached) / row.closed) * 100),
+    averageHours: round1(row.averageHours),
+  };
+};
+
+export const buildReviewerReport = async ({
+  cycle,
+  days,
+  now = new Date(),
+}: {
+  cycle: Types.ObjectId | null;
+  days: number;
+  now?: Date;
+}) => {
+  const match: Match = cycle ? { cycle } : {};
+  const since = new Date(now.getTime() - days * 24 * HOUR_MS);
+
+  const [queue, rounds, reviewers] = await Promise.all([
+    openReviewQueue(match, now),
+    closedRoundCompliance(match, since),
+    reviewerDecisions(match, since),
+  ]);
+
+  return { generatedAt: now, cycle, since, queue, rounds, reviewers };
+};
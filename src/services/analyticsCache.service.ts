@@ -0,0 +1,55 @@
+import { env } from "../config/env";
+import { logger } from "../config/logger";
+import { redisClient } from "../config/redis";
+
+/* =====================================================
+   ANALYTICS CACHE
+   Cached results are keyed by a generation counter that
+   every indicator write bumps, so invalidation is one
+   INCR and stale entries simply age out. A result built
+   while a write lands is stored under the generation it
+   started from and is never read again.
+===================================================== */
+
+const GENERATION_KEY = "analytics:generation";
+
+export const invalidateAnalytics = async () => {
+  if (!redisClient.isOpen) return;
+  try {
+    await redisClient.incr(GENERATION_KEY);
+  } catch (err: any) {
+    logger.warn(`[ANALYTICS] Could not invalidate cache: ${err.message}`);
+  }
+};
+
+/**
+ * Returns the cached value for `name` or builds and stores it. Without
+ * Redis the value is built on every call.
+ */
+export const cachedAnalytics = async <T>(
+  name: string,
+  build: () => Promise<T>,
+): Promise<{ data: T; cached: boolean }> => {
+  if (!redisClient.isOpen) return { data: await build(), cached: false };
+
+  let key: string | null = null;
+  try {
+    const generation = (await redisClient.get(GENERATION_KEY)) ?? "0";
+    key = `analytics:${generation}:${name}`;
+    const hit = await redisClient.get(key);
+    if (hit) return { data: JSON.parse(hit) as T, cached: true };
+  } catch (err: any) {
+    logger.warn(`[ANALYTICS] Cache read failed: ${err.message}`);
+  }
+
+  const data = await build();
+  if (key)
+    await redisClient
+      .set(key, JSON.stringify(data), {
+        EX: env.ANALYTICS_CACHE_TTL_SECONDS,
+      })
+      .catch((err) =>
+        logger.warn(`[ANALYTICS] Cache write failed: ${err.message}`),
+      );
+  return { data, cached: false };
+};
@@ -0,0 +1,356 @@
+import { createHash, randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { Types } from "mongoose";
+import { env } from "../config/env";
+import ErrorHandler from "../middleware/errorMiddlewares";
+import { EVIDENCE_MIME_TYPES, ZIP_MIME_TYPES } from "../middleware/multer";
+import { UploadSession, UploadSessionDocument } from "../models/UploadSession";
+import { contentMatchesMime } from "./evidenceZip.service";
+import { StoredObject, getStorageDriver } from "./storage";
+
+/* =====================================================
+   LIMITS
+   Chunks sit on local disk between requests, so every
+   API instance must share UPLOAD_TMP_DIR.
+===================================================== */
+
+export const CHUNKED_UPLOAD_MAX_SIZE = 1024 * 1024 * 1024; // 1 GB
+const MB = 1024 * 1024;
+const DEFAULT_CHUNK_SIZE = 5 * MB;
+const MIN_CHUNK_SIZE = 1 * MB;
+export const MAX_CHUNK_SIZE = 10 * MB;
+// Idle sessions expire; every chunk pushes the deadline back
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+const CHUNKED_UPLOAD_MIME_TYPES = [...EVIDENCE_MIME_TYPES, ...ZIP_MIME_TYPES];
+
+const sessionDir = (id: Types.ObjectId) =>
+  path.join(env.UPLOAD_TMP_DIR, String(id));
+
+const chunkPath = (id: Types.ObjectId, index: number) =>
+  path.join(sessionDir(id), `${index}.part`);
+
+const expectedChunkSize = (session: UploadSessionDocument, index: number) =>
+  index === session.totalChunks - 1
+    ? session.totalSize - session.chunkSize * (session.totalChunks - 1)
+    : session.chunkSize;
+
+const missingChunksOf = (session: UploadSessionDocument) => {
+  const received = new Set(session.receivedChunks);
+  return Array.from({ length: session.totalChunks }, (_, i) => i).filter(
+    (i) => !received.has(i),
+  );
+};
+
+/* =====================================================
+   SESSION LIFECYCLE
+===================================================== */
+
+export const initUploadSession = async (input: {
+  indicatorId: Types.ObjectId;
+  uploadedBy: Types.ObjectId;
+  fileName: string;
+  mimeType: string;
+  totalSize: number;
+  chunkSize?: number;
+  description?: string;
+}) => {
+  if (!CHUNKED_UPLOAD_MIME_TYPES.includes(input.mimeType))
+    throw new ErrorHandler(400, "File type is not allowed");
+  if (input.totalSize > CHUNKED_UPLOAD_MAX_SIZE)
+    throw new ErrorHandler(413, "File exceeds the 1GB upload limit");
+
+  const chunkSize = input.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  if (chunkSize < MIN_CHUNK_SIZE || chunkSize > MAX_CHUNK_SIZE)
+    throw new ErrorHandler(400, "Chunk size must be between 1MB and 10MB");
+
+  const session = await UploadSession.create({
+    indicator: input.indicatorId,
+    uploadedBy: input.uploadedBy,
+    fileName: path.basename(input.fileName),
+    mimeType: input.mimeType,
+    totalSize: input.totalSize,
+    chunkSize,
+    totalChunks: Math.ceil(input.totalSize / chunkSize),
+    description: input.description ?? "",
+    expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+  });
+  await fs.promises.mkdir(sessionDir(session._id), { recursive: true });
+
+  return session;
+};
+
+// Only the user who started an upload may continue or attach it
+export const findUploadSession = async (
+  uploadId: string,
+  indicatorId: string,
+  userId: Types.ObjectId,
+) => {
+  if (!Types.ObjectId.isValid(uploadId))
+    throw new ErrorHandler(400, "Invalid upload id");
+
+  const session = await UploadSession.findOne({
+    _id: uploadId,
+    indicator: indicatorId,
+    uploadedBy: userId,
+  });
+  if (!session) throw new ErrorHandler(404, "Upload not found");
+  return session;
+};
+
+export const describeUploadSession = (session: UploadSessionDocument) => ({
+  uploadId: session._id,
+  status: session.status,
+  fileName: session.fileName,
+  mimeType: session.mimeType,
+  totalSize: session.totalSize,
+  chunkSize: session.chunkSize,
+  totalChunks: session.totalChunks,
+  receivedChunks: [...session.receivedChunks].sort((a, b) => a - b),
+  missingChunks: missingChunksOf(session),
+  sha256: session.stored?.sha256 ?? null,
+  expiresAt: session.expiresAt,
+});
+
+/**
+ * Writes one chunk to disk. The chunk goes to a temporary name first
+ * and is renamed into place, so re-sending a chunk after a dropped
+ * connection simply replaces the partial copy.
+ */
+export const writeUploadChunk = async (
+  session: UploadSessionDocument,
+  index: number,
+  body: Readable,
+) => {
+  if (session.status !== "active")
+    throw new ErrorHandler(409, `Upload is ${session.status}`);
+  if (!Number.isInteger(index) || index < 0 || index >= session.totalChunks)
+    throw new ErrorHandler(400, "Chunk index is out of range");
+
+  const expected = expectedChunkSize(session, index);
+  const target = chunkPath(session._id, index);
+  const temp = `${target}.${randomUUID()}`;
+
+  let received = 0;
+  const limiter = new Transform({
+    transform(chunk, _encoding, callback) {
+      received += chunk.length;
+      if (received > expected)
+        return callback(new ErrorHandler(413, "Chunk is larger than declared"));
+      callback(null, chunk);
+    },
+  });
+
+  await fs.promises.mkdir(sessionDir(session._id), { recursive: true });
+  try {
+    await pipeline(body, limiter, fs.createWriteStream(temp));
+    if (received !== expected)
+      throw new ErrorHandler(
+        400,
+        `Chunk ${index} must be ${expected} bytes, received ${received}`,
+      );
+    await fs.promises.rename(temp, target);
+  } catch (err) {
+    await fs.promises.rm(temp, { force: true });
+    throw err;
+  }
+
+  const updated = await UploadSession.findOneAndUpdate(
+    { _id: session._id, status: "active" },
+    {
+      $addToSet: { receivedChunks: index },
+      $set: { expiresAt: new Date(Date.now() + SESSION_TTL_MS) },
+    },
+    { new: true },
+  );
+  if (!updated) throw new ErrorHandler(409, "Upload is no longer active");
+  return updated;
+};
+
+async function* readChunks(session: UploadSessionDocument) {
+  for (let i = 0; i < session.totalChunks; i++)
+    yield* fs.createReadStream(chunkPath(session._id, i));
+}
+
+/**
+ * Checks the assembled file and streams it to the storage backend.
+ * When the client sends its own SHA-256 a mismatch leaves the chunks
+ * in place so the bad ones can be re-sent. A failed transfer also
+ * returns the session to "active" for another attempt.
+ */
+export const completeUploadSession = async (
+  session: UploadSessionDocument,
+  clientSha256?: string,
+) => {
+  const missing = missingChunksOf(session);
+  if (missing.length)
+    throw new ErrorHandler(
+      400,
+      `Missing chunks: ${missing.slice(0, 20).join(", ")}${missing.length > 20 ? "…" : ""}`,
+    );
+
+  const claimed = await UploadSession.findOneAndUpdate(
+    { _id: session._id, status: "active" },
+    { status: "completing" },
+    { new: true },
+  );
+  if (!claimed) throw new ErrorHandler(409, `Upload is ${session.status}`);
+
+  try {
+    const head = Buffer.alloc(16);
+    const handle = await fs.promises.open(chunkPath(claimed._id, 0), "r");
+    await handle.read(head, 0, head.length, 0).finally(() => handle.close());
+    if (!contentMatchesMime(head, claimed.mimeType))
+      throw new ErrorHandler(400, "File content does not match its type");
+
+    const hash = createHash("sha256");
+    for await (const chunk of readChunks(claimed)) hash.update(chunk);
+    const sha256 = hash.digest("hex");
+    if (clientSha256 && clientSha256.toLowerCase() !== sha256)
+      throw new ErrorHandler(
+        422,
+        "Checksum mismatch: the assembled file differs from the original",
+      );
+
+    const stored = await getStorageDriver().putStream(
+      Readable.from(readChunks(claimed)),
+      {
+        folder: `indicators/evidence/${claimed.indicator}`,
+        fileName: claimed.fileName,
+        mimeType: claimed.mimeType,
+        size: claimed.totalSize,
+      },
+    );
+
+    claimed.stored = {
+      provider: stored.provider,
+      key: stored.key,
+      resourceType: stored.resourceType,
+      format: stored.format,
+      cloudinaryType: stored.cloudinaryType ?? null,
+      version: stored.version ?? null,
+      sha256,
+    };
+    claimed.status = "completed";
+    claimed.expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+    await claimed.save();
+  } catch (err) {
+    await UploadSession.updateOne(
+      { _id: claimed._id, status: "completing" },
+      { status: "active" },
+    );
+    throw err;
+  }
+
+  await fs.promises.rm(sessionDir(claimed._id), {
+    recursive: true,
+    force: true,
+  });
+  return claimed;
+};
+
+// Removes whatever the session left behind: chunks and any stored file
+const discardUploadFiles = async (session: UploadSessionDocument) => {
+  await fs.promises.rm(sessionDir(session._id), {
+    recursive: true,
+    force: true,
+  });
+  if (session.status === "completed" && session.stored)
+    await getStorageDriver(session.stored.provider).delete(session.stored);
+};
+
+export const abortUploadSession = async (session: UploadSessionDocument) => {
+  if (session.status === "attached")
+    throw new ErrorHandler(409, "Upload is already attached as evidence");
+  if (session.status === "completing")
+    throw new ErrorHandler(409, "Upload is being completed");
+
+  await discardUploadFiles(session);
+  session.status = "aborted";
+  await session.save();
+  return session;
+};
+
+/* =====================================================
+   ATTACHING TO A SUBMISSION
+===================================================== */
+
+/**
+ * Resolves `uploadIds` sent with a submission to completed uploads
+ * that belong to this user and indicator, in the order given.
+ */
+export const findAttachableUploads = async (
+  indicatorId: Types.ObjectId,
+  userId: Types.ObjectId,
+  uploadIds: unknown,
+) => {
+  const ids: string[] = Array.isArray(uploadIds)
+    ? uploadIds.map(String)
+    : typeof uploadIds === "string" && uploadIds
+      ? uploadIds.split(",")
+      : [];
+  if (!ids.length) return [];
+
+  if (ids.some((id) => !Types.ObjectId.isValid(id)))
+    throw new ErrorHandler(400, "Invalid upload id");
+
+  const sessions = await UploadSession.find({
+    _id: { $in: ids },
+    indicator: indicatorId,
+    uploadedBy: userId,
+    status: "completed",
+  });
+  const byId = new Map(sessions.map((s) => [String(s._id), s]));
+
+  return [...new Set(ids)].map((id) => {
+    const session = byId.get(id);
+    if (!session)
+      throw new ErrorHandler(400, `Upload ${id} is not ready to attach`);
+    return session;
+  });
+};
+
+export const storedObjectOfUpload = (
+  session: UploadSessionDocument,
+): StoredObject => ({
+  ...session.stored!,
+  size: session.totalSize,
+  version: session.stored!.version ?? undefined,
+});
+
+export const markUploadsAttached = async (
+  attached: { session: UploadSessionDocument; evidenceId: Types.ObjectId }[],
+) => {
+  if (!attached.length) return;
+  await UploadSession.bulkWrite(
+    attached.map(({ session, evidenceId }) => ({
+      updateOne: {
+        filter: { _id: session._id, status: "completed" },
+        update: { $set: { status: "attached", evidenceId } },
+      },
+    })),
+  );
+};
+
+/* =====================================================
+   CLEANUP
+===================================================== */
+
+/**
+ * Deletes expired sessions along with their chunks, and the stored
+ * file of any upload that was completed but never attached.
+ */
+export const purgeExpiredUploadSessions = async (now = new Date()) => {
+  const expired = await UploadSession.find({ expiresAt: { $lt: now } });
+
+  let purged = 0;
+  for (const session of expired) {
+    if (session.status !== "attached") await discardUploadFiles(session);
+    await session.deleteOne();
+    purged++;
+  }
+  return purged;
+};
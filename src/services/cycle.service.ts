@@ -0,0 +1,163 @@
+import { Types } from "mongoose";
+import ErrorHandler from "../middleware/errorMiddlewares";
+import { Cycle, CycleDocument } from "../models/Cycle";
+import { Indicator } from "../models/Indicator";
+
+/* =====================================================
+   LOOKUPS
+===================================================== */
+
+export const findOpenCycleForDate = (date: Date) =>
+  Cycle.findOne({
+    status: "open",
+    startDate: { $lte: date },
+    endDate: { $gte: date },
+  }).sort({ startDate: -1 });
+
+/**
+ * Picks the cycle a new indicator belongs to: the explicit one when
+ * given, otherwise the open cycle covering its start date.
+ */
+export const resolveCycleForNewIndicator = async (
+  cycleId: string | undefined | null,
+  startDate: Date,
+) => {
+  const cycle = cycleId
+    ? await Cycle.findById(cycleId)
+    : await findOpenCycleForDate(new Date(startDate));
+
+  if (!cycle)
+    throw new ErrorHandler(
+      400,
+      cycleId
+        ? "Cycle not found"
+        : "No open performance cycle covers the indicator start date",
+    );
+  if (cycle.status !== "open")
+    throw new ErrorHandler(400, `Cycle "${cycle.name}" is ${cycle.status}`);
+
+  return cycle._id;
+};
+
+/**
+ * Turns a `?cycle=` query value into a filter id. Accepts an ObjectId
+ * or "current" for the open cycle covering today.
+ */
+export const resolveCycleFilter = async (value: unknown) => {
+  if (typeof value !== "string" || !value || value === "undefined") return null;
+
+  if (value === "current") {
+    const current = await findOpenCycleForDate(new Date());
+    if (!current) throw new ErrorHandler(404, "No current cycle is open");
+    return current._id;
+  }
+
+  if (!Types.ObjectId.isValid(value))
+    throw new ErrorHandler(400, "Invalid cycle id");
+  return new Types.ObjectId(value);
+};
+
+// Background jobs skip indicators whose cycle has been frozen
+export const getFrozenCycleIds = async () =>
+  (
+    await Cycle.find({ status: { $ne: "open" } })
+      .select("_id")
+      .lean()
+  ).map((c) => c._id);
+
+/* =====================================================
+   BACKFILL
+===================================================== */
+
+type CycleRange = { _id: Types.ObjectId; startDate: Date; endDate: Date };
+
+/**
+ * Files indicators created before cycles existed (cycle: null) under
+ * the open cycle covering their start date; with no argument every
+ * open cycle is tried, latest first. Only the cycle field is written.
+ * Indicators no open cycle covers stay uncycled until one is created.
+ */
+export const assignUncycledIndicators = async (cycle?: CycleRange) => {
+  const cycles: CycleRange[] = cycle
+    ? [cycle]
+    : await Cycle.find({ status: "open" })
+        .sort({ startDate: -1 })
+        .select("startDate endDate")
+        .lean();
+
+  let assigned = 0;
+  for (const { _id, startDate, endDate } of cycles) {
+    const { modifiedCount } = await Indicator.updateMany(
+      { cycle: null, startDate: { $gte: startDate, $lte: endDate } },
+      { $set: { cycle: _id } },
+    );
+    assigned += modifiedCount;
+  }
+  return assigned;
+};
+
+/* =====================================================
+   CLOSE CYCLE
+===================================================== */
+
+/**
+ * Snapshots the final state of every indicator in the cycle and freezes
+ * it. Snapshots are written with bulkWrite so the read-only guard on
+ * indicator saves does not apply to them.
+ */
+export const closeCycle = async (
+  cycle: CycleDocument,
+  closedBy: Types.ObjectId,
+) => {
+  const indicators = await Indicator.find({ cycle: cycle._id })
+    .select("status progress result scoreHistory")
+    .lean();
+
+  const capturedAt = new Date();
+  const snapshots = indicators.map((i) => {
+    const lastScore = i.scoreHistory?.length
+      ? i.scoreHistory[i.scoreHistory.length - 1].score
+      : null;
+    return {
+      _id: i._id,
+      snapshot: {
+        status: i.status,
+        progress: i.progress,
+        result: i.result ?? null,
+        score: lastScore ?? i.progress,
+        capturedAt,
+      },
+    };
+  });
+
+  if (snapshots.length) {
+    await Indicator.bulkWrite(
+      snapshots.map(({ _id, snapshot }) => ({
+        updateOne: {
+          filter: { _id },
+          update: { $set: { finalSnapshot: snapshot } },
+        },
+      })),
+    );
+  }
+
+  const total = snapshots.length;
+  const average = (values: number[]) =>
+    values.length
+      ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length)
+      : 0;
+
+  cycle.status = "closed";
+  cycle.closedAt = capturedAt;
+  cycle.closedBy = closedBy;
+  cycle.summary = {
+    totalIndicators: total,
+    completed: snapshots.filter((s) => s.snapshot.status === "completed")
+      .length,
+    averageProgress: average(snapshots.map((s) => s.snapshot.progress)),
+    averageScore: average(snapshots.map((s) => s.snapshot.score ?? 0)),
+  };
+  await cycle.save();
+
+  return cycle;
+};
@@ -0,0 +1,190 @@
+import archiver from "archiver";
+import { createHash } from "crypto";
+import { parse } from "json2csv";
+import path from "path";
+import { Readable, Transform, Writable } from "stream";
+import { finished, pipeline } from "stream/promises";
+import { Types } from "mongoose";
+import { IEvidence } from "../models/Indicator";
+import { neutralizeFormulas } from "../utils/spreadsheet";
+import { isEvidenceServable } from "./evidenceScan.service";
+import { evidenceStorageRef, storageForEvidence } from "./storage";
+
+/* =====================================================
+   TYPES
+===================================================== */
+
+type ArchiveUploader = { name?: string; pjNumber?: string } | null;
+
+interface ArchiveEvidence extends Omit<IEvidence, "uploadedBy"> {
+  uploadedBy?: ArchiveUploader | Types.ObjectId;
+}
+
+export interface ArchiveIndicator {
+  _id: Types.ObjectId;
+  indicatorTitle: string;
+  evidence: ArchiveEvidence[];
+}
+
+interface ManifestRow {
+  indicator: string;
+  fileName: string;
+  archivePath: string;
+  uploadedBy: string;
+  pjNumber: string;
+  uploadedAt: string;
+  status: string;
+  revision: number;
+  description: string;
+  sha256: string;
+  integrity: string;
+}
+
+const MANIFEST_FIELDS = [
+  { label: "Indicator", value: "indicator" },
+  { label: "File Name", value: "fileName" },
+  { label: "Archive Path", value: "archivePath" },
+  { label: "Uploaded By", value: "uploadedBy" },
+  { label: "PJ Number", value: "pjNumber" },
+  { label: "Uploaded At", value: "uploadedAt" },
+  { label: "Status", value: "status" },
+  { label: "Revision", value: "revision" },
+  { label: "Description", value: "description" },
+  { label: "SHA-256", value: "sha256" },
+  { label: "Integrity", value: "integrity" },
+];
+
+/* =====================================================
+   HELPERS
+===================================================== */
+
+export const safeArchiveName = (value: string) =>
+  value
+    .replace(/[\\/:*?"<>|]+/g, "_")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, 80) || "untitled";
+
+// Two uploads may share a file name; later ones get a numeric suffix
+const uniquePath = (used: Set<string>, folder: string, fileName: string) => {
+  const ext = path.extname(fileName);
+  const base = safeArchiveName(path.basename(fileName, ext));
+  let candidate = path.posix.join(folder, `${base}${ext}`);
+  for (let n = 2; used.has(candidate); n++)
+    candidate = path.posix.join(folder, `${base} (${n})${ext}`);
+  used.add(candidate);
+  return candidate;
+};
+
+const uploaderOf = (ev: ArchiveEvidence) =>
+  ev.uploadedBy && !(ev.uploadedBy instanceof Types.ObjectId)
+    ? (ev.uploadedBy as ArchiveUploader)
+    : null;
+
+// Unscanned and quarantined files are never packed
+export const selectArchiveEvidence = (
+  indicator: ArchiveIndicator,
+  includeArchived: boolean,
+) =>
+  indicator.evidence.filter(
+    (ev) => (includeArchived || !ev.isArchived) && isEvidenceServable(ev),
+  );
+
+/* =====================================================
+   BUILD ARCHIVE
+===================================================== */
+
+/**
+ * Streams every selected file into a zip written to `output`, with a
+ * manifest.csv at the end. Files are fetched one at a time, so memory
+ * use does not grow with the pack. Files that cannot be opened are
+ * listed in the manifest as missing instead of failing the whole pack;
+ * a storage error part-way through a file aborts the download. With
+ * `perIndicatorFolders` each indicator gets its own folder (used for
+ * category packs).
+ */
+export const streamEvidenceArchive = async (
+  indicators: ArchiveIndicator[],
+  output: Writable,
+  {
+    includeArchived = false,
+    perIndicatorFolders = false,
+  }: { includeArchived?: boolean; perIndicatorFolders?: boolean } = {},
+) => {
+  // Evidence is mostly PDFs and images, which barely compress
+  const archive = archiver("zip", { zlib: { level: 1 } });
+  const piped = pipeline(archive, output);
+  // Settles early only when the archive or the client fails
+  piped.catch(() => undefined);
+
+  const usedPaths = new Set<string>();
+  const manifest: ManifestRow[] = [];
+  let stream: Readable | null = null;
+
+  try {
+    for (const indicator of indicators) {
+      const folder = perIndicatorFolders
+        ? `${safeArchiveName(indicator.indicatorTitle)} - ${String(indicator._id).slice(-6)}`
+        : "";
+
+      for (const ev of selectArchiveEvidence(indicator, includeArchived)) {
+        const archivePath = uniquePath(usedPaths, folder, ev.fileName);
+        let integrity = ev.sha256 ? "verified" : "unhashed";
+
+        stream = null;
+        try {
+          ({ stream } = await storageForEvidence(ev).getStream(
+            evidenceStorageRef(ev),
+          ));
+        } catch {
+          integrity = "missing";
+        }
+
+        if (stream) {
+          // Hash on the way through; the manifest is written last
+          const hash = createHash("sha256");
+          const tap = new Transform({
+            transform(chunk, _encoding, callback) {
+              hash.update(chunk);
+              callback(null, chunk);
+            },
+          });
+          stream.on("error", (err) => tap.destroy(err));
+          archive.append(stream.pipe(tap), { name: archivePath });
+          await Promise.race([finished(tap), piped]);
+          if (ev.sha256 && hash.digest("hex") !== ev.sha256)
+            integrity = "mismatch";
+        }
+
+        const uploader = uploaderOf(ev);
+        manifest.push({
+          indicator: indicator.indicatorTitle,
+          fileName: ev.fileName,
+          archivePath: integrity === "missing" ? "" : archivePath,
+          uploadedBy: uploader?.name ?? "",
+          pjNumber: uploader?.pjNumber ?? "",
+          uploadedAt: new Date(ev.uploadedAt).toISOString(),
+          status: ev.status,
+          revision: ev.revision ?? 1,
+          description: ev.description ?? "",
+          sha256: ev.sha256 ?? "",
+          integrity,
+        });
+      }
+    }
+
+    // File names and descriptions are user text; keep them out of formulas
+    const csv = manifest.length
+      ? parse(manifest.map(neutralizeFormulas), { fields: MANIFEST_FIELDS })
+      : MANIFEST_FIELDS.map((f) => `"${f.label}"`).join(",");
+    archive.append(Buffer.from(csv, "utf8"), { name: "manifest.csv" });
+    await archive.finalize();
+    await piped;
+  } catch (err) {
+    stream?.destroy();
+    archive.abort();
+    throw err;
+  }
+
+  return { files: manifest.length };
+};
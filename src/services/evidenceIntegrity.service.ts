@@ -0,0 +1,90 @@
+import { createHash } from "crypto";
+import { Transform } from "stream";
+import { Types } from "mongoose";
+import ErrorHandler from "../middleware/errorMiddlewares";
+import { IEvidence, Indicator, IntegrityStatus } from "../models/Indicator";
+import { evidenceStorageRef, storageForEvidence } from "./storage";
+
+/* =====================================================
+   HASHING
+===================================================== */
+
+export const sha256Of = (buffer: Buffer) =>
+  createHash("sha256").update(buffer).digest("hex");
+
+/**
+ * Pass-through stream that hashes whatever flows through it, so a
+ * download can be verified without buffering the whole file.
+ */
+export const createHashingStream = () => {
+  const hash = createHash("sha256");
+  const transform = new Transform({
+    transform(chunk, _encoding, callback) {
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+  });
+  return { transform, digest: () => hash.digest("hex") };
+};
+
+/* =====================================================
+   VERIFICATION
+===================================================== */
+
+type VerifiableEvidence = Pick<
+  IEvidence,
+  | "_id"
+  | "storageProvider"
+  | "publicId"
+  | "resourceType"
+  | "format"
+  | "cloudinaryType"
+  | "sha256"
+>;
+
+/**
+ * Re-reads the stored file and compares it to the hash taken at upload.
+ * Evidence uploaded before hashing existed stays "unverified".
+ */
+export const checkEvidenceIntegrity = async (
+  evidence: VerifiableEvidence,
+): Promise<{ status: IntegrityStatus; actual: string | null }> => {
+  if (!evidence.sha256) return { status: "unverified", actual: null };
+
+  try {
+    const { stream } = await storageForEvidence(evidence).getStream(
+      evidenceStorageRef(evidence),
+    );
+    const hash = createHash("sha256");
+    for await (const chunk of stream) hash.update(chunk);
+    const actual = hash.digest("hex");
+
+    return {
+      status: actual === evidence.sha256 ? "verified" : "mismatch",
+      actual,
+    };
+  } catch (err) {
+    if (err instanceof ErrorHandler && err.statusCode === 404)
+      return { status: "missing", actual: null };
+    throw err;
+  }
+};
+
+/**
+ * Stores a check result with a positional update, so closed-cycle
+ * indicators (read-only through save) can still be audited.
+ */
+export const recordIntegrityStatus = (
+  indicatorId: Types.ObjectId | string,
+  evidenceId: Types.ObjectId | string,
+  status: IntegrityStatus,
+) =>
+  Indicator.updateOne(
+    { _id: indicatorId, "evidence._id": evidenceId },
+    {
+      $set: {
+        "evidence.$.integrityStatus": status,
+        "evidence.$.integrityCheckedAt": new Date(),
+      },
+    },
+  );
@@ -0,0 +1,228 @@
+import path from "path";
+import { Worker } from "worker_threads";
+import { Types } from "mongoose";
+import { logger } from "../config/logger";
+import {
+  IEvidence,
+  IEvidenceMetadata,
+  IEvidencePreview,
+  Indicator,
+} from "../models/Indicator";
+import {
+  evidenceStorageRef,
+  getStorageDriver,
+  storageForEvidence,
+} from "./storage";
+import { RenderedPreview, isImageTooLarge } from "./evidencePreviewRender";
+
+/* =====================================================
+   LIMITS
+===================================================== */
+
+// pdf.js needs the whole file in memory; bigger files get no preview
+const MAX_PREVIEW_SOURCE_BYTES = 100 * 1024 * 1024;
+
+type PreviewSource = Pick<
+  IEvidence,
+  | "_id"
+  | "fileName"
+  | "fileSize"
+  | "mimeType"
+  | "storageProvider"
+  | "publicId"
+  | "resourceType"
+  | "format"
+  | "cloudinaryType"
+>;
+
+// Structured cloning turns the PNG Buffer into a plain Uint8Array
+type WorkerReply = {
+  rendered?: Omit<RenderedPreview, "png"> & { png: Uint8Array };
+  error?: string;
+};
+
+export const isPreviewable = (mimeType: string) =>
+  mimeType === "application/pdf" || mimeType.startsWith("image/");
+
+/* =====================================================
+   RENDERING
+   Each preview is rendered in its own worker thread, so
+   a large PDF never blocks requests and a runaway render
+   can be stopped.
+===================================================== */
+
+const RENDER_TIMEOUT_MS = 60 * 1000;
+const RENDER_MEMORY_MB = 512;
+
+// Under ts-node (development and tests) the worker compiles its
+// TypeScript the same way
+const WORKER_FILE = path.join(
+  __dirname,
+  `evidencePreviewRender.worker${path.extname(__filename)}`,
+);
+const WORKER_EXEC_ARGV =
+  path.extname(__filename) === ".ts"
+    ? ["--require", "ts-node/register/transpile-only"]
+    : undefined;
+
+export const renderEvidencePreview = (buffer: Buffer, mimeType: string) =>
+  new Promise<RenderedPreview>((resolve, reject) => {
+    const worker = new Worker(WORKER_FILE, {
+      workerData: { buffer, mimeType },
+      execArgv: WORKER_EXEC_ARGV,
+      resourceLimits: { maxOldGenerationSizeMb: RENDER_MEMORY_MB },
+    });
+    const timer = setTimeout(() => {
+      reject(new Error("Preview rendering timed out"));
+      void worker.terminate();
+    }, RENDER_TIMEOUT_MS);
+
+    worker.once("message", ({ rendered, error }: WorkerReply) => {
+      if (rendered) resolve({ ...rendered, png: Buffer.from(rendered.png) });
+      else reject(new Error(error ?? "Preview rendering failed"));
+      void worker.terminate();
+    });
+    worker.once("error", reject);
+    worker.once("exit", (code) => {
+      clearTimeout(timer);
+      reject(new Error(`Preview worker stopped with code ${code}`));
+    });
+  });
+
+/* =====================================================
+   GENERATION
+===================================================== */
+
+const readStoredFile = async (evidence: PreviewSource) => {
+  const { stream } = await storageForEvidence(evidence).getStream(
+    evidenceStorageRef(evidence),
+  );
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks);
+};
+
+// Positional update so a background write never races a full save
+const savePreview = async (
+  indicatorId: Types.ObjectId | string,
+  evidenceId: Types.ObjectId,
+  preview: IEvidencePreview,
+  metadata?: IEvidenceMetadata,
+) => {
+  const result = await Indicator.updateOne(
+    { _id: indicatorId, "evidence._id": evidenceId },
+    {
+      $set: {
+        "evidence.$.preview": preview,
+        ...(metadata && { "evidence.$.metadata": metadata }),
+      },
+    },
+  );
+  return result.matchedCount > 0;
+};
+
+/**
+ * Renders and stores the thumbnail for one evidence file. `source`
+ * skips the download when the upload is still in memory. Failures are
+ * recorded on the evidence rather than thrown.
+ */
+export const generateEvidencePreview = async (
+  indicatorId: Types.ObjectId | string,
+  evidence: PreviewSource,
+  source?: Buffer,
+) => {
+  if (!isPreviewable(evidence.mimeType))
+    return savePreview(indicatorId, evidence._id, { status: "unsupported" });
+  if (evidence.fileSize > MAX_PREVIEW_SOURCE_BYTES)
+    return savePreview(indicatorId, evidence._id, {
+      status: "unsupported",
+      error: "File is too large to preview",
+    });
+
+  try {
+    const buffer = source ?? (await readStoredFile(evidence));
+    // Decoding would allocate the full bitmap, whatever the file size
+    if (evidence.mimeType.startsWith("image/") && isImageTooLarge(buffer))
+      return savePreview(indicatorId, evidence._id, {
+        status: "unsupported",
+        error: "Image is too large to preview",
+      });
+
+    const rendered = await renderEvidencePreview(buffer, evidence.mimeType);
+
+    const stored = await getStorageDriver().put(rendered.png, {
+      folder: `indicators/evidence/${indicatorId}`,
+      fileName: `${evidence._id}-thumbnail.png`,
+      mimeType: "image/png",
+    });
+
+    const saved = await savePreview(
+      indicatorId,
+      evidence._id,
+      {
+        status: "ready",
+        storageProvider: stored.provider,
+        publicId: stored.key,
+        resourceType: stored.resourceType,
+        cloudinaryType: stored.cloudinaryType ?? null,
+        format: stored.format,
+        width: rendered.width,
+        height: rendered.height,
+        generatedAt: new Date(),
+        error: null,
+      },
+      rendered.metadata,
+    );
+    // The evidence was deleted while we were rendering
+    if (!saved) await getStorageDriver(stored.provider).delete(stored);
+    return saved;
+  } catch (err: any) {
+    logger.warn(
+      `[PREVIEW] ${evidence.fileName} (${evidence._id}): ${err?.message || err}`,
+    );
+    return savePreview(indicatorId, evidence._id, {
+      status: "failed",
+      generatedAt: new Date(),
+      error: String(err?.message || err).slice(0, 200),
+    });
+  }
+};
+
+// A ready preview is addressed through the same helpers as evidence
+export const previewStorageFields = (preview: IEvidencePreview) => ({
+  storageProvider: preview.storageProvider,
+  publicId: preview.publicId ?? "",
+  resourceType: preview.resourceType ?? "image",
+  format: preview.format ?? "png",
+  cloudinaryType: preview.cloudinaryType,
+});
+
+export const deleteEvidencePreview = async (
+  preview: IEvidencePreview | null | undefined,
+) => {
+  if (preview?.status !== "ready" || !preview.publicId) return;
+  const fields = previewStorageFields(preview);
+  await storageForEvidence(fields).delete(evidenceStorageRef(fields));
+};
+
+/* =====================================================
+   IN-PROCESS QUEUE
+   Rendering is CPU-bound, so previews are made one at a
+   time after the response has gone out. Anything lost on
+   restart is picked up by the preview backfill job.
+===================================================== */
+
+let queue: Promise<unknown> = Promise.resolve();
+
+export const queueEvidencePreviews = (
+  indicatorId: Types.ObjectId | string,
+  items: { evidence: PreviewSource; source?: Buffer }[],
+) => {
+  items.forEach(({ evidence, source }) => {
+    queue = queue
+      .then(() => generateEvidencePreview(indicatorId, evidence, source))
+      .catch((err) =>
+        logger.error(`[PREVIEW] queue failure: ${err?.message || err}`),
+      );
+  });
+};
@@ -0,0 +1,187 @@
+import {
+  DOMMatrix,
+  Path2D,
+  SKRSContext2D,
+  createCanvas,
+  loadImage,
+} from "@napi-rs/canvas";
+import { imageSize } from "image-size";
+import { IEvidenceMetadata } from "../models/Indicator";
+
+/* =====================================================
+   PREVIEW RENDERING
+   CPU- and memory-heavy, so it runs in a worker thread
+   (see evidencePreviewRender.worker.ts) and never on the
+   API's event loop.
+===================================================== */
+
+const THUMBNAIL_SIZE = 320; // longest edge, in pixels
+// A decoded bitmap takes 4 bytes per pixel; 40 MP is 160 MB
+export const MAX_PREVIEW_IMAGE_PIXELS = 40_000_000;
+
+export interface RenderedPreview {
+  png: Buffer;
+  width: number;
+  height: number;
+  metadata: IEvidenceMetadata;
+}
+
+const fitWithin = (width: number, height: number) => {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+  return {
+    scale,
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+};
+
+/**
+ * Reads the pixel size from the image header, without decoding it.
+ * Returns null when the header cannot be parsed.
+ */
+export const readImageDimensions = (buffer: Buffer) => {
+  try {
+    const { width, height } = imageSize(buffer);
+    return width && height ? { width, height } : null;
+  } catch {
+    return null;
+  }
+};
+
+export const isImageTooLarge = (buffer: Buffer) => {
+  const size = readImageDimensions(buffer);
+  return !!size && size.width * size.height > MAX_PREVIEW_IMAGE_PIXELS;
+};
+
+/* =====================================================
+   PDF
+===================================================== */
+
+let pdfjs: typeof import("pdfjs-dist/legacy/build/pdf") | null = null;
+
+// pdf.js looks for these browser globals when it loads, so they are
+// supplied from the canvas package before the first import
+const loadPdfjs = async () => {
+  if (!pdfjs) {
+    Object.assign(globalThis, {
+      DOMMatrix: globalThis.DOMMatrix ?? DOMMatrix,
+      Path2D: globalThis.Path2D ?? Path2D,
+    });
+    pdfjs = await import("pdfjs-dist/legacy/build/pdf");
+  }
+  return pdfjs;
+};
+
+// The drawing calls pdf.js makes, which the canvas package implements
+// with DOM-compatible signatures; the compiler checks that here
+type PdfDrawingContext = Pick<
+  CanvasRenderingContext2D,
+  | "save"
+  | "restore"
+  | "transform"
+  | "setTransform"
+  | "fillRect"
+  | "beginPath"
+  | "closePath"
+  | "moveTo"
+  | "lineTo"
+  | "bezierCurveTo"
+  | "rect"
+  | "fill"
+  | "stroke"
+  | "clip"
+  | "fillText"
+  | "strokeText"
+>;
+
+/**
+ * pdf.js types its target as the browser's CanvasRenderingContext2D.
+ * The server-side context covers the drawing API it uses but not the
+ * browser-only members, so it is passed through this adapter.
+ */
+const toPdfCanvasContext = (context: SKRSContext2D) => {
+  const drawing: PdfDrawingContext = context;
+  return drawing as CanvasRenderingContext2D;
+};
+
+const renderPdfPreview = async (buffer: Buffer): Promise<RenderedPreview> => {
+  const lib = await loadPdfjs();
+  const doc = await lib.getDocument({
+    data: new Uint8Array(buffer),
+    disableFontFace: true,
+    isEvalSupported: false,
+    verbosity: 0,
+  }).promise;
+
+  try {
+    const page = await doc.getPage(1);
+    const original = page.getViewport({ scale: 1 });
+    const { scale } = fitWithin(original.width, original.height);
+    const viewport = page.getViewport({ scale });
+
+    const canvas = createCanvas(
+      Math.ceil(viewport.width),
+      Math.ceil(viewport.height),
+    );
+    const context = canvas.getContext("2d");
+    // PDF pages are transparent; reviewers expect paper
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    await page.render({
+      canvasContext: toPdfCanvasContext(context),
+      viewport,
+    }).promise;
+
+    const { info } = (await doc.getMetadata().catch(() => ({ info: {} }))) as {
+      info: Record<string, any>;
+    };
+
+    return {
+      png: await canvas.encode("png"),
+      width: canvas.width,
+      height: canvas.height,
+      metadata: {
+        pageCount: doc.numPages,
+        width: Math.round(original.width),
+        height: Math.round(original.height),
+        title: info?.Title || null,
+        author: info?.Author || null,
+      },
+    };
+  } finally {
+    await doc.destroy();
+  }
+};
+
+/* =====================================================
+   IMAGES
+===================================================== */
+
+const renderImagePreview = async (buffer: Buffer): Promise<RenderedPreview> => {
+  // Checked again here so the worker never decodes an oversized bitmap
+  if (isImageTooLarge(buffer)) throw new Error("Image is too large to preview");
+
+  const image = await loadImage(buffer);
+  const { width, height } = fitWithin(image.width, image.height);
+
+  const canvas = createCanvas(width, height);
+  canvas.getContext("2d").drawImage(image, 0, 0, width, height);
+
+  return {
+    png: await canvas.encode("png"),
+    width,
+    height,
+    metadata: {
+      pageCount: 1,
+      width: image.width,
+      height: image.height,
+      title: null,
+      author: null,
+    },
+  };
+};
+
+export const renderEvidencePreview = (buffer: Buffer, mimeType: string) =>
+  mimeType === "application/pdf"
+    ? renderPdfPreview(buffer)
+    : renderImagePreview(buffer);
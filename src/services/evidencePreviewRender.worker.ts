@@ -0,0 +1,22 @@
+import { parentPort, workerData } from "worker_threads";
+import { renderEvidencePreview } from "./evidencePreviewRender";
+
+/* =====================================================
+   PREVIEW WORKER
+   Renders one preview and exits. Started per file by
+   the preview service, which enforces the time limit.
+===================================================== */
+
+const { buffer, mimeType } = workerData as {
+  buffer: Uint8Array;
+  mimeType: string;
+};
+
+renderEvidencePreview(
+  Buffer.from(buffer.buffer, buffer.byteOffset, buffer.byteLength),
+  mimeType,
+)
+  .then((rendered) => parentPort!.postMessage({ rendered }))
+  .catch((err) =>
+    parentPort!.postMessage({ error: String(err?.message || err) }),
+  );
@@ -0,0 +1,281 @@
+import { Readable, Transform } from "stream";
+import { Types } from "mongoose";
+import { logger } from "../config/logger";
+import ErrorHandler from "../middleware/errorMiddlewares";
+import { ZIP_MIME_TYPES } from "../middleware/multer";
+import { IEvidence, Indicator, ScanStatus } from "../models/Indicator";
+import { logActivity } from "../utils/activityLogger";
+import { queueEvidencePreviews } from "./evidencePreview.service";
+import { notifyUser } from "./notification.service";
+import { getScanDriver } from "./scanning";
+import { evidenceStorageRef, storageForEvidence } from "./storage";
+
+/* =====================================================
+   LIMITS
+===================================================== */
+
+// After this many scanner errors the file is marked "failed"
+export const MAX_SCAN_ATTEMPTS = 3;
+
+type ScanSource = Pick<
+  IEvidence,
+  | "_id"
+  | "fileName"
+  | "fileSize"
+  | "mimeType"
+  | "storageProvider"
+  | "publicId"
+  | "resourceType"
+  | "format"
+  | "cloudinaryType"
+  | "uploadedBy"
+  | "scanAttempts"
+>;
+
+type QuarantineStatus = Extract<ScanStatus, "infected" | "encrypted">;
+
+/* =====================================================
+   ACCESS RULES
+   Quarantined files stay in storage for investigation
+   but are never served, previewed or packed.
+===================================================== */
+
+// Files from before scanning existed remain readable
+export const isEvidenceServable = (evidence: Pick<IEvidence, "scanStatus">) =>
+  !evidence.scanStatus ||
+  evidence.scanStatus === "clean" ||
+  evidence.scanStatus === "unscanned";
+
+export const assertEvidenceServable = (
+  evidence: Pick<IEvidence, "scanStatus">,
+) => {
+  switch (evidence.scanStatus) {
+    case "pending":
+      throw new ErrorHandler(409, "File is still being scanned");
+    case "infected":
+    case "encrypted":
+      throw new ErrorHandler(403, "File is quarantined");
+    case "failed":
+      throw new ErrorHandler(
+        409,
+        "File could not be scanned; ask the uploader for a new copy",
+      );
+  }
+};
+
+// Reviewers decide on what they can open, so scans must finish first
+export const assertEvidenceScanned = (
+  evidence: Pick<IEvidence, "isArchived" | "scanStatus">[],
+) => {
+  const pending = evidence.filter(
+    (ev) => !ev.isArchived && ev.scanStatus === "pending",
+  ).length;
+  if (pending)
+    throw new ErrorHandler(
+      409,
+      `${pending} evidence file(s) are still being scanned; try again shortly`,
+    );
+};
+
+/* =====================================================
+   PASSWORD PROTECTION
+   Visible in the raw bytes: PDFs carry an /Encrypt
+   dictionary and zip entries set bit 0 of their flags.
+   Detection runs on the same stream the scanner reads.
+===================================================== */
+
+const PDF_ENCRYPT_MARKER = Buffer.from("/Encrypt", "latin1");
+const ZIP_LOCAL_HEADER = Buffer.from("504b0304", "hex");
+// Enough overlap for a marker, or a zip header and its flags, split
+// across two chunks
+const CARRY_BYTES = 7;
+
+const createProtectionDetector = (mimeType: string) => {
+  const isPdf = mimeType === "application/pdf";
+  const isZip = ZIP_MIME_TYPES.includes(mimeType);
+  let carry = Buffer.alloc(0);
+  let detected = false;
+
+  const inspect = (window: Buffer) => {
+    if (isPdf) return window.includes(PDF_ENCRYPT_MARKER);
+    if (!isZip) return false;
+    for (
+      let at = window.indexOf(ZIP_LOCAL_HEADER);
+      at !== -1 && at + 8 <= window.length;
+      at = window.indexOf(ZIP_LOCAL_HEADER, at + 1)
+    )
+      if (window.readUInt16LE(at + 6) & 1) return true;
+    return false;
+  };
+
+  const transform = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      if (!detected && (isPdf || isZip)) {
+        const window = Buffer.concat([carry, chunk]);
+        detected = inspect(window);
+        carry = window.subarray(Math.max(0, window.length - CARRY_BYTES));
+      }
+      callback(null, chunk);
+    },
+  });
+
+  return { transform, isProtected: () => detected };
+};
+
+/* =====================================================
+   SCANNING
+===================================================== */
+
+// Only a pending scan may be settled, so a retry never overwrites
+// a verdict that has already been reached
+const saveScanResult = async (
+  indicatorId: Types.ObjectId | string,
+  evidenceId: Types.ObjectId,
+  fields: Record<string, unknown>,
+) => {
+  const $set = Object.fromEntries(
+    Object.entries(fields).map(([key, value]) => [`evidence.$.${key}`, value]),
+  );
+  const result = await Indicator.updateOne(
+    {
+      _id: indicatorId,
+      evidence: { $elemMatch: { _id: evidenceId, scanStatus: "pending" } },
+    },
+    { $set },
+  );
+  return result.modifiedCount > 0;
+};
+
+const QUARANTINE_REASONS: Record<QuarantineStatus, string> = {
+  infected: "Malware was detected in this file",
+  encrypted: "Password-protected files cannot be reviewed",
+};
+
+/**
+ * Rejects the evidence so the uploader can replace it through the
+ * usual resubmission flow, and tells them why.
+ */
+const quarantineEvidence = async (
+  indicatorId: Types.ObjectId | string,
+  evidence: ScanSource,
+  status: QuarantineStatus,
+  signature: string | null,
+) => {
+  const now = new Date();
+  const reason = QUARANTINE_REASONS[status];
+  const saved = await saveScanResult(indicatorId, evidence._id, {
+    scanStatus: status,
+    scanSignature: signature,
+    scanError: null,
+    scannedAt: now,
+    quarantinedAt: now,
+    status: "rejected",
+    rejectionReason: reason,
+    rejectedAt: now,
+    preview: { status: "unsupported", error: "File is quarantined" },
+  });
+  if (!saved) return;
+
+  await logActivity({
+    user: "SYSTEM",
+    action: "quarantine_evidence",
+    entity: evidence.fileName,
+    entityId: indicatorId,
+    level: "error",
+    meta: { evidenceId: evidence._id, scanStatus: status, signature },
+  });
+
+  if (evidence.uploadedBy)
+    await notifyUser({
+      userId: evidence.uploadedBy,
+      title: "Evidence Rejected",
+      message: `"${evidence.fileName}" was quarantined: ${reason}. Please upload a clean copy.`,
+      type: "rejection",
+      metadata: { indicatorId, evidenceId: evidence._id, scanStatus: status },
+    }).catch((err) =>
+      logger.error(`[SCAN] notification failed: ${err?.message || err}`),
+    );
+};
+
+/**
+ * Scans one evidence file. `source` skips the download when the upload
+ * is still in memory. Clean files go on to preview generation; scanner
+ * errors leave the file pending for the retry job until the attempts
+ * run out.
+ */
+export const scanEvidence = async (
+  indicatorId: Types.ObjectId | string,
+  evidence: ScanSource,
+  source?: Buffer,
+): Promise<ScanStatus> => {
+  try {
+    const input = source
+      ? Readable.from([source])
+      : (
+          await storageForEvidence(evidence).getStream(
+            evidenceStorageRef(evidence),
+          )
+        ).stream;
+    const detector = createProtectionDetector(evidence.mimeType);
+    input.on("error", (err) => detector.transform.destroy(err));
+
+    const verdict = await getScanDriver().scan(input.pipe(detector.transform));
+
+    if (verdict.status === "infected") {
+      await quarantineEvidence(
+        indicatorId,
+        evidence,
+        "infected",
+        verdict.signature,
+      );
+      return "infected";
+    }
+    if (detector.isProtected()) {
+      await quarantineEvidence(indicatorId, evidence, "encrypted", null);
+      return "encrypted";
+    }
+
+    const saved = await saveScanResult(indicatorId, evidence._id, {
+      scanStatus: "clean",
+      scanError: null,
+      scannedAt: new Date(),
+    });
+    if (saved) queueEvidencePreviews(indicatorId, [{ evidence, source }]);
+    return "clean";
+  } catch (err: any) {
+    const attempts = (evidence.scanAttempts ?? 0) + 1;
+    const status = attempts >= MAX_SCAN_ATTEMPTS ? "failed" : "pending";
+    logger.warn(
+      `[SCAN] ${evidence.fileName} (${evidence._id}) attempt ${attempts}: ${err?.message || err}`,
+    );
+    await saveScanResult(indicatorId, evidence._id, {
+      scanStatus: status,
+      scanAttempts: attempts,
+      scanError: String(err?.message || err).slice(0, 200),
+      ...(status === "failed" && { scannedAt: new Date() }),
+    });
+    return status;
+  }
+};
+
+/* =====================================================
+   IN-PROCESS QUEUE
+   Files are scanned one at a time after the response has
+   gone out. Anything lost on restart is picked up by the
+   evidence scan job.
+===================================================== */
+
+let queue: Promise<unknown> = Promise.resolve();
+
+export const queueEvidenceScans = (
+  indicatorId: Types.ObjectId | string,
+  items: { evidence: ScanSource; source?: Buffer }[],
+) => {
+  items.forEach(({ evidence, source }) => {
+    queue = queue
+      .then(() => scanEvidence(indicatorId, evidence, source))
+      .catch((err) =>
+        logger.error(`[SCAN] queue failure: ${err?.message || err}`),
+      );
+  });
+};
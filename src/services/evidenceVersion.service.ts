@@ -0,0 +1,196 @@
+import { Types } from "mongoose";
+import ErrorHandler from "../middleware/errorMiddlewares";
+import { IEvidence, IIndicator, IndicatorDocument } from "../models/Indicator";
+import { isEvidenceServable } from "./evidenceScan.service";
+
+/* =====================================================
+   SLOTS
+   A slot is one evidence requirement. Each upload into the
+   slot supersedes the previous one; the chain is ordered by
+   revision. Evidence stored before versioning has no slotId
+   and forms a slot of its own.
+===================================================== */
+
+export const evidenceSlotOf = (ev: Pick<IEvidence, "_id" | "slotId">) =>
+  String(ev.slotId ?? ev._id);
+
+export const getSlotVersions = (
+  indicator: Pick<IIndicator, "evidence">,
+  slotId: string,
+) =>
+  indicator.evidence
+    .filter((ev) => evidenceSlotOf(ev) === slotId)
+    .sort(
+      (a, b) =>
+        (a.revision ?? 1) - (b.revision ?? 1) ||
+        new Date(a.uploadedAt).getTime() - new Date(b.uploadedAt).getTime(),
+    );
+
+// The live version is the latest one that has not been archived
+export const getCurrentSlotVersion = (
+  indicator: Pick<IIndicator, "evidence">,
+  slotId: string,
+) =>
+  getSlotVersions(indicator, slotId)
+    .filter((ev) => !ev.isArchived)
+    .pop() ?? null;
+
+const archiveVersion = (ev: IEvidence) => {
+  ev.status = "archived";
+  ev.isArchived = true;
+  ev.archivedAt = new Date();
+};
+
+/**
+ * Works out which earlier evidence each new file replaces.
+ * `supersedes[i]` names the evidence replaced by file i; when it is
+ * omitted, files pair up in order with the rejected evidence still on
+ * the indicator, and anything beyond that opens a new slot.
+ */
+export const resolveSupersededEvidence = (
+  indicator: Pick<IIndicator, "evidence">,
+  supersedes: unknown,
+  fileCount: number,
+) => {
+  const requested: string[] = Array.isArray(supersedes)
+    ? supersedes.map(String)
+    : typeof supersedes === "string" && supersedes
+      ? [supersedes]
+      : [];
+
+  const rejected = indicator.evidence
+    .filter((ev) => ev.status === "rejected")
+    .sort(
+      (a, b) =>
+        new Date(a.uploadedAt).getTime() - new Date(b.uploadedAt).getTime(),
+    );
+
+  const used = new Set<string>();
+  const previous: (IEvidence | null)[] = [];
+
+  for (let i = 0; i < fileCount; i++) {
+    let target: IEvidence | undefined;
+
+    if (requested[i]) {
+      target = indicator.evidence.find((ev) => String(ev._id) === requested[i]);
+      if (!target)
+        throw new ErrorHandler(
+          400,
+          `Evidence ${requested[i]} to supersede was not found`,
+        );
+    } else if (!requested.length) {
+      target = rejected.find((ev) => !used.has(evidenceSlotOf(ev)));
+    }
+
+    if (target) {
+      const slot = evidenceSlotOf(target);
+      if (used.has(slot))
+        throw new ErrorHandler(
+          400,
+          "Two files cannot replace the same evidence",
+        );
+      used.add(slot);
+      // Always chain onto the newest version of the slot
+      target = getSlotVersions(indicator, slot).pop()!;
+    }
+
+    previous.push(target ?? null);
+  }
+
+  return previous;
+};
+
+/**
+ * Archives whatever is still live in the slots being replaced.
+ */
+export const archiveSupersededVersions = (
+  indicator: Pick<IIndicator, "evidence">,
+  previous: (IEvidence | null)[],
+) => {
+  previous.forEach((prev) => {
+    if (!prev) return;
+    getSlotVersions(indicator, evidenceSlotOf(prev))
+      .filter((ev) => !ev.isArchived)
+      .forEach(archiveVersion);
+  });
+};
+
+/* =====================================================
+   HISTORY
+===================================================== */
+
+export const getEvidenceHistory = (
+  indicator: Pick<IIndicator, "evidence">,
+  evidenceId: string,
+) => {
+  const evidence = indicator.evidence.find(
+    (ev) => String(ev._id) === evidenceId,
+  );
+  if (!evidence) throw new ErrorHandler(404, "Evidence not found");
+
+  const slotId = evidenceSlotOf(evidence);
+  const current = getCurrentSlotVersion(indicator, slotId);
+
+  return {
+    slotId,
+    currentVersionId: current?._id ?? null,
+    versions: getSlotVersions(indicator, slotId).map((ev) => ({
+      _id: ev._id,
+      revision: ev.revision ?? 1,
+      supersedes: ev.supersedes ?? null,
+      fileName: ev.fileName,
+      fileSize: ev.fileSize,
+      mimeType: ev.mimeType,
+      description: ev.description,
+      status: ev.status,
+      isCurrent: !!current && String(current._id) === String(ev._id),
+      uploadedBy: ev.uploadedBy,
+      uploadedAt: ev.uploadedAt,
+      archivedAt: ev.archivedAt ?? null,
+      rejectionReason: ev.rejectionReason || null,
+      rejectedBy: ev.rejectedBy ?? null,
+      rejectedAt: ev.rejectedAt ?? null,
+      restoredBy: ev.restoredBy ?? null,
+      restoredAt: ev.restoredAt ?? null,
+    })),
+  };
+};
+
+/* =====================================================
+   RESTORE
+===================================================== */
+
+/**
+ * Makes an earlier version live again and archives the version it
+ * replaces. Rejection details stay on the record for the audit trail.
+ */
+export const restoreEvidenceVersion = (
+  indicator: IndicatorDocument,
+  evidenceId: string,
+  restoredBy: Types.ObjectId,
+) => {
+  const target = indicator.evidence.find((ev) => String(ev._id) === evidenceId);
+  if (!target) throw new ErrorHandler(404, "Evidence not found");
+  if (!isEvidenceServable(target))
+    throw new ErrorHandler(
+      409,
+      "Only files cleared by the scanner can be restored",
+    );
+
+  const slotId = evidenceSlotOf(target);
+  const current = getCurrentSlotVersion(indicator, slotId);
+  if (current && String(current._id) === evidenceId)
+    throw new ErrorHandler(409, "This version is already the current one");
+
+  getSlotVersions(indicator, slotId)
+    .filter((ev) => !ev.isArchived)
+    .forEach(archiveVersion);
+
+  target.status = "active";
+  target.isArchived = false;
+  target.archivedAt = undefined;
+  target.restoredBy = restoredBy;
+  target.restoredAt = new Date();
+
+  return { restored: target, replaced: current };
+};
@@ -0,0 +1,301 @@
+import AdmZip from "adm-zip";
+import path from "path";
+import zlib from "zlib";
+import {
+  EVIDENCE_MIME_TYPES,
+  MAX_EVIDENCE_FILE_SIZE,
+  ZIP_MIME_TYPES,
+} from "../middleware/multer";
+
+/* =====================================================
+   TYPES
+===================================================== */
+
+export type UploadReportStatus = "accepted" | "rejected" | "skipped";
+
+export interface UploadReportItem {
+  source: string;
+  entry?: string;
+  status: UploadReportStatus;
+  reason?: string;
+  size?: number;
+}
+
+// One file ready for storage; sourceIndex points back at the upload it
+// came from so per-upload fields (descriptions) still line up
+export interface EvidenceUpload extends Pick<
+  Express.Multer.File,
+  "originalname" | "mimetype" | "size"
+> {
+  sourceIndex: number;
+  // Zip entries are inflated again only when stored, one at a time
+  read: () => Buffer;
+  // Set for plain uploads, which multer already holds in memory
+  buffer?: Buffer;
+}
+
+/* =====================================================
+   LIMITS
+===================================================== */
+
+const MAX_ZIP_ENTRIES = 100;
+const MAX_ZIP_TOTAL_SIZE = 50 * 1024 * 1024;
+// Scanned PDFs and images barely compress; anything beyond this is suspect
+const MAX_COMPRESSION_RATIO = 100;
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".bmp": "image/bmp",
+  ".webp": "image/webp",
+  ".pdf": "application/pdf",
+};
+
+/* =====================================================
+   HELPERS
+===================================================== */
+
+export const isZipUpload = (file: Pick<Express.Multer.File, "mimetype">) =>
+  ZIP_MIME_TYPES.includes(file.mimetype);
+
+// Entry names are only used as file names, but anything that would
+// escape a folder on extraction marks the archive as hostile
+const isUnsafeEntryPath = (name: string) => {
+  const normalised = name.replace(/\\/g, "/");
+  return (
+    normalised.startsWith("/") ||
+    /^[a-zA-Z]:/.test(normalised) ||
+    normalised.split("/").includes("..") ||
+    normalised.includes("\0")
+  );
+};
+
+// Hidden files and resource forks added by desktop zip tools
+const isJunkEntry = (name: string) =>
+  name
+    .replace(/\\/g, "/")
+    .split("/")
+    .some((part) => part === "__MACOSX" || part.startsWith("."));
+
+/**
+ * Checks the leading bytes so a renamed executable cannot pass as a PDF.
+ */
+const sniffMime = (buffer: Buffer) => {
+  if (buffer.subarray(0, 8).equals(Buffer.from("89504e470d0a1a0a", "hex")))
+    return "image/png";
+  if (buffer.subarray(0, 3).equals(Buffer.from("ffd8ff", "hex")))
+    return "image/jpeg";
+  if (buffer.subarray(0, 4).toString("latin1") === "GIF8") return "image/gif";
+  if (buffer.subarray(0, 2).toString("latin1") === "BM") return "image/bmp";
+  if (
+    buffer.subarray(0, 4).toString("latin1") === "RIFF" &&
+    buffer.subarray(8, 12).toString("latin1") === "WEBP"
+  )
+    return "image/webp";
+  if (buffer.subarray(0, 5).toString("latin1") === "%PDF-")
+    return "application/pdf";
+  return null;
+};
+
+// Declared types as browsers send them, mapped to what sniffMime reports
+const CANONICAL_MIME: Record<string, string> = {
+  "image/jpg": "image/jpeg",
+  "application/x-zip-compressed": "application/zip",
+};
+
+export const contentMatchesMime = (buffer: Buffer, mimeType: string) => {
+  const expected = CANONICAL_MIME[mimeType] ?? mimeType;
+  if (expected === "application/zip")
+    return buffer.subarray(0, 4).equals(Buffer.from("504b0304", "hex"));
+  return sniffMime(buffer) === expected;
+};
+
+// What zlib throws once output passes maxOutputLength
+const OVERSIZED = "ERR_BUFFER_TOO_LARGE";
+
+/**
+ * Inflates one entry without trusting its header: output is capped at
+ * the per-file limit whatever size the entry declares, and the result
+ * must match the recorded checksum.
+ */
+const inflateEntry = (entry: AdmZip.IZipEntry) => {
+  const raw = entry.getCompressedData();
+  let data: Buffer;
+  switch (entry.header.method) {
+    case 0:
+      data = raw;
+      break;
+    case 8:
+      data = zlib.inflateRawSync(raw, {
+        maxOutputLength: MAX_EVIDENCE_FILE_SIZE,
+      });
+      break;
+    default:
+      throw new Error("Unsupported compression method");
+  }
+  if (data.length > MAX_EVIDENCE_FILE_SIZE)
+    throw Object.assign(new Error("Entry exceeds the file size limit"), {
+      code: OVERSIZED,
+    });
+  if (zlib.crc32(data) !== entry.header.crc)
+    throw new Error("Checksum mismatch");
+  return data;
+};
+
+/* =====================================================
+   EXPANSION
+===================================================== */
+
+/**
+ * Unpacks one zip into evidence files. Limits that concern the whole
+ * archive (entry count, total size) reject it outright; everything
+ * else is decided per entry and reported. Every entry is inflated here
+ * to check it, but only its size is kept; the returned uploads inflate
+ * again when read.
+ */
+const expandZip = (file: Express.Multer.File, sourceIndex: number) => {
+  const uploads: EvidenceUpload[] = [];
+  const report: UploadReportItem[] = [];
+  const source = file.originalname;
+  const rejectArchive = (reason: string) => ({
+    uploads: [],
+    report: [{ source, status: "rejected" as const, reason }],
+  });
+
+  let entries: AdmZip.IZipEntry[];
+  try {
+    entries = new AdmZip(file.buffer, { noSort: true }).getEntries();
+  } catch {
+    return rejectArchive("Not a readable zip archive");
+  }
+
+  const files = entries.filter((e) => !e.isDirectory);
+  if (files.length > MAX_ZIP_ENTRIES)
+    return rejectArchive(`Zip holds more than ${MAX_ZIP_ENTRIES} files`);
+
+  const declaredTotal = files.reduce((sum, e) => sum + e.header.size, 0);
+  if (declaredTotal > MAX_ZIP_TOTAL_SIZE)
+    return rejectArchive("Zip expands beyond the allowed total size");
+
+  let actualTotal = 0;
+
+  for (const entry of files) {
+    const name = entry.entryName;
+    const reject = (reason: string) =>
+      report.push({ source, entry: name, status: "rejected", reason });
+
+    if (isUnsafeEntryPath(name)) {
+      reject("Unsafe path inside the archive");
+      continue;
+    }
+    if (isJunkEntry(name)) {
+      report.push({ source, entry: name, status: "skipped" });
+      continue;
+    }
+    if (entry.header.flags & 1) {
+      reject("Encrypted entries are not supported");
+      continue;
+    }
+
+    const ext = path.extname(name).toLowerCase();
+    if (ext === ".zip") {
+      reject("Nested archives are not expanded");
+      continue;
+    }
+    const mimetype = MIME_BY_EXTENSION[ext];
+    if (!mimetype || !EVIDENCE_MIME_TYPES.includes(mimetype)) {
+      reject("File type is not allowed");
+      continue;
+    }
+
+    const { size, compressedSize } = entry.header;
+    if (size > MAX_EVIDENCE_FILE_SIZE) {
+      reject("File exceeds the 5MB limit");
+      continue;
+    }
+    if (size / Math.max(compressedSize, 1) > MAX_COMPRESSION_RATIO) {
+      reject("Suspicious compression ratio");
+      continue;
+    }
+
+    let length: number;
+    let matchesExtension: boolean;
+    try {
+      const buffer = inflateEntry(entry);
+      length = buffer.length;
+      matchesExtension = sniffMime(buffer) === mimetype;
+    } catch (err) {
+      // Output past the cap means the header understated the size
+      if ((err as NodeJS.ErrnoException).code === OVERSIZED)
+        return rejectArchive("Zip entry sizes do not match their headers");
+      reject("Entry is corrupt");
+      continue;
+    }
+
+    // Headers can lie about sizes; trust only what was inflated
+    actualTotal += length;
+    if (length !== size || actualTotal > MAX_ZIP_TOTAL_SIZE)
+      return rejectArchive("Zip entry sizes do not match their headers");
+
+    if (!matchesExtension) {
+      reject("File content does not match its extension");
+      continue;
+    }
+
+    uploads.push({
+      read: () => inflateEntry(entry),
+      originalname: path.posix.basename(name.replace(/\\/g, "/")),
+      mimetype,
+      size: length,
+      sourceIndex,
+    });
+    report.push({
+      source,
+      entry: name,
+      status: "accepted",
+      size: length,
+    });
+  }
+
+  return { uploads, report };
+};
+
+/**
+ * Turns the uploaded files into the list to store. With `expandZips`
+ * each zip is replaced, in place, by the files it contains; otherwise
+ * zips are kept as a single piece of evidence as before.
+ */
+export const expandEvidenceUploads = (
+  files: Express.Multer.File[],
+  expandZips: boolean,
+) => {
+  const uploads: EvidenceUpload[] = [];
+  const report: UploadReportItem[] = [];
+
+  files.forEach((file, sourceIndex) => {
+    if (expandZips && isZipUpload(file)) {
+      const expanded = expandZip(file, sourceIndex);
+      uploads.push(...expanded.uploads);
+      report.push(...expanded.report);
+      return;
+    }
+
+    uploads.push({
+      read: () => file.buffer,
+      buffer: file.buffer,
+      originalname: file.originalname,
+      mimetype: file.mimetype,
+      size: file.size,
+      sourceIndex,
+    });
+    report.push({
+      source: file.originalname,
+      status: "accepted",
+      size: file.size,
+    });
+  });
+
+  return { uploads, report };
+};
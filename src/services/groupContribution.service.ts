@@ -0,0 +1,128 @@
+import { Types } from "mongoose";
+import { IIndicator, IMemberContribution } from "../models/Indicator";
+
+/* =====================================================
+   GROUP ROLLUP
+   all      → average of members, complete when everyone is done
+   any      → best member, complete when anyone is done
+   weighted → weighted average, complete when every weighted member is done
+===================================================== */
+
+export const isGroupIndicator = (
+  indicator: Pick<IIndicator, "assignedToType" | "memberContributions">,
+) =>
+  indicator.assignedToType === "group" &&
+  (indicator.memberContributions?.length ?? 0) > 0;
+
+// An explicit score wins; otherwise completion counts as 100%
+const memberValue = (c: IMemberContribution) =>
+  typeof c.score === "number" ? c.score : c.completed ? 100 : 0;
+
+export const computeGroupRollup = (
+  indicator: Pick<IIndicator, "groupRollup" | "memberContributions">,
+) => {
+  const members = indicator.memberContributions ?? [];
+  const totalMembers = members.length;
+  const completedMembers = members.filter((c) => c.completed).length;
+
+  if (!totalMembers)
+    return { progress: 0, isComplete: false, completedMembers, totalMembers };
+
+  const values = members.map(memberValue);
+  let progress: number;
+  let isComplete: boolean;
+
+  switch (indicator.groupRollup) {
+    case "any":
+      progress = Math.max(...values);
+      isComplete = completedMembers > 0;
+      break;
+    case "weighted": {
+      const totalWeight = members.reduce((sum, c) => sum + (c.weight ?? 0), 0);
+      progress = totalWeight
+        ? members.reduce((sum, c, i) => sum + (c.weight ?? 0) * values[i], 0) /
+          totalWeight
+        : 0;
+      isComplete = members
+        .filter((c) => (c.weight ?? 0) > 0)
+        .every((c) => c.completed);
+      break;
+    }
+    default:
+      progress = values.reduce((sum, v) => sum + v, 0) / totalMembers;
+      isComplete = completedMembers === totalMembers;
+  }
+
+  return {
+    progress: Math.round(progress),
+    isComplete,
+    completedMembers,
+    totalMembers,
+  };
+};
+
+/* =====================================================
+   MEMBER UPDATES
+===================================================== */
+
+export const findContribution = (
+  indicator: Pick<IIndicator, "memberContributions">,
+  userId: Types.ObjectId | string,
+) =>
+  indicator.memberContributions?.find(
+    (c) => String(c.user) === String(userId),
+  );
+
+/**
+ * Flags a member as having contributed. Returns null when the
+ * uploader is not part of the group (e.g. an administrator).
+ */
+export const recordMemberSubmission = (
+  indicator: Pick<IIndicator, "memberContributions">,
+  userId: Types.ObjectId | string,
+) => {
+  const contribution = findContribution(indicator, userId);
+  if (!contribution) return null;
+
+  const now = new Date();
+  contribution.completed = true;
+  contribution.completedAt = contribution.completedAt ?? now;
+  contribution.lastSubmittedAt = now;
+  return contribution;
+};
+
+/**
+ * Clears a member's completion flag once none of their evidence remains.
+ */
+export const recordMemberWithdrawal = (
+  indicator: Pick<IIndicator, "memberContributions" | "evidence">,
+  userId: Types.ObjectId | string,
+) => {
+  const contribution = findContribution(indicator, userId);
+  if (!contribution) return null;
+
+  const stillHasEvidence = indicator.evidence.some(
+    (ev) => !ev.isArchived && String(ev.uploadedBy) === String(userId),
+  );
+  if (!stillHasEvidence) {
+    contribution.completed = false;
+    contribution.completedAt = null;
+  }
+  return contribution;
+};
+
+/**
+ * Resubmission archives every member's evidence, so every member starts
+ * over: completion and any score given for the old evidence are cleared.
+ */
+export const resetMemberContributions = (
+  indicator: Pick<IIndicator, "memberContributions">,
+) => {
+  indicator.memberContributions?.forEach((contribution) => {
+    contribution.completed = false;
+    contribution.completedAt = null;
+    contribution.score = null;
+    contribution.scoredBy = null;
+    contribution.scoredAt = null;
+  });
+};
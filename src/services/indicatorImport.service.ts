@@ -0,0 +1,250 @@
+import mongoose, { Types } from "mongoose";
+import { Category } from "../models/Category";
+import { Indicator, IndicatorDocument } from "../models/Indicator";
+import { User } from "../models/User";
+import {
+  createIndicatorSchema,
+  resolveIndicatorTitle,
+  validateCategories,
+} from "../utils/helpers";
+import { SpreadsheetRow } from "../utils/spreadsheet";
+import { resolveCycleForNewIndicator } from "./cycle.service";
+
+/* =====================================================
+   TYPES
+===================================================== */
+
+export interface ImportRowError {
+  row: number;
+  indicatorCode?: string;
+  errors: string[];
+}
+
+export interface PreparedIndicator {
+  row: number;
+  indicatorCode: string;
+  indicatorTitle: string;
+  assigneePjNumbers: string[];
+  cycle: Types.ObjectId;
+  data: Record<string, any>;
+}
+
+/* =====================================================
+   COLUMN MAPPING
+   Headers are normalised (case, spaces and punctuation ignored)
+===================================================== */
+const COLUMN_ALIASES: Record<string, string[]> = {
+  indicatorCode: ["indicatorcode", "code", "categorycode"],
+  pjNumbers: ["pjnumbers", "pjnumber", "assignees", "assignee"],
+  assignedToType: ["assignedtotype", "assignmenttype"],
+  unitOfMeasure: ["unitofmeasure", "unit", "uom"],
+  startDate: ["startdate", "start"],
+  dueDate: ["duedate", "due", "deadline"],
+  groupRollup: ["grouprollup", "rollup"],
+  reportingFrequency: ["reportingfrequency", "frequency", "reporting"],
+};
+
+const pick = (values: Record<string, string>, field: string) => {
+  for (const alias of COLUMN_ALIASES[field]) {
+    if (values[alias]) return values[alias].trim();
+  }
+  return "";
+};
+
+const splitList = (value: string) =>
+  value
+    .split(/[;,|]/)
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+/* =====================================================
+   VALIDATION (DRY RUN)
+===================================================== */
+
+/**
+ * Resolves category codes and PJ numbers and runs every row through the
+ * same Joi schema and category checks as single-indicator creation.
+ */
+export const validateImportRows = async (
+  rows: SpreadsheetRow[],
+  cycleId?: string,
+) => {
+  const errors: ImportRowError[] = [];
+  const prepared: PreparedIndicator[] = [];
+
+  const codes = new Set<string>();
+  const pjNumbers = new Set<string>();
+  rows.forEach(({ values }) => {
+    const code = pick(values, "indicatorCode");
+    if (code) codes.add(code);
+    splitList(pick(values, "pjNumbers")).forEach((pj) => pjNumbers.add(pj));
+  });
+
+  const [level3Categories, users] = await Promise.all([
+    Category.find({ code: { $in: [...codes] } })
+      .select("code level parent")
+      .lean(),
+    User.find({ pjNumber: { $in: [...pjNumbers] } })
+      .select("pjNumber")
+      .lean(),
+  ]);
+
+  const categoryByCode = new Map(level3Categories.map((c) => [c.code, c]));
+  const userByPj = new Map(users.map((u) => [u.pjNumber, u._id.toString()]));
+
+  const parentIds = level3Categories
+    .map((c) => c.parent)
+    .filter((id): id is Types.ObjectId => !!id);
+  const level2Categories = await Category.find({ _id: { $in: parentIds } })
+    .select("parent")
+    .lean();
+  const level2ById = new Map(level2Categories.map((c) => [String(c._id), c]));
+
+  const seen = new Set<string>();
+
+  for (const { rowNumber, values } of rows) {
+    const rowErrors: string[] = [];
+    const indicatorCode = pick(values, "indicatorCode");
+    const assigneePjNumbers = splitList(pick(values, "pjNumbers"));
+
+    if (!indicatorCode) rowErrors.push("Indicator code is required");
+    if (!assigneePjNumbers.length)
+      rowErrors.push("At least one PJ number is required");
+
+    const unknownPjs = assigneePjNumbers.filter((pj) => !userByPj.has(pj));
+    if (unknownPjs.length)
+      rowErrors.push(`Unknown PJ number(s): ${unknownPjs.join(", ")}`);
+
+    const indicatorCategory = indicatorCode
+      ? categoryByCode.get(indicatorCode)
+      : undefined;
+    if (indicatorCode && !indicatorCategory)
+      rowErrors.push(`Unknown category code: ${indicatorCode}`);
+
+    const level2 = indicatorCategory?.parent
+      ? level2ById.get(String(indicatorCategory.parent))
+      : undefined;
+
+    const assigneeIds = assigneePjNumbers
+      .map((pj) => userByPj.get(pj))
+      .filter((id): id is string => !!id);
+    const assignedToType =
+      pick(values, "assignedToType").toLowerCase() ||
+      (assigneeIds.length > 1 ? "group" : "individual");
+
+    const candidate = {
+      categoryId: level2?.parent ? String(level2.parent) : undefined,
+      level2CategoryId: level2 ? String(level2._id) : undefined,
+      indicatorId: indicatorCategory ? String(indicatorCategory._id) : undefined,
+      unitOfMeasure: pick(values, "unitOfMeasure"),
+      assignedToType,
+      assignedTo: assignedToType === "individual" ? assigneeIds[0] : null,
+      assignedGroup: assignedToType === "group" ? assigneeIds : [],
+      groupRollup: pick(values, "groupRollup").toLowerCase() || undefined,
+      reportingFrequency:
+        pick(values, "reportingFrequency").toLowerCase() || undefined,
+      startDate: pick(values, "startDate"),
+      dueDate: pick(values, "dueDate"),
+    };
+
+    const { error, value } = createIndicatorSchema.validate(candidate, {
+      stripUnknown: true,
+      abortEarly: false,
+    });
+    if (error) rowErrors.push(...error.details.map((d) => d.message));
+
+    let indicatorTitle = "";
+    let cycle: Types.ObjectId | null = null;
+    if (!error) {
+      try {
+        await validateCategories(value.categoryId, value.level2CategoryId);
+        indicatorTitle = await resolveIndicatorTitle(value.indicatorId);
+        cycle = await resolveCycleForNewIndicator(cycleId, value.startDate);
+      } catch (err: any) {
+        rowErrors.push(err.message);
+      }
+    }
+
+    const duplicateKey = `${indicatorCode}|${[...assigneePjNumbers].sort().join(",")}`;
+    if (seen.has(duplicateKey))
+      rowErrors.push("Duplicate of an earlier row (same code and assignees)");
+    seen.add(duplicateKey);
+
+    if (rowErrors.length || !cycle) {
+      errors.push({ row: rowNumber, indicatorCode, errors: rowErrors });
+      continue;
+    }
+
+    prepared.push({
+      row: rowNumber,
+      indicatorCode,
+      indicatorTitle,
+      assigneePjNumbers,
+      cycle,
+      data: value,
+    });
+  }
+
+  return { prepared, errors };
+};
+
+/* =====================================================
+   ATOMIC CREATION
+===================================================== */
+
+// Raised by a standalone server, which has no transactions
+const TRANSACTIONS_UNSUPPORTED = 20; // IllegalOperation
+
+const isTransactionUnsupported = (err: unknown) =>
+  (err as { code?: number })?.code === TRANSACTIONS_UNSUPPORTED;
+
+/**
+ * Creates every prepared indicator or none of them. On a replica set
+ * (or mongos) this is a single transaction. A standalone server has no
+ * transactions, so the rows are created one by one and any already
+ * written are deleted again if a later one fails.
+ */
+export const createImportedIndicators = async (
+  prepared: PreparedIndicator[],
+  createdBy: Types.ObjectId,
+) => {
+  const docs = prepared.map(({ indicatorTitle, cycle, data }) => ({
+    cycle,
+    category: data.categoryId,
+    level2Category: data.level2CategoryId,
+    indicatorTitle,
+    unitOfMeasure: data.unitOfMeasure,
+    assignedToType: data.assignedToType,
+    assignedTo: data.assignedTo || null,
+    assignedGroup: data.assignedGroup || [],
+    groupRollup: data.groupRollup,
+    reportingFrequency: data.reportingFrequency,
+    startDate: data.startDate,
+    dueDate: data.dueDate,
+    createdBy,
+    status: "pending",
+  }));
+
+  const session = await mongoose.startSession();
+  let created: IndicatorDocument[] = [];
+
+  try {
+    await session.withTransaction(async () => {
+      created = await Indicator.create(docs, { session, ordered: true });
+    });
+    return created;
+  } catch (err) {
+    if (!isTransactionUnsupported(err)) throw err;
+  } finally {
+    await session.endSession();
+  }
+
+  created = [];
+  try {
+    for (const doc of docs) created.push(await Indicator.create(doc));
+  } catch (err) {
+    await Indicator.deleteMany({ _id: { $in: created.map((i) => i._id) } });
+    throw err;
+  }
+  return created;
+};
@@ -0,0 +1,307 @@
+import Joi from "joi";
+import { Types } from "mongoose";
+import ErrorHandler from "../middleware/errorMiddlewares";
+import { Category } from "../models/Category";
+import { INDICATOR_STATUS, Indicator } from "../models/Indicator";
+import { ApiResponse, PaginationParams } from "../types/category";
+import { hasRole } from "../utils/helpers";
+import { resolveCycleFilter } from "./cycle.service";
+
+/* =====================================================
+   QUERY PARAMETERS
+===================================================== */
+
+export const INDICATOR_SORT_FIELDS = [
+  "createdAt",
+  "updatedAt",
+  "startDate",
+  "dueDate",
+  "progress",
+  "rejectionCount",
+  "indicatorTitle",
+  "status",
+] as const;
+type IndicatorSortField = (typeof INDICATOR_SORT_FIELDS)[number];
+
+// Heavy arrays stay out of list responses unless asked for
+export const OPTIONAL_INDICATOR_FIELDS = [
+  "evidence",
+  "editHistory",
+  "statusHistory",
+  "reviewStages",
+  "reviewRounds",
+  "memberContributions",
+  "reportingPeriods",
+  "scoreHistory",
+] as const;
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+const objectId = Joi.string().hex().length(24);
+
+// Comma-separated lists arrive as a single string
+const csv = (item: Joi.Schema) =>
+  Joi.array()
+    .items(item)
+    .single()
+    .custom((value: string[]) => value.flatMap((v) => v.split(",")));
+
+export interface IndicatorListQuery extends PaginationParams {
+  cursor?: string;
+  sortBy?: IndicatorSortField;
+  status?: string[];
+  categoryCode?: string;
+  level2Category?: string;
+  assignee?: string;
+  dueFrom?: Date;
+  dueTo?: Date;
+  result?: "pass" | "fail" | "none";
+  minRejections?: number;
+  maxRejections?: number;
+  include?: string[];
+  cycle?: string;
+}
+
+const indicatorListSchema = Joi.object<IndicatorListQuery>({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(MAX_LIMIT).default(DEFAULT_LIMIT),
+  cursor: Joi.string(),
+  sortBy: Joi.string().valid(...INDICATOR_SORT_FIELDS),
+  sortOrder: Joi.string().valid("asc", "desc"),
+  status: csv(Joi.string()),
+  categoryCode: Joi.string().trim(),
+  level2Category: objectId,
+  assignee: objectId,
+  dueFrom: Joi.date(),
+  dueTo: Joi.date(),
+  result: Joi.string().valid("pass", "fail", "none"),
+  minRejections: Joi.number().integer().min(0),
+  maxRejections: Joi.number().integer().min(0),
+  include: csv(Joi.string()),
+  cycle: Joi.string(),
+});
+
+export const parseIndicatorListQuery = (query: unknown) => {
+  const { error, value } = indicatorListSchema.validate(query, {
+    stripUnknown: true,
+    convert: true,
+  });
+  if (error) throw new ErrorHandler(400, error.message);
+
+  const invalidStatus = value.status?.find(
+    (s) => !(INDICATOR_STATUS as readonly string[]).includes(s),
+  );
+  if (invalidStatus)
+    throw new ErrorHandler(400, `Unknown status: ${invalidStatus}`);
+
+  const invalidInclude = value.include?.find(
+    (f) => !(OPTIONAL_INDICATOR_FIELDS as readonly string[]).includes(f),
+  );
+  if (invalidInclude)
+    throw new ErrorHandler(400, `Cannot include field: ${invalidInclude}`);
+
+  return value;
+};
+
+/* =====================================================
+   VISIBILITY
+   Admins see every indicator; users only those assigned
+   to them directly or through a group.
+===================================================== */
+
+export const isIndicatorAdmin = (role: string | undefined) =>
+  hasRole(role, ["admin", "superadmin"]);
+
+export const buildIndicatorVisibilityFilter = (user: {
+  _id: Types.ObjectId;
+  role: string;
+}): Record<string, any> =>
+  isIndicatorAdmin(user.role)
+    ? {}
+    : {
+        $or: [{ assignedTo: user._id }, { assignedGroup: { $in: [user._id] } }],
+      };
+
+/* =====================================================
+   FILTERS
+===================================================== */
+
+/**
+ * A category code may point at any level: level 1 and 2 match the
+ * stored category links, level 3 matches the indicator title under
+ * its level-2 parent.
+ */
+const buildCategoryCodeFilter = async (code: string) => {
+  const category = await Category.findOne({ code }).select(
+    "level parent title",
+  );
+  if (!category) throw new ErrorHandler(404, `Unknown category code: ${code}`);
+
+  switch (category.level) {
+    case 1:
+      return { category: category._id };
+    case 2:
+      return { level2Category: category._id };
+    case 3:
+      return {
+        level2Category: category.parent,
+        indicatorTitle: category.title,
+      };
+    default:
+      throw new ErrorHandler(400, "Filter by a level 1–3 category code");
+  }
+};
+
+/**
+ * Returns one clause per requested filter so they can be AND-ed with
+ * the caller's visibility rules without overwriting each other.
+ */
+export const buildIndicatorListFilter = async (params: IndicatorListQuery) => {
+  const clauses: Record<string, any>[] = [];
+
+  if (params.status?.length) clauses.push({ status: { $in: params.status } });
+  if (params.categoryCode)
+    clauses.push(await buildCategoryCodeFilter(params.categoryCode));
+  if (params.level2Category)
+    clauses.push({
+      level2Category: new Types.ObjectId(params.level2Category),
+    });
+  if (params.assignee) {
+    const assignee = new Types.ObjectId(params.assignee);
+    clauses.push({
+      $or: [{ assignedTo: assignee }, { assignedGroup: assignee }],
+    });
+  }
+  if (params.dueFrom || params.dueTo)
+    clauses.push({
+      dueDate: {
+        ...(params.dueFrom && { $gte: params.dueFrom }),
+        ...(params.dueTo && { $lte: params.dueTo }),
+      },
+    });
+  if (params.result)
+    clauses.push({ result: params.result === "none" ? null : params.result });
+  if (params.minRejections !== undefined || params.maxRejections !== undefined)
+    clauses.push({
+      rejectionCount: {
+        ...(params.minRejections !== undefined && {
+          $gte: params.minRejections,
+        }),
+        ...(params.maxRejections !== undefined && {
+          $lte: params.maxRejections,
+        }),
+      },
+    });
+
+  const cycle = await resolveCycleFilter(params.cycle);
+  if (cycle) clauses.push({ cycle });
+
+  return clauses;
+};
+
+/* =====================================================
+   CURSOR
+   Encodes the last row's sort value and _id so the next
+   page resumes after it whatever the sort field is.
+===================================================== */
+
+const DATE_SORT_FIELDS: IndicatorSortField[] = [
+  "createdAt",
+  "updatedAt",
+  "startDate",
+  "dueDate",
+];
+
+const encodeCursor = (value: unknown, id: Types.ObjectId) =>
+  Buffer.from(JSON.stringify({ v: value, id: String(id) })).toString(
+    "base64url",
+  );
+
+const decodeCursor = (cursor: string, sortBy: IndicatorSortField) => {
+  try {
+    const { v, id } = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8"),
+    );
+    if (!Types.ObjectId.isValid(id)) throw new Error();
+    return {
+      value: DATE_SORT_FIELDS.includes(sortBy) ? new Date(v) : v,
+      id: new Types.ObjectId(id),
+    };
+  } catch {
+    throw new ErrorHandler(400, "Invalid cursor");
+  }
+};
+
+/* =====================================================
+   LIST
+===================================================== */
+
+/**
+ * Runs a paginated listing on top of a caller-supplied base filter
+ * (visibility, fixed statuses). Page mode is the default; passing a
+ * cursor switches to keyset pagination and skips the offset.
+ */
+export const listIndicators = async (
+  baseFilter: Record<string, any>,
+  query: unknown,
+  defaults: { sortBy: IndicatorSortField; sortOrder: "asc" | "desc" },
+  populate: { path: string; select: string }[] = [],
+) => {
+  const params = parseIndicatorListQuery(query);
+  const sortBy = params.sortBy ?? defaults.sortBy;
+  const sortOrder = params.sortOrder ?? defaults.sortOrder;
+  const direction = sortOrder === "asc" ? 1 : -1;
+  const limit = params.limit ?? DEFAULT_LIMIT;
+  const page = params.page ?? 1;
+
+  const filter = {
+    $and: [baseFilter, ...(await buildIndicatorListFilter(params))],
+  };
+
+  const conditions = [...filter.$and];
+  if (params.cursor) {
+    const { value, id } = decodeCursor(params.cursor, sortBy);
+    const op = direction === 1 ? "$gt" : "$lt";
+    conditions.push({
+      $or: [
+        { [sortBy]: { [op]: value } },
+        { [sortBy]: value, _id: { [op]: id } },
+      ],
+    });
+  }
+
+  const projection = Object.fromEntries(
+    OPTIONAL_INDICATOR_FIELDS.filter((f) => !params.include?.includes(f)).map(
+      (f) => [f, 0],
+    ),
+  );
+
+  let listQuery = Indicator.find({ $and: conditions })
+    .select(projection)
+    .sort({ [sortBy]: direction, _id: direction })
+    .limit(limit);
+  if (!params.cursor) listQuery = listQuery.skip((page - 1) * limit);
+  populate.forEach((p) => {
+    listQuery = listQuery.populate(p.path, p.select);
+  });
+
+  const [indicators, total] = await Promise.all([
+    listQuery.lean(),
+    Indicator.countDocuments(filter),
+  ]);
+
+  const last = indicators[indicators.length - 1];
+  const pagination: NonNullable<ApiResponse["pagination"]> = {
+    page: params.cursor ? null : page,
+    limit,
+    total,
+    totalPages: Math.ceil(total / limit),
+    nextCursor:
+      last && indicators.length === limit
+        ? encodeCursor((last as Record<string, any>)[sortBy], last._id)
+        : null,
+  };
+
+  return { indicators, pagination };
+};
@@ -0,0 +1,273 @@
+import mongoose, { Types } from "mongoose";
+import ErrorHandler from "../middleware/errorMiddlewares";
+import { Category } from "../models/Category";
+import { CycleDocument } from "../models/Cycle";
+import { Indicator, IndicatorDocument } from "../models/Indicator";
+import { User } from "../models/User";
+import { carryForwardMeasurement } from "./measurement.service";
+
+/* =====================================================
+   TYPES
+===================================================== */
+
+export interface RollForwardSource {
+  indicatorIds?: string[];
+  categoryId?: string;
+}
+
+export interface RollForwardDates {
+  startDate?: Date;
+  dueDate?: Date;
+}
+
+export interface RollForwardItem {
+  sourceId: Types.ObjectId;
+  indicatorTitle: string;
+  assignedToType: "individual" | "group";
+  assignees: Types.ObjectId[];
+  missingAssignees: Types.ObjectId[];
+  startDate: Date;
+  dueDate: Date;
+  data: Record<string, any>;
+}
+
+export interface RollForwardSkip {
+  sourceId: Types.ObjectId;
+  indicatorTitle: string;
+  reason: string;
+}
+
+/* =====================================================
+   HELPERS
+===================================================== */
+
+const assigneeKey = (ids: (Types.ObjectId | string)[]) =>
+  ids.map(String).sort().join(",");
+
+const duplicateKey = (
+  level2Category: Types.ObjectId,
+  indicatorTitle: string,
+  assignees: (Types.ObjectId | string)[],
+) => `${level2Category}|${indicatorTitle}|${assigneeKey(assignees)}`;
+
+/**
+ * Explicit dates apply to every clone. Otherwise each indicator keeps
+ * its position inside the year: dates move by the gap between the
+ * source cycle start and the target cycle start.
+ */
+const shiftDates = (
+  source: { startDate: Date; dueDate: Date; cycle?: any },
+  target: CycleDocument,
+  overrides: RollForwardDates,
+) => {
+  if (overrides.startDate && overrides.dueDate)
+    return { startDate: overrides.startDate, dueDate: overrides.dueDate };
+
+  // Indicators created before cycles existed simply start with the target
+  const anchor: Date = source.cycle?.startDate ?? source.startDate;
+  const offset = target.startDate.getTime() - new Date(anchor).getTime();
+
+  return {
+    startDate:
+      overrides.startDate ??
+      new Date(new Date(source.startDate).getTime() + offset),
+    dueDate:
+      overrides.dueDate ??
+      new Date(new Date(source.dueDate).getTime() + offset),
+  };
+};
+
+/* =====================================================
+   PREVIEW
+===================================================== */
+
+/**
+ * Works out which indicators would be cloned into the target cycle.
+ * Assignees who no longer exist are dropped and listed; indicators
+ * left with nobody assigned, or already present in the target cycle,
+ * are skipped.
+ */
+export const prepareRollForward = async (
+  target: CycleDocument,
+  source: RollForwardSource,
+  overrides: RollForwardDates = {},
+) => {
+  const filter: Record<string, any> = {};
+  if (source.indicatorIds?.length) {
+    filter._id = { $in: source.indicatorIds };
+  } else if (source.categoryId) {
+    const category = await Category.findById(source.categoryId)
+      .select("level")
+      .lean();
+    if (!category) throw new ErrorHandler(404, "Category not found");
+    if (category.level !== 1)
+      throw new ErrorHandler(400, "Roll forward takes a level-1 category");
+    filter.category = category._id;
+  } else {
+    throw new ErrorHandler(400, "Provide indicatorIds or a categoryId");
+  }
+
+  const sources = await Indicator.find(filter)
+    .select(
+      "cycle category level2Category indicatorTitle unitOfMeasure measurement assignedToType assignedTo assignedGroup groupRollup reportingFrequency memberContributions startDate dueDate",
+    )
+    .populate("cycle", "startDate")
+    .lean();
+  if (!sources.length)
+    throw new ErrorHandler(404, "No indicators matched the selection");
+
+  const referenced = new Set<string>();
+  sources.forEach((i) => {
+    if (i.assignedTo) referenced.add(String(i.assignedTo));
+    i.assignedGroup?.forEach((id) => referenced.add(String(id)));
+  });
+  const existingUsers = new Set(
+    (
+      await User.find({ _id: { $in: [...referenced] } })
+        .select("_id")
+        .lean()
+    ).map((u) => String(u._id)),
+  );
+
+  const alreadyInTarget = new Set(
+    (
+      await Indicator.find({ cycle: target._id })
+        .select("level2Category indicatorTitle assignedTo assignedGroup")
+        .lean()
+    ).map((i) =>
+      duplicateKey(
+        i.level2Category,
+        i.indicatorTitle,
+        i.assignedTo ? [i.assignedTo] : (i.assignedGroup ?? []),
+      ),
+    ),
+  );
+
+  const items: RollForwardItem[] = [];
+  const skipped: RollForwardSkip[] = [];
+
+  for (const indicator of sources) {
+    const original =
+      indicator.assignedToType === "individual"
+        ? indicator.assignedTo
+          ? [indicator.assignedTo]
+          : []
+        : (indicator.assignedGroup ?? []);
+    const assignees = original.filter((id) => existingUsers.has(String(id)));
+    const missingAssignees = original.filter(
+      (id) => !existingUsers.has(String(id)),
+    );
+
+    if (!assignees.length) {
+      skipped.push({
+        sourceId: indicator._id,
+        indicatorTitle: indicator.indicatorTitle,
+        reason: "None of the assignees exist any more",
+      });
+      continue;
+    }
+
+    const key = duplicateKey(
+      indicator.level2Category,
+      indicator.indicatorTitle,
+      assignees,
+    );
+    if (alreadyInTarget.has(key)) {
+      skipped.push({
+        sourceId: indicator._id,
+        indicatorTitle: indicator.indicatorTitle,
+        reason: "Already exists in the target cycle",
+      });
+      continue;
+    }
+    alreadyInTarget.add(key);
+
+    const { startDate, dueDate } = shiftDates(indicator, target, overrides);
+    if (dueDate <= startDate) {
+      skipped.push({
+        sourceId: indicator._id,
+        indicatorTitle: indicator.indicatorTitle,
+        reason: "Due date would fall before the start date",
+      });
+      continue;
+    }
+
+    // Member weights carry over; completion and scores start afresh
+    const weights = new Map(
+      (indicator.memberContributions ?? []).map((c) => [
+        String(c.user),
+        c.weight,
+      ]),
+    );
+
+    items.push({
+      sourceId: indicator._id,
+      indicatorTitle: indicator.indicatorTitle,
+      assignedToType: indicator.assignedToType,
+      assignees,
+      missingAssignees,
+      startDate,
+      dueDate,
+      data: {
+        cycle: target._id,
+        category: indicator.category,
+        level2Category: indicator.level2Category,
+        indicatorTitle: indicator.indicatorTitle,
+        unitOfMeasure: indicator.unitOfMeasure,
+        measurement: carryForwardMeasurement(indicator.measurement),
+        assignedToType: indicator.assignedToType,
+        assignedTo:
+          indicator.assignedToType === "individual" ? assignees[0] : null,
+        assignedGroup: indicator.assignedToType === "group" ? assignees : [],
+        groupRollup: indicator.groupRollup,
+        // Periods are rebuilt from the new dates when the clone is saved
+        reportingFrequency: indicator.reportingFrequency,
+        memberContributions:
+          indicator.assignedToType === "group"
+            ? assignees.map((user) => ({
+                user,
+                weight: weights.get(String(user)) ?? 1,
+                completed: false,
+              }))
+            : [],
+        startDate,
+        dueDate,
+      },
+    });
+  }
+
+  return { items, skipped };
+};
+
+/* =====================================================
+   CLONE
+===================================================== */
+
+/**
+ * Creates the prepared clones in one transaction. Progress, evidence,
+ * notes, scores, review stages and status all start from scratch.
+ */
+export const createRollForwardIndicators = async (
+  items: RollForwardItem[],
+  createdBy: Types.ObjectId,
+) => {
+  const session = await mongoose.startSession();
+  let created: IndicatorDocument[] = [];
+
+  try {
+    await session.withTransaction(async () => {
+      created = await Indicator.create(
+        items.map(({ data }) => ({
+          ...data,
+          createdBy,
+          status: "pending",
+        })),
+        { session, ordered: true },
+      );
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  return created;
+};
@@ -0,0 +1,205 @@
+import { Types } from "mongoose";
+import ErrorHandler from "../middleware/errorMiddlewares";
+import { IndicatorDocument, IndicatorStatus } from "../models/Indicator";
+
+/* =====================================================
+   TYPES
+===================================================== */
+
+/**
+ * "system" is reserved for background jobs (e.g. overdue detection)
+ * and is never derived from a logged-in user's role.
+ */
+export type TransitionActor = "user" | "admin" | "superadmin" | "system";
+
+/**
+ * Named code paths that unlock moves the actor may not make by hand:
+ * an admin uploading evidence on the assignee's behalf, a reviewer
+ * deciding a stage of the review chain, or a reviewer scoring.
+ */
+export type TransitionPath = "admin-upload" | "review" | "score";
+
+interface TransitionRule {
+  to: IndicatorStatus;
+  actors: TransitionActor[];
+  description: string;
+  path?: TransitionPath;
+}
+
+export interface TransitionContext {
+  by?: Types.ObjectId | null;
+  role?: string;
+  reason?: string;
+  path?: TransitionPath;
+}
+
+/* =====================================================
+   TRANSITION TABLE
+   Every status change on an Indicator must be listed here.
+===================================================== */
+
+const REVIEWERS: TransitionActor[] = ["admin", "superadmin"];
+const EVERYONE: TransitionActor[] = ["user", "admin", "superadmin"];
+
+export const INDICATOR_TRANSITIONS: Record<IndicatorStatus, TransitionRule[]> =
+  {
+    pending: [
+      { to: "submitted", actors: EVERYONE, description: "Submit evidence" },
+      { to: "approved", actors: REVIEWERS, description: "Admin direct upload", path: "admin-upload" },
+      { to: "partially_completed", actors: REVIEWERS, description: "Partial score", path: "score" },
+      { to: "overdue", actors: ["system"], description: "Due date passed" },
+    ],
+    submitted: [
+      { to: "approved", actors: REVIEWERS, description: "Admin approval", path: "review" },
+      { to: "approved", actors: REVIEWERS, description: "Admin direct upload", path: "admin-upload" },
+      { to: "completed", actors: REVIEWERS, description: "Final sign-off", path: "review" },
+      { to: "rejected", actors: REVIEWERS, description: "Reject submission", path: "review" },
+      { to: "partially_completed", actors: REVIEWERS, description: "Partial score", path: "score" },
+      { to: "pending", actors: EVERYONE, description: "All evidence withdrawn" },
+    ],
+    partially_completed: [
+      { to: "submitted", actors: EVERYONE, description: "Submit further evidence" },
+      { to: "approved", actors: REVIEWERS, description: "Admin approval", path: "review" },
+      { to: "approved", actors: REVIEWERS, description: "Admin direct upload", path: "admin-upload" },
+      { to: "completed", actors: REVIEWERS, description: "Final sign-off", path: "review" },
+      { to: "rejected", actors: REVIEWERS, description: "Reject submission", path: "review" },
+      { to: "overdue", actors: ["system"], description: "Next deadline passed" },
+    ],
+    approved: [
+      { to: "completed", actors: REVIEWERS, description: "Final sign-off", path: "review" },
+      { to: "rejected", actors: REVIEWERS, description: "Reject submission", path: "review" },
+      { to: "partially_completed", actors: REVIEWERS, description: "Partial score", path: "score" },
+    ],
+    rejected: [
+      { to: "submitted", actors: EVERYONE, description: "Resubmit evidence" },
+      { to: "approved", actors: REVIEWERS, description: "Admin direct upload", path: "admin-upload" },
+      { to: "pending", actors: EVERYONE, description: "All evidence withdrawn" },
+      { to: "overdue", actors: ["system"], description: "Due date passed" },
+    ],
+    overdue: [
+      { to: "submitted", actors: EVERYONE, description: "Late submission" },
+      { to: "approved", actors: REVIEWERS, description: "Admin direct upload", path: "admin-upload" },
+      { to: "partially_completed", actors: REVIEWERS, description: "Partial score", path: "score" },
+      { to: "rejected", actors: REVIEWERS, description: "Reject submission", path: "review" },
+    ],
+    completed: [
+      { to: "rejected", actors: ["superadmin"], description: "Reopen sealed record" },
+    ],
+  };
+
+/* =====================================================
+   HELPERS
+===================================================== */
+
+export const resolveActor = (role?: string): TransitionActor => {
+  const normalized = role?.toLowerCase();
+  if (normalized === "superadmin" || normalized === "admin") return normalized;
+  if (normalized === "system") return "system";
+  return "user";
+};
+
+/**
+ * Lists the moves out of `status` that the given role may perform
+ * directly. Moves bound to a code path are left out.
+ */
+export const getAllowedTransitions = (
+  status: IndicatorStatus,
+  role?: string,
+) => {
+  const actor = resolveActor(role);
+  return INDICATOR_TRANSITIONS[status]
+    .filter((rule) => !rule.path && rule.actors.includes(actor))
+    .map(({ to, description }) => ({ to, description }));
+};
+
+export const canTransition = (
+  from: IndicatorStatus,
+  to: IndicatorStatus,
+  role?: string,
+  path?: TransitionPath,
+) => {
+  if (from === to) return true;
+  const actor = resolveActor(role);
+  return INDICATOR_TRANSITIONS[from].some(
+    (rule) =>
+      rule.to === to &&
+      rule.actors.includes(actor) &&
+      (!rule.path || rule.path === path),
+  );
+};
+
+// Statuses in which a submission is still waiting on reviewers
+const UNDER_REVIEW: IndicatorStatus[] = ["submitted", "approved"];
+
+/**
+ * Keeps `reviewRounds` in step with the status: every move to
+ * "submitted" opens a round and the first move out of review closes
+ * it. An intermediate "approved" leaves the round open for the next
+ * stage of the chain. A submission after stage decisions have been
+ * recorded starts a new `reviewRound`, so earlier approvals never
+ * count towards the new evidence.
+ */
+const trackReviewRound = (
+  indicator: IndicatorDocument,
+  to: IndicatorStatus,
+  by: Types.ObjectId | null,
+  at: Date,
+) => {
+  const open = indicator.reviewRounds.find((r) => !r.closedAt);
+  const closeOpenRound = (outcome: IndicatorStatus) => {
+    if (!open) return;
+    open.closedAt = at;
+    open.closedBy = by;
+    open.outcome = outcome;
+    if (open.slaDueAt && at > open.slaDueAt) open.slaBreached = true;
+  };
+
+  if (to === "submitted") {
+    closeOpenRound("submitted");
+    if (indicator.reviewStages.some((s) => s.round === indicator.reviewRound)) {
+      indicator.reviewRound += 1;
+    }
+    indicator.reviewRounds.push({
+      round: indicator.reviewRound,
+      submittedAt: at,
+      submittedBy: by,
+      slaBreached: false,
+    });
+  } else if (!UNDER_REVIEW.includes(to)) {
+    closeOpenRound(to);
+  }
+};
+
+/**
+ * Applies a status change to an indicator document, recording it in
+ * `statusHistory`. Staying in the same status is a no-op.
+ * Throws a 409 when the move is not in the transition table.
+ */
+export const transitionIndicator = (
+  indicator: IndicatorDocument,
+  to: IndicatorStatus,
+  { by = null, role, reason, path }: TransitionContext = {},
+) => {
+  const from = indicator.status;
+  if (from === to) return false;
+
+  if (!canTransition(from, to, role, path)) {
+    throw new ErrorHandler(
+      409,
+      `Illegal status transition: ${from} → ${to} is not permitted for ${resolveActor(role)}`,
+    );
+  }
+
+  const changedAt = new Date();
+  indicator.status = to;
+  indicator.statusHistory.push({
+    from,
+    to,
+    changedBy: by,
+    changedAt,
+    reason: reason ?? "",
+  });
+  trackReviewRound(indicator, to, by, changedAt);
+
+  return true;
+};
@@ -0,0 +1,248 @@
+import Joi from "joi";
+import { Types } from "mongoose";
+import ErrorHandler from "../middleware/errorMiddlewares";
+import {
+  IMeasurement,
+  IndicatorDocument,
+  IndicatorStatus,
+  MEASURE_DIRECTIONS,
+  MEASURE_TYPES,
+  MeasureDirection,
+  MeasureType,
+  MeasureValue,
+} from "../models/Indicator";
+
+/* =====================================================
+   VALUE SCHEMAS
+   Baseline, target and actual share the type of their
+   measure. Days and counts cannot be negative and
+   percentages stay within 0–100.
+===================================================== */
+
+const measureValue = Joi.when("type", {
+  switch: [
+    { is: "boolean", then: Joi.boolean() },
+    { is: "date", then: Joi.date() },
+    { is: "percentage", then: Joi.number().min(0).max(100) },
+    { is: Joi.valid("days", "count"), then: Joi.number().min(0) },
+  ],
+  otherwise: Joi.number(),
+});
+
+export const measurementDefinitionSchema = Joi.object({
+  type: Joi.string()
+    .valid(...MEASURE_TYPES)
+    .required(),
+  direction: Joi.string().valid(...MEASURE_DIRECTIONS),
+  baseline: measureValue.allow(null),
+  target: measureValue.required(),
+});
+
+// Turnaround in days and deadlines are met by coming in under target
+const DEFAULT_DIRECTION: Record<MeasureType, MeasureDirection> = {
+  number: "higher",
+  percentage: "higher",
+  days: "lower",
+  count: "higher",
+  boolean: "higher",
+  date: "lower",
+};
+
+/**
+ * Validates a target definition from a request body. Any actual already
+ * recorded is kept and re-checked against the new type.
+ */
+export const parseMeasurementDefinition = (
+  input: unknown,
+  existing?: IMeasurement | null,
+): IMeasurement => {
+  const { error, value } = measurementDefinitionSchema.validate(input, {
+    stripUnknown: true,
+  });
+  if (error) throw new ErrorHandler(400, `measurement: ${error.message}`);
+
+  const measurement: IMeasurement = {
+    type: value.type,
+    direction: value.direction ?? DEFAULT_DIRECTION[value.type as MeasureType],
+    baseline: value.baseline ?? null,
+    target: value.target,
+    actual: null,
+    actualRecordedAt: null,
+    actualRecordedBy: null,
+  };
+
+  if (existing?.actual != null && existing.type === measurement.type)
+    Object.assign(measurement, {
+      actual: existing.actual,
+      actualRecordedAt: existing.actualRecordedAt,
+      actualRecordedBy: existing.actualRecordedBy,
+    });
+
+  return measurement;
+};
+
+export const parseActualValue = (measurement: IMeasurement, input: unknown) => {
+  const { error, value } = Joi.object({
+    type: Joi.string(),
+    actual: measureValue.required(),
+  }).validate({ type: measurement.type, actual: input });
+  if (error) throw new ErrorHandler(400, error.message);
+  return value.actual as MeasureValue;
+};
+
+/* =====================================================
+   PROGRESS DERIVATION
+===================================================== */
+
+const clampPercent = (value: number) =>
+  Math.round(Math.min(100, Math.max(0, value)));
+
+/**
+ * Progress (0–100) implied by the actual against the target, or null
+ * while no actual has been recorded. With a baseline, progress is the
+ * share of the distance from baseline to target that has been covered;
+ * without one it is the ratio of actual to target. Yes/no and date
+ * measures are met or not met.
+ */
+export const deriveProgress = (measurement: IMeasurement): number | null => {
+  const { type, direction, baseline, target, actual } = measurement;
+  if (actual == null) return null;
+  const lowerIsBetter = direction === "lower";
+
+  if (type === "boolean") return actual === target ? 100 : 0;
+
+  if (type === "date") {
+    const met = lowerIsBetter
+      ? new Date(actual as Date) <= new Date(target as Date)
+      : new Date(actual as Date) >= new Date(target as Date);
+    return met ? 100 : 0;
+  }
+
+  const a = Number(actual);
+  const t = Number(target);
+  const b = baseline == null ? null : Number(baseline);
+
+  if (b !== null && b !== t) return clampPercent(((a - b) / (t - b)) * 100);
+
+  if (lowerIsBetter) {
+    if (a <= t) return 100;
+    return a > 0 ? clampPercent((t / a) * 100) : 0;
+  }
+  if (t <= 0) return a >= t ? 100 : 0;
+  return clampPercent((a / t) * 100);
+};
+
+// Statuses in which the assignee still owns the record
+const ASSIGNEE_EDITABLE: IndicatorStatus[] = [
+  "pending",
+  "rejected",
+  "overdue",
+  "partially_completed",
+];
+
+/**
+ * Assignees may report an actual only while the record is with them;
+ * reviewers may also correct one under review. Sealed records are
+ * closed to both.
+ */
+export const assertActualEditable = (
+  indicator: Pick<IndicatorDocument, "status">,
+  isReviewer: boolean,
+) => {
+  if (indicator.status === "completed")
+    throw new ErrorHandler(403, "Record is sealed and cannot be modified");
+  if (!isReviewer && !ASSIGNEE_EDITABLE.includes(indicator.status))
+    throw new ErrorHandler(
+      409,
+      `Actuals cannot be recorded while the indicator is ${indicator.status}`,
+    );
+};
+
+/**
+ * Stores a new actual. Progress feeds the score, so it only moves to
+ * match when `applyProgress` is set (reviewers); otherwise it is
+ * applied when the record is approved. Returns the change entries for
+ * the indicator's edit history.
+ */
+export const recordActualValue = (
+  indicator: IndicatorDocument,
+  actual: MeasureValue,
+  recordedBy: Types.ObjectId,
+  { applyProgress }: { applyProgress: boolean },
+) => {
+  const measurement = indicator.measurement!;
+  const changes: Record<string, { old: any; new: any }> = {
+    "measurement.actual": { old: measurement.actual ?? null, new: actual },
+  };
+
+  measurement.actual = actual;
+  measurement.actualRecordedAt = new Date();
+  measurement.actualRecordedBy = recordedBy;
+
+  const progress = applyProgress ? deriveProgress(measurement) : null;
+  if (progress !== null && progress !== indicator.progress) {
+    changes.progress = { old: indicator.progress, new: progress };
+    indicator.progress = progress;
+  }
+  return changes;
+};
+
+/**
+ * Target for the same indicator in the next cycle: last cycle's actual
+ * becomes the baseline and the actual starts empty.
+ */
+export const carryForwardMeasurement = (
+  measurement: IMeasurement | null | undefined,
+): IMeasurement | null =>
+  measurement
+    ? {
+        type: measurement.type,
+        direction: measurement.direction,
+        baseline: measurement.actual ?? measurement.baseline ?? null,
+        target: measurement.target,
+        actual: null,
+        actualRecordedAt: null,
+        actualRecordedBy: null,
+      }
+    : null;
+
+/* =====================================================
+   DISPLAY
+===================================================== */
+
+export const formatMeasureValue = (
+  type: MeasureType,
+  value: MeasureValue | null | undefined,
+) => {
+  if (value == null) return "—";
+  switch (type) {
+    case "boolean":
+      return value ? "Yes" : "No";
+    case "date":
+      return new Date(value as Date).toLocaleDateString("en-GB");
+    case "percentage":
+      return `${value}%`;
+    case "days":
+      return `${value} day${Number(value) === 1 ? "" : "s"}`;
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * One-line summary for reports, e.g. "Target 30 days · Actual 42 days
+ * (lower is better)".
+ */
+export const describeMeasurement = (measurement: IMeasurement) => {
+  const { type, direction, baseline, target, actual } = measurement;
+  const parts = [
+    ...(baseline != null
+      ? [`Baseline ${formatMeasureValue(type, baseline)}`]
+      : []),
+    `Target ${formatMeasureValue(type, target)}`,
+    `Actual ${formatMeasureValue(type, actual)}`,
+  ];
+  const note =
+    direction === "lower" && type !== "boolean" ? " (lower is better)" : "";
+  return parts.join(" · ") + note;
+};
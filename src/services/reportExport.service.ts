@@ -0,0 +1,191 @@
+import ExcelJS from "exceljs";
+import { parse } from "json2csv";
+import { IIndicator } from "../models/Indicator";
+import { isFormulaLike, neutralizeFormulas } from "../utils/spreadsheet";
+import { describeMeasurement } from "./measurement.service";
+
+/* =====================================================
+   REPORT EXPORT
+   Spreadsheet variants of the indicator reports. One
+   row per indicator; the columns are shared by CSV and
+   XLSX so both files line up for analysts.
+===================================================== */
+
+type PersonRef = { name?: string; pjNumber?: string } | null | undefined;
+type CategoryRef = { code?: string; title?: string } | null | undefined;
+
+// The references a report row reads, once populated
+export interface ReportIndicatorRefs {
+  category: CategoryRef;
+  level2Category: CategoryRef;
+  assignedTo?: PersonRef;
+  assignedGroup?: PersonRef[];
+  reviewedBy?: PersonRef;
+}
+
+export type ReportIndicator = Pick<
+  IIndicator,
+  | "indicatorTitle"
+  | "unitOfMeasure"
+  | "assignedToType"
+  | "status"
+  | "progress"
+  | "measurement"
+  | "scoreHistory"
+  | "startDate"
+  | "dueDate"
+  | "reviewedAt"
+> &
+  ReportIndicatorRefs;
+
+export interface ReportRow {
+  indicatorTitle: string;
+  categoryCode: string;
+  category: string;
+  objectiveCode: string;
+  objective: string;
+  unitOfMeasure: string;
+  assignedToType: string;
+  assignees: string;
+  assigneePjNumbers: string;
+  status: string;
+  progress: number;
+  targetActual: string;
+  latestScore: number | null;
+  scoreHistory: string;
+  startDate: Date | null;
+  dueDate: Date | null;
+  reviewedBy: string;
+  reviewerPjNumber: string;
+  reviewedAt: Date | null;
+}
+
+const COLUMNS: { label: string; value: keyof ReportRow; width: number }[] = [
+  { label: "Indicator", value: "indicatorTitle", width: 48 },
+  { label: "Category Code", value: "categoryCode", width: 14 },
+  { label: "Category", value: "category", width: 30 },
+  { label: "Objective Code", value: "objectiveCode", width: 14 },
+  { label: "Objective", value: "objective", width: 30 },
+  { label: "Unit of Measure", value: "unitOfMeasure", width: 18 },
+  { label: "Assignment", value: "assignedToType", width: 12 },
+  { label: "Assignees", value: "assignees", width: 30 },
+  { label: "Assignee PJ Numbers", value: "assigneePjNumbers", width: 22 },
+  { label: "Status", value: "status", width: 18 },
+  { label: "Progress (%)", value: "progress", width: 12 },
+  { label: "Target / Actual", value: "targetActual", width: 36 },
+  { label: "Latest Score (%)", value: "latestScore", width: 14 },
+  { label: "Score History", value: "scoreHistory", width: 40 },
+  { label: "Start Date", value: "startDate", width: 12 },
+  { label: "Due Date", value: "dueDate", width: 12 },
+  { label: "Reviewed By", value: "reviewedBy", width: 24 },
+  { label: "Reviewer PJ Number", value: "reviewerPjNumber", width: 18 },
+  { label: "Reviewed At", value: "reviewedAt", width: 18 },
+];
+
+const DATE_COLUMNS = new Set<keyof ReportRow>([
+  "startDate",
+  "dueDate",
+  "reviewedAt",
+]);
+
+const isoDate = (value: Date | string) =>
+  new Date(value).toISOString().slice(0, 10);
+
+const toDate = (value: unknown) => (value ? new Date(value as Date) : null);
+
+/**
+ * Flattens indicators into report rows. Expects category,
+ * level2Category, assignees and reviewer to be populated.
+ */
+export const toReportRows = (indicators: ReportIndicator[]): ReportRow[] =>
+  indicators.map((i) => {
+    const category = i.category;
+    const objective = i.level2Category;
+    const assignees: PersonRef[] =
+      i.assignedToType === "group" ? (i.assignedGroup ?? []) : [i.assignedTo];
+    const people = assignees.filter((p): p is NonNullable<PersonRef> => !!p);
+    const reviewer = i.reviewedBy;
+    const scores = i.scoreHistory ?? [];
+
+    return {
+      indicatorTitle: i.indicatorTitle ?? "",
+      categoryCode: category?.code ?? "",
+      category: category?.title ?? "",
+      objectiveCode: objective?.code ?? "",
+      objective: objective?.title ?? "",
+      unitOfMeasure: i.unitOfMeasure ?? "",
+      assignedToType: i.assignedToType ?? "",
+      assignees: people.map((p) => p.name ?? "").join("; "),
+      assigneePjNumbers: people.map((p) => p.pjNumber ?? "").join("; "),
+      status: i.status ?? "",
+      progress: i.progress ?? 0,
+      targetActual: i.measurement ? describeMeasurement(i.measurement) : "",
+      latestScore: scores.length ? scores[scores.length - 1].score : null,
+      scoreHistory: scores
+        .map((s) => `${isoDate(s.submittedAt)}: ${s.score}%`)
+        .join("; "),
+      startDate: toDate(i.startDate),
+      dueDate: toDate(i.dueDate),
+      reviewedBy: reviewer?.name ?? "",
+      reviewerPjNumber: reviewer?.pjNumber ?? "",
+      reviewedAt: toDate(i.reviewedAt),
+    };
+  });
+
+// Leading BOM so Excel opens the file as UTF-8. Formula-like text is
+// prefixed with a quote so it opens as text.
+export const buildReportCsv = (rows: ReportRow[]) => {
+  const flat = rows.map((row) => ({
+    ...neutralizeFormulas(row),
+    startDate: row.startDate ? isoDate(row.startDate) : "",
+    dueDate: row.dueDate ? isoDate(row.dueDate) : "",
+    reviewedAt: row.reviewedAt ? row.reviewedAt.toISOString() : "",
+    latestScore: row.latestScore ?? "",
+  }));
+  const fields = COLUMNS.map(({ label, value }) => ({ label, value }));
+  const csv = flat.length
+    ? parse(flat, { fields })
+    : fields.map((f) => `"${f.label}"`).join(",");
+  return `\uFEFF${csv}`;
+};
+
+export const buildReportXlsx = async (
+  rows: ReportRow[],
+  { title, generatedBy }: { title: string; generatedBy: string },
+) => {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = generatedBy;
+  workbook.created = new Date();
+  workbook.title = title;
+
+  const sheet = workbook.addWorksheet("Indicators", {
+    views: [{ state: "frozen", ySplit: 1 }],
+  });
+  sheet.columns = COLUMNS.map(({ label, value, width }) => ({
+    header: label,
+    key: value,
+    width,
+    style: DATE_COLUMNS.has(value)
+      ? {
+          numFmt: value === "reviewedAt" ? "yyyy-mm-dd hh:mm" : "yyyy-mm-dd",
+        }
+      : {},
+  }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.autoFilter = {
+    from: { row: 1, column: 1 },
+    to: { row: 1, column: COLUMNS.length },
+  };
+  sheet.addRows(rows);
+
+  // Values are written as shared strings; the text format keeps Excel
+  // from turning formula-like ones into formulas when a cell is edited
+  sheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+    row.eachCell((cell) => {
+      if (isFormulaLike(cell.value)) cell.numFmt = "@";
+    });
+  });
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+};
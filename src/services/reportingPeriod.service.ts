@@ -0,0 +1,213 @@
+import { Types } from "mongoose";
+import ErrorHandler from "../middleware/errorMiddlewares";
+import {
+  IIndicator,
+  IReportingPeriod,
+  IndicatorDocument,
+  PeriodStatus,
+  ReportingFrequency,
+} from "../models/Indicator";
+import { assertEvidenceScanned } from "./evidenceScan.service";
+import type { notifyUser } from "./notification.service";
+
+/* =====================================================
+   PERIOD LIFECYCLE
+   pending → submitted → approved | rejected
+   Rejected and overdue periods may be submitted again.
+   The indicator's own status and score are untouched;
+   periods track interim reporting alongside them.
+===================================================== */
+
+const SUBMITTABLE: PeriodStatus[] = ["pending", "rejected", "overdue"];
+
+export const findReportingPeriod = (
+  indicator: IndicatorDocument,
+  periodId: string,
+) => {
+  const period = Types.ObjectId.isValid(periodId)
+    ? indicator.reportingPeriods.find((p) => p._id.equals(periodId))
+    : undefined;
+  if (!period) throw new ErrorHandler(404, "Reporting period not found");
+  return period;
+};
+
+export const periodEvidence = (
+  indicator: Pick<IIndicator, "evidence">,
+  periodId: Types.ObjectId,
+) =>
+  indicator.evidence.filter(
+    (ev) => !ev.isArchived && ev.period && periodId.equals(ev.period),
+  );
+
+const assigneesOf = (indicator: IIndicator) => {
+  const ids = new Set<string>();
+  if (indicator.assignedTo) ids.add(String(indicator.assignedTo));
+  indicator.assignedGroup?.forEach((id) => ids.add(String(id)));
+  return [...ids].map((id) => new Types.ObjectId(id));
+};
+
+// Checked before any file is stored for the period
+export const assertPeriodSubmittable = (period: IReportingPeriod) => {
+  if (!SUBMITTABLE.includes(period.status))
+    throw new ErrorHandler(409, `${period.label} is already ${period.status}`);
+};
+
+export const submitReportingPeriod = (
+  indicator: IndicatorDocument,
+  period: IReportingPeriod,
+  { by, note }: { by: Types.ObjectId; note?: string },
+) => {
+  assertPeriodSubmittable(period);
+  if (!periodEvidence(indicator, period._id).length)
+    throw new ErrorHandler(400, `${period.label} has no evidence attached`);
+
+  const previous = period.status;
+  Object.assign(period, {
+    status: "submitted",
+    submittedBy: by,
+    submittedAt: new Date(),
+    submissionNote: note ?? "",
+    submissionCount: period.submissionCount + 1,
+    score: null,
+    reviewedBy: null,
+    reviewedAt: null,
+  });
+  return {
+    [`period.${period.key}.status`]: { old: previous, new: "submitted" },
+  };
+};
+
+/**
+ * Records the decision on the period. The assignee notifications are
+ * returned rather than sent, so the caller can send them once the
+ * indicator has been saved.
+ */
+export const reviewReportingPeriod = (
+  indicator: IndicatorDocument,
+  period: IReportingPeriod,
+  {
+    by,
+    decision,
+    score,
+    remarks,
+  }: {
+    by: Types.ObjectId;
+    decision: "approved" | "rejected";
+    score?: number | null;
+    remarks?: string;
+  },
+) => {
+  if (period.status !== "submitted")
+    throw new ErrorHandler(409, `${period.label} is not awaiting review`);
+  assertEvidenceScanned(periodEvidence(indicator, period._id));
+
+  Object.assign(period, {
+    status: decision,
+    score: decision === "approved" ? score : null,
+    reviewedBy: by,
+    reviewedAt: new Date(),
+    reviewRemarks: remarks ?? "",
+  });
+
+  const notifications: Parameters<typeof notifyUser>[0][] = assigneesOf(
+    indicator,
+  ).map((userId) => ({
+    userId,
+    submittedBy: by,
+    title: `${period.label} report ${decision}`,
+    message:
+      decision === "approved"
+        ? `Your ${period.label} report for "${indicator.indicatorTitle}" was approved with a score of ${score}%.`
+        : `Your ${period.label} report for "${indicator.indicatorTitle}" was returned: ${remarks}`,
+    type: decision === "approved" ? "approval" : "rejection",
+    metadata: { indicatorId: indicator._id, periodId: period._id },
+  }));
+
+  return {
+    changes: {
+      [`period.${period.key}.status`]: { old: "submitted", new: decision },
+      ...(decision === "approved"
+        ? { [`period.${period.key}.score`]: { old: null, new: score } }
+        : {}),
+    },
+    notifications,
+  };
+};
+
+/* =====================================================
+   TREND
+===================================================== */
+
+type TrendSource = Pick<IIndicator, "reportingPeriods" | "reportingFrequency">;
+
+/**
+ * Period-over-period view of the given indicators: how many reports
+ * each period expects, how many came in, and the average approved
+ * score with its change from the period before.
+ */
+export const buildPeriodTrend = (
+  indicators: TrendSource[],
+  frequency: Exclude<ReportingFrequency, "none"> = "quarterly",
+) => {
+  const byKey = new Map<
+    string,
+    {
+      key: string;
+      label: string;
+      startDate: Date;
+      expected: number;
+      submitted: number;
+      approved: number;
+      rejected: number;
+      overdue: number;
+      scores: number[];
+    }
+  >();
+
+  // Quarters and months are never mixed in one trend
+  indicators
+    .filter((indicator) => indicator.reportingFrequency === frequency)
+    .forEach((indicator) =>
+      (indicator.reportingPeriods ?? []).forEach((p) => {
+        const row = byKey.get(p.key) ?? {
+          key: p.key,
+          label: p.label,
+          startDate: p.startDate,
+          expected: 0,
+          submitted: 0,
+          approved: 0,
+          rejected: 0,
+          overdue: 0,
+          scores: [],
+        };
+        row.expected++;
+        if (p.submissionCount > 0) row.submitted++;
+        if (p.status === "approved") row.approved++;
+        if (p.status === "rejected") row.rejected++;
+        if (p.status === "overdue") row.overdue++;
+        if (p.status === "approved" && p.score != null)
+          row.scores.push(p.score);
+        byKey.set(p.key, row);
+      }),
+    );
+
+  let previousScore: number | null = null;
+  return [...byKey.values()]
+    .sort(
+      (a, b) =>
+        new Date(a.startDate).getTime() - new Date(b.startDate).getTime(),
+    )
+    .map(({ scores, ...row }) => {
+      const averageScore = scores.length
+        ? Math.round(
+            (scores.reduce((sum, s) => sum + s, 0) / scores.length) * 10,
+          ) / 10
+        : null;
+      const change =
+        averageScore !== null && previousScore !== null
+          ? Math.round((averageScore - previousScore) * 10) / 10
+          : null;
+      if (averageScore !== null) previousScore = averageScore;
+      return { ...row, averageScore, change };
+    });
+};
@@ -0,0 +1,158 @@
+import { Types } from "mongoose";
+import ErrorHandler from "../middleware/errorMiddlewares";
+import { Category, ReviewRole } from "../models/Category";
+import { IIndicator, IndicatorDocument } from "../models/Indicator";
+import { User } from "../models/User";
+import { notifyUser } from "./notification.service";
+
+/* =====================================================
+   REVIEW CHAIN RESOLUTION
+===================================================== */
+
+// Used when neither the level-2 nor the level-1 category configures a chain
+export const DEFAULT_REVIEW_CHAIN: ReviewRole[] = ["Admin", "SuperAdmin"];
+
+/**
+ * The most specific configured chain wins: level-2 objective first,
+ * then the level-1 perspective, then the default.
+ */
+export const resolveReviewChain = async (
+  indicator: Pick<IIndicator, "category" | "level2Category">,
+): Promise<ReviewRole[]> => {
+  const [level2, main] = await Promise.all([
+    Category.findById(indicator.level2Category).select("reviewChain").lean(),
+    Category.findById(indicator.category).select("reviewChain").lean(),
+  ]);
+
+  if (level2?.reviewChain?.length) return level2.reviewChain;
+  if (main?.reviewChain?.length) return main.reviewChain;
+  return DEFAULT_REVIEW_CHAIN;
+};
+
+/* =====================================================
+   STAGE HELPERS
+===================================================== */
+
+/**
+ * Returns the stage awaiting sign-off in the current round,
+ * or null once every stage has approved.
+ */
+export const getCurrentReviewStage = (
+  indicator: Pick<IIndicator, "reviewStages" | "reviewRound">,
+  chain: ReviewRole[],
+) => {
+  const approvals = indicator.reviewStages.filter(
+    (s) => s.round === indicator.reviewRound && s.decision === "approved",
+  ).length;
+
+  if (approvals >= chain.length) return null;
+  return { stage: approvals, requiredRole: chain[approvals] };
+};
+
+export const isReviewChainComplete = (
+  indicator: Pick<IIndicator, "reviewStages" | "reviewRound">,
+  chain: ReviewRole[],
+) => getCurrentReviewStage(indicator, chain) === null;
+
+// SuperAdmins may sign any stage; otherwise the role must match
+export const canSignStage = (role: string | undefined, required: ReviewRole) => {
+  const normalized = role?.toLowerCase();
+  return normalized === "superadmin" || normalized === required.toLowerCase();
+};
+
+/* =====================================================
+   RECORD DECISION
+===================================================== */
+
+/**
+ * Appends a reviewer decision for the current stage. A rejection closes
+ * the round, so the next submission starts again from stage one. The
+ * reviewer who signed the previous stage may not decide the next one,
+ * so no single person can carry a submission through the chain.
+ */
+export const recordReviewDecision = (
+  indicator: IndicatorDocument,
+  chain: ReviewRole[],
+  {
+    reviewer,
+    role,
+    decision,
+    remarks = "",
+  }: {
+    reviewer: Types.ObjectId;
+    role?: string;
+    decision: "approved" | "rejected";
+    remarks?: string;
+  },
+) => {
+  const current = getCurrentReviewStage(indicator, chain);
+
+  if (decision === "approved") {
+    if (!current)
+      throw new ErrorHandler(409, "All review stages have already signed off");
+    if (!canSignStage(role, current.requiredRole))
+      throw new ErrorHandler(
+        403,
+        `Stage ${current.stage + 1} requires ${current.requiredRole} sign-off`,
+      );
+  }
+
+  if (current && current.stage > 0) {
+    const previous = indicator.reviewStages.find(
+      (s) =>
+        s.round === indicator.reviewRound &&
+        s.stage === current.stage - 1 &&
+        s.decision === "approved",
+    );
+    if (previous && String(previous.reviewer) === String(reviewer))
+      throw new ErrorHandler(
+        409,
+        `Stage ${current.stage + 1} must be decided by a different reviewer than stage ${current.stage}`,
+      );
+  }
+
+  // A rejection after full sign-off is recorded against the final stage
+  const stage = current?.stage ?? chain.length - 1;
+  const requiredRole = chain[stage];
+
+  indicator.reviewStages.push({
+    round: indicator.reviewRound,
+    stage,
+    requiredRole,
+    reviewer,
+    decision,
+    remarks,
+    decidedAt: new Date(),
+  });
+
+  if (decision === "rejected") {
+    indicator.reviewRound += 1;
+    return { stage, requiredRole, isFinal: false, nextRole: null };
+  }
+
+  const nextRole = chain[stage + 1] ?? null;
+  return { stage, requiredRole, isFinal: nextRole === null, nextRole };
+};
+
+/* =====================================================
+   NOTIFY NEXT REVIEWERS
+===================================================== */
+export const notifyNextReviewers = async (
+  indicator: IndicatorDocument,
+  role: ReviewRole,
+  stage: number,
+  submittedBy: Types.ObjectId,
+) => {
+  const reviewers = await User.find({ role }).select("_id");
+
+  for (const reviewer of reviewers) {
+    await notifyUser({
+      userId: reviewer._id,
+      submittedBy,
+      title: "Indicator Awaiting Your Review",
+      message: `${indicator.indicatorTitle} — stage ${stage + 1} (${role}) sign-off required`,
+      type: "approval",
+      metadata: { indicatorId: indicator._id, stage },
+    });
+  }
+};
@@ -0,0 +1,15 @@
+import { env } from "../../config/env";
+import { clamavDriver } from "./clamav.driver";
+import { stubScanDriver } from "./stub.driver";
+import { ScanDriver, ScanDriverName } from "./types";
+
+export * from "./types";
+
+const drivers: Record<ScanDriverName, ScanDriver> = {
+  clamav: clamavDriver,
+  stub: stubScanDriver,
+};
+
+// Every upload is scanned by the driver selected by SCAN_DRIVER
+export const getScanDriver = (name: ScanDriverName = env.SCAN_DRIVER) =>
+  drivers[name];
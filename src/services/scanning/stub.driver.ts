@@ -0,0 +1,31 @@
+import { ScanDriver } from "./types";
+
+/* =====================================================
+   STUB DRIVER
+   For development and tests: no daemon needed. Flags
+   only the industry-standard EICAR test string, so the
+   quarantine path can still be exercised end to end.
+===================================================== */
+
+const EICAR = Buffer.from(
+  "X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*",
+  "latin1",
+);
+
+export const stubScanDriver: ScanDriver = {
+  name: "stub",
+
+  async scan(stream) {
+    // Keep the tail of each chunk so a match split across two is found
+    let tail = Buffer.alloc(0);
+    for await (const data of stream) {
+      const window = Buffer.concat([tail, Buffer.from(data)]);
+      if (window.includes(EICAR)) {
+        stream.destroy();
+        return { status: "infected", signature: "Eicar-Test-Signature" };
+      }
+      tail = window.subarray(Math.max(0, window.length - EICAR.length + 1));
+    }
+    return { status: "clean" };
+  },
+};
@@ -0,0 +1,24 @@
+import { Readable } from "stream";
+
+/* =====================================================
+   SCANNING CONTRACT
+   Uploaded evidence is checked by a pluggable scanner
+   before anyone may review or open it. Drivers only
+   judge the bytes; what happens to a bad file is up to
+   the evidence scan service.
+===================================================== */
+
+export const SCAN_DRIVERS = ["clamav", "stub"] as const;
+export type ScanDriverName = (typeof SCAN_DRIVERS)[number];
+
+export type ScanVerdict =
+  { status: "clean" } | { status: "infected"; signature: string };
+
+export interface ScanDriver {
+  readonly name: ScanDriverName;
+  /**
+   * Reads the whole stream and returns a verdict. Throws when the
+   * scanner could not reach a decision, so the file can be retried.
+   */
+  scan(stream: Readable): Promise<ScanVerdict>;
+}
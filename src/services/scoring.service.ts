@@ -0,0 +1,387 @@
+import { Types } from "mongoose";
+import { logger } from "../config/logger";
+import { Category } from "../models/Category";
+import { IIndicator, Indicator } from "../models/Indicator";
+import { IObjectiveScore, ObjectiveScore } from "../models/ObjectiveScore";
+import { User } from "../models/User";
+
+/* =====================================================
+   TYPES
+   An indicator's score is its progress (0–100): scoring,
+   review and progress updates all write it. Scores roll
+   up as weighted averages: indicators (weighted by their
+   level-3 node) into level-2 objectives, objectives into
+   level-1 perspectives, perspectives into the overall.
+   Nodes with nothing under them are left out rather than
+   counted as zero.
+===================================================== */
+
+type IdLike = Types.ObjectId | { _id: Types.ObjectId } | null | undefined;
+
+export interface ScoreTarget {
+  cycle?: IdLike;
+  level2Category: IdLike;
+}
+
+interface ScoreEntry {
+  indicator: string;
+  level2Category: string;
+  indicatorTitle: string;
+  score: number;
+}
+
+interface CategoryNode {
+  _id: Types.ObjectId;
+  code: string;
+  title: string;
+  weight: number;
+}
+
+interface ScoreTree {
+  perspectives: CategoryNode[];
+  objectivesOf: Map<string, CategoryNode[]>;
+  // Level-3 weights keyed by objective and title; indicators keep
+  // only the title of the node they were created from
+  indicatorWeights: Map<string, number>;
+}
+
+const idOf = (value: IdLike) =>
+  value && "_id" in value ? value._id : (value ?? null);
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const weightedAverage = (items: { score: number | null; weight: number }[]) => {
+  const scored = items.filter((i) => i.score !== null && i.weight > 0);
+  const totalWeight = scored.reduce((sum, i) => sum + i.weight, 0);
+  if (!totalWeight) return null;
+  return round(
+    scored.reduce((sum, i) => sum + i.score! * i.weight, 0) / totalWeight,
+  );
+};
+
+/* =====================================================
+   INCREMENTAL RECOMPUTE
+===================================================== */
+
+type ScoredIndicator = Pick<
+  IIndicator,
+  | "indicatorTitle"
+  | "progress"
+  | "assignedToType"
+  | "assignedTo"
+  | "assignedGroup"
+  | "memberContributions"
+>;
+
+// Group members carry their own score when one was given
+const memberScoresOf = (indicator: ScoredIndicator) => {
+  if (indicator.assignedToType === "group")
+    return (indicator.assignedGroup ?? []).map((user) => {
+      const contribution = indicator.memberContributions?.find(
+        (m) => String(m.user) === String(user),
+      );
+      return { user, score: contribution?.score ?? indicator.progress };
+    });
+  return indicator.assignedTo
+    ? [{ user: indicator.assignedTo, score: indicator.progress }]
+    : [];
+};
+
+/**
+ * Rebuilds the stored scores of one objective in one cycle from its
+ * indicators. Removes the record once the objective has none left.
+ */
+export const recomputeObjectiveScore = async (target: ScoreTarget) => {
+  const cycle = idOf(target.cycle);
+  const level2Category = idOf(target.level2Category);
+  if (!level2Category) return null;
+
+  const indicators = await Indicator.find({ cycle, level2Category })
+    .select(
+      "category indicatorTitle progress assignedToType assignedTo assignedGroup memberContributions",
+    )
+    .lean();
+
+  if (!indicators.length) {
+    await ObjectiveScore.deleteOne({ cycle, level2Category });
+    return null;
+  }
+
+  return ObjectiveScore.findOneAndUpdate(
+    { cycle, level2Category },
+    {
+      $set: {
+        category: indicators[0].category,
+        indicators: indicators.map((i) => ({
+          indicator: i._id,
+          indicatorTitle: i.indicatorTitle,
+          score: i.progress ?? 0,
+          members: memberScoresOf(i),
+        })),
+        computedAt: new Date(),
+      },
+    },
+    { upsert: true, new: true },
+  );
+};
+
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Queues a recompute for the objectives the given indicators belong
+ * to. Pass the old placement too when an indicator has moved.
+ */
+export const queueScoreRefresh = (
+  ...targets: (ScoreTarget | null | undefined)[]
+) => {
+  const unique = new Map<string, ScoreTarget>();
+  targets.forEach((target) => {
+    const level2Category = idOf(target?.level2Category);
+    if (!target || !level2Category) return;
+    const cycle = idOf(target.cycle);
+    unique.set(`${cycle ?? ""}:${level2Category}`, { cycle, level2Category });
+  });
+
+  unique.forEach((target) => {
+    queue = queue
+      .then(() => recomputeObjectiveScore(target))
+      .catch((err) =>
+        logger.error(`[SCORES] recompute failed: ${err?.message || err}`),
+      );
+  });
+};
+
+/**
+ * Recomputes every objective and drops records for objectives that no
+ * longer have indicators. Safety net for writes that bypass the queue.
+ */
+export const rebuildObjectiveScores = async () => {
+  const groups: {
+    _id: { cycle: Types.ObjectId | null; level2Category: Types.ObjectId };
+  }[] = await Indicator.aggregate([
+    {
+      $group: {
+        _id: {
+          cycle: { $ifNull: ["$cycle", null] },
+          level2Category: "$level2Category",
+        },
+      },
+    },
+  ]);
+
+  for (const { _id } of groups) await recomputeObjectiveScore(_id);
+
+  const keyOf = (s: Pick<IObjectiveScore, "cycle" | "level2Category">) =>
+    `${s.cycle ?? ""}:${s.level2Category}`;
+  const live = new Set(groups.map(({ _id }) => keyOf(_id)));
+  const stale = (
+    await ObjectiveScore.find().select("cycle level2Category").lean()
+  ).filter((s) => !live.has(keyOf(s)));
+  if (stale.length)
+    await ObjectiveScore.deleteMany({ _id: { $in: stale.map((s) => s._id) } });
+
+  return groups.length;
+};
+
+/* =====================================================
+   SUMMARY
+===================================================== */
+
+const loadScoreTree = async (): Promise<ScoreTree> => {
+  const categories = await Category.find({ level: { $in: [1, 2, 3] } })
+    .select("code title level parent weight")
+    .sort({ code: 1 })
+    .lean();
+
+  const objectivesOf = new Map<string, CategoryNode[]>();
+  const indicatorWeights = new Map<string, number>();
+  categories.forEach((c) => {
+    const node = {
+      _id: c._id as Types.ObjectId,
+      code: c.code,
+      title: c.title,
+      weight: c.weight ?? 1,
+    };
+    if (c.level === 2)
+      objectivesOf.set(String(c.parent), [
+        ...(objectivesOf.get(String(c.parent)) ?? []),
+        node,
+      ]);
+    if (c.level === 3)
+      indicatorWeights.set(`${c.parent}:${c.title}`, node.weight);
+  });
+
+  return {
+    perspectives: categories
+      .filter((c) => c.level === 1)
+      .map((c) => ({
+        _id: c._id as Types.ObjectId,
+        code: c.code,
+        title: c.title,
+        weight: c.weight ?? 1,
+      })),
+    objectivesOf,
+    indicatorWeights,
+  };
+};
+
+const composeScores = (entries: ScoreEntry[], tree: ScoreTree) => {
+  const byObjective = new Map<string, ScoreEntry[]>();
+  entries.forEach((e) =>
+    byObjective.set(e.level2Category, [
+      ...(byObjective.get(e.level2Category) ?? []),
+      e,
+    ]),
+  );
+
+  const perspectives = tree.perspectives
+    .map((p) => {
+      const objectives = (tree.objectivesOf.get(String(p._id)) ?? [])
+        .map((o) => {
+          const items = byObjective.get(String(o._id)) ?? [];
+          return {
+            categoryId: o._id,
+            code: o.code,
+            title: o.title,
+            weight: o.weight,
+            indicators: items.length,
+            score: weightedAverage(
+              items.map((e) => ({
+                score: e.score,
+                weight:
+                  tree.indicatorWeights.get(`${o._id}:${e.indicatorTitle}`) ??
+                  1,
+              })),
+            ),
+          };
+        })
+        .filter((o) => o.indicators > 0);
+
+      return {
+        categoryId: p._id,
+        code: p.code,
+        title: p.title,
+        weight: p.weight,
+        indicators: objectives.reduce((sum, o) => sum + o.indicators, 0),
+        score: weightedAverage(objectives),
+        objectives,
+      };
+    })
+    .filter((p) => p.indicators > 0);
+
+  return {
+    score: weightedAverage(perspectives),
+    indicators: perspectives.reduce((sum, p) => sum + p.indicators, 0),
+    perspectives,
+  };
+};
+
+// Per-user and per-station rows keep only the perspective level
+const briefScores = (composite: ReturnType<typeof composeScores>) => ({
+  score: composite.score,
+  indicators: composite.indicators,
+  perspectives: composite.perspectives.map((p) => ({
+    categoryId: p.categoryId,
+    code: p.code,
+    score: p.score,
+    indicators: p.indicators,
+  })),
+});
+
+/**
+ * Composite scores for the overall tree, each user and each court
+ * station. `forUser` limits the summary to that user's own indicators,
+ * scored with their own contribution.
+ */
+export const buildScoreSummary = async ({
+  cycle,
+  forUser,
+}: {
+  cycle: Types.ObjectId | null;
+  forUser?: Types.ObjectId;
+}) => {
+  const [tree, records] = await Promise.all([
+    loadScoreTree(),
+    ObjectiveScore.find(cycle ? { cycle } : {}).lean(),
+  ]);
+
+  const overall: ScoreEntry[] = [];
+  const byUser = new Map<string, ScoreEntry[]>();
+
+  records.forEach((record) =>
+    record.indicators.forEach((i) => {
+      const base = {
+        indicator: String(i.indicator),
+        level2Category: String(record.level2Category),
+        indicatorTitle: i.indicatorTitle,
+      };
+      i.members.forEach((m) => {
+        const key = String(m.user);
+        byUser.set(key, [
+          ...(byUser.get(key) ?? []),
+          { ...base, score: m.score },
+        ]);
+      });
+      if (!forUser) overall.push({ ...base, score: i.score });
+    }),
+  );
+
+  if (forUser) {
+    const own = byUser.get(String(forUser)) ?? [];
+    return { cycle, scope: "user", overall: composeScores(own, tree) };
+  }
+
+  const users = await User.find({
+    _id: { $in: [...byUser.keys()].map((id) => new Types.ObjectId(id)) },
+  })
+    .select("name pjNumber station")
+    .lean();
+
+  // A shared indicator counts once per station, at its members' average
+  const byStation = new Map<string, Map<string, ScoreEntry[]>>();
+  users.forEach((u) => {
+    const station = u.station || "Unassigned";
+    const indicators = byStation.get(station) ?? new Map();
+    byUser
+      .get(String(u._id))
+      ?.forEach((e) =>
+        indicators.set(e.indicator, [
+          ...(indicators.get(e.indicator) ?? []),
+          e,
+        ]),
+      );
+    byStation.set(station, indicators);
+  });
+
+  return {
+    cycle,
+    scope: "all",
+    overall: composeScores(overall, tree),
+    users: users
+      .map((u) => ({
+        userId: u._id,
+        name: u.name,
+        pjNumber: u.pjNumber,
+        station: u.station || null,
+        ...briefScores(composeScores(byUser.get(String(u._id)) ?? [], tree)),
+      }))
+      .sort((a, b) => (b.score ?? -1) - (a.score ?? -1)),
+    stations: [...byStation.entries()]
+      .map(([station, indicators]) => ({
+        station,
+        users: users.filter((u) => (u.station || "Unassigned") === station)
+          .length,
+        ...briefScores(
+          composeScores(
+            [...indicators.values()].map((shared) => ({
+              ...shared[0],
+              score:
+                shared.reduce((sum, e) => sum + e.score, 0) / shared.length,
+            })),
+            tree,
+          ),
+        ),
+      }))
+      .sort((a, b) => (b.score ?? -1) - (a.score ?? -1)),
+  };
+};
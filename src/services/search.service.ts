@@ -0,0 +1,236 @@
+import { Types } from "mongoose";
+import { Category } from "../models/Category";
+import { Indicator } from "../models/Indicator";
+import { User } from "../models/User";
+import {
+  buildIndicatorVisibilityFilter,
+  isIndicatorAdmin,
+} from "./indicatorQuery.service";
+
+/* =====================================================
+   TYPES
+===================================================== */
+
+export const SEARCH_ENTITY_TYPES = [
+  "indicators",
+  "notes",
+  "evidence",
+  "categories",
+  "users",
+] as const;
+export type SearchEntityType = (typeof SEARCH_ENTITY_TYPES)[number];
+
+/**
+ * Notes are embedded without their own _id, so a note hit is
+ * identified by its indicator plus `noteIndex` (position in the
+ * append-only `notes` array) and `createdAt`.
+ */
+export interface SearchHit {
+  id: Types.ObjectId;
+  indicatorId?: Types.ObjectId;
+  noteIndex?: number;
+  createdAt?: Date;
+  field: string;
+  title: string;
+  snippet: string;
+}
+
+export type SearchResults = Record<SearchEntityType, SearchHit[]>;
+
+/* =====================================================
+   MATCHING & HIGHLIGHTING
+===================================================== */
+
+const SNIPPET_RADIUS = 60;
+
+const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+export const buildSearchPattern = (q: string) =>
+  new RegExp(escapeRegex(q.trim()), "i");
+
+/**
+ * Cuts a window around the first match and wraps every match inside
+ * it in <mark>. The surrounding text is HTML-escaped so the snippet
+ * can be rendered as-is.
+ */
+export const highlightSnippet = (text: string, pattern: RegExp) => {
+  const index = text.search(pattern);
+  if (index === -1) return escapeHtml(text.slice(0, SNIPPET_RADIUS * 2));
+
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + SNIPPET_RADIUS * 2);
+  const window = text.slice(start, end);
+  const global = new RegExp(pattern.source, "gi");
+
+  let html = "";
+  let last = 0;
+  for (const match of window.matchAll(global)) {
+    html += escapeHtml(window.slice(last, match.index));
+    html += `<mark>${escapeHtml(match[0])}</mark>`;
+    last = match.index! + match[0].length;
+  }
+  html += escapeHtml(window.slice(last));
+
+  return `${start > 0 ? "…" : ""}${html}${end < text.length ? "…" : ""}`;
+};
+
+/* =====================================================
+   SEARCH
+===================================================== */
+
+/**
+ * Searches every entity type the caller may see. Indicators, notes and
+ * evidence use the same visibility filter as the reports; users are
+ * only searchable by administrators.
+ */
+export const searchAll = async (
+  q: string,
+  user: { _id: Types.ObjectId; role: string },
+  { limit, types }: { limit: number; types: SearchEntityType[] },
+): Promise<SearchResults> => {
+  const pattern = buildSearchPattern(q);
+  const visibility = buildIndicatorVisibilityFilter(user);
+  const wants = (type: SearchEntityType) => types.includes(type);
+
+  const results: SearchResults = {
+    indicators: [],
+    notes: [],
+    evidence: [],
+    categories: [],
+    users: [],
+  };
+
+  const [indicatorMatches, noteMatches, evidenceMatches, categories, users] =
+    await Promise.all([
+      wants("indicators")
+        ? Indicator.find({ ...visibility, indicatorTitle: pattern })
+            .select("indicatorTitle")
+            .sort({ updatedAt: -1 })
+            .limit(limit)
+            .lean()
+        : [],
+      wants("notes")
+        ? Indicator.aggregate([
+            { $match: { ...visibility, "notes.text": pattern } },
+            { $unwind: { path: "$notes", includeArrayIndex: "noteIndex" } },
+            { $match: { "notes.text": pattern } },
+            { $sort: { "notes.createdAt": -1 } },
+            { $limit: limit },
+            {
+              $project: {
+                indicatorTitle: 1,
+                noteIndex: 1,
+                createdAt: "$notes.createdAt",
+                text: "$notes.text",
+              },
+            },
+          ])
+        : [],
+      wants("evidence")
+        ? Indicator.aggregate([
+            {
+              $match: {
+                ...visibility,
+                $or: [
+                  { "evidence.fileName": pattern },
+                  { "evidence.description": pattern },
+                ],
+              },
+            },
+            { $unwind: "$evidence" },
+            {
+              $match: {
+                "evidence.isArchived": { $ne: true },
+                $or: [
+                  { "evidence.fileName": pattern },
+                  { "evidence.description": pattern },
+                ],
+              },
+            },
+            { $sort: { "evidence.uploadedAt": -1 } },
+            { $limit: limit },
+            {
+              $project: {
+                indicatorTitle: 1,
+                evidenceId: "$evidence._id",
+                fileName: "$evidence.fileName",
+                description: "$evidence.description",
+              },
+            },
+          ])
+        : [],
+      wants("categories")
+        ? Category.find({ $or: [{ title: pattern }, { code: pattern }] })
+            .select("title code level")
+            .sort({ level: 1, code: 1 })
+            .limit(limit)
+            .lean()
+        : [],
+      wants("users") && isIndicatorAdmin(user.role)
+        ? User.find({ $or: [{ name: pattern }, { pjNumber: pattern }] })
+            .select("name pjNumber role")
+            .sort({ name: 1 })
+            .limit(limit)
+            .lean()
+        : [],
+    ]);
+
+  results.indicators = indicatorMatches.map((i) => ({
+    id: i._id,
+    indicatorId: i._id,
+    field: "indicatorTitle",
+    title: i.indicatorTitle,
+    snippet: highlightSnippet(i.indicatorTitle, pattern),
+  }));
+
+  results.notes = noteMatches.map((n) => ({
+    id: n._id,
+    indicatorId: n._id,
+    noteIndex: n.noteIndex,
+    createdAt: n.createdAt,
+    field: "notes.text",
+    title: n.indicatorTitle,
+    snippet: highlightSnippet(n.text, pattern),
+  }));
+
+  results.evidence = evidenceMatches.map((e) => {
+    const field = pattern.test(e.fileName) ? "fileName" : "description";
+    return {
+      id: e.evidenceId,
+      indicatorId: e._id,
+      field: `evidence.${field}`,
+      title: e.fileName,
+      snippet: highlightSnippet(e[field] ?? "", pattern),
+    };
+  });
+
+  results.categories = categories.map((c) => {
+    const field = pattern.test(c.code) ? "code" : "title";
+    return {
+      id: c._id,
+      field,
+      title: `${c.code} — ${c.title}`,
+      snippet: highlightSnippet(c[field], pattern),
+    };
+  });
+
+  results.users = users.map((u) => {
+    const field = pattern.test(u.pjNumber) ? "pjNumber" : "name";
+    return {
+      id: u._id,
+      field,
+      title: `${u.name} (${u.pjNumber})`,
+      snippet: highlightSnippet(u[field], pattern),
+    };
+  });
+
+  return results;
+};
@@ -0,0 +1,46 @@
+import { env } from "../../config/env";
+import { cloudinaryDriver } from "./cloudinary.driver";
+import { localDriver } from "./local.driver";
+import { s3Driver } from "./s3.driver";
+import { StorageDriver, StorageProvider, StoredObjectRef } from "./types";
+
+export * from "./types";
+export { verifyLocalSignature } from "./local.driver";
+
+const drivers: Record<StorageProvider, StorageDriver> = {
+  cloudinary: cloudinaryDriver,
+  local: localDriver,
+  s3: s3Driver,
+};
+
+// New uploads go to the driver selected by STORAGE_DRIVER
+export const getStorageDriver = (
+  provider: StorageProvider = env.STORAGE_DRIVER,
+) => drivers[provider];
+
+/* =====================================================
+   EVIDENCE HELPERS
+   Each evidence record names its own provider, so switching
+   drivers never breaks access to files stored earlier.
+   Records from before drivers existed live on Cloudinary.
+===================================================== */
+
+interface EvidenceStorageFields {
+  storageProvider?: StorageProvider | null;
+  publicId: string;
+  resourceType: StoredObjectRef["resourceType"];
+  format: string;
+  cloudinaryType?: StoredObjectRef["cloudinaryType"];
+}
+
+export const storageForEvidence = (evidence: EvidenceStorageFields) =>
+  drivers[evidence.storageProvider ?? "cloudinary"];
+
+export const evidenceStorageRef = (
+  evidence: EvidenceStorageFields,
+): StoredObjectRef => ({
+  key: evidence.publicId,
+  resourceType: evidence.resourceType,
+  format: evidence.format,
+  cloudinaryType: evidence.cloudinaryType,
+});
@@ -0,0 +1,112 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { pipeline } from "stream/promises";
+import { env } from "../../config/env";
+import ErrorHandler from "../../middleware/errorMiddlewares";
+import {
+  DEFAULT_SIGNED_URL_TTL,
+  buildObjectKey,
+  resourceTypeForMime,
+} from "./utils";
+import { StorageDriver } from "./types";
+
+/* =====================================================
+   LOCAL DISK DRIVER
+   Stores files under LOCAL_STORAGE_DIR. Signed URLs point
+   at /api/v1/storage/files and carry an HMAC over the key
+   and expiry, so no session is needed to follow them.
+===================================================== */
+
+const root = () => path.resolve(env.LOCAL_STORAGE_DIR);
+
+// Keys must never escape the storage root
+const resolveKey = (key: string) => {
+  const fullPath = path.resolve(root(), key);
+  if (!fullPath.startsWith(root() + path.sep))
+    throw new ErrorHandler(400, "Invalid storage key");
+  return fullPath;
+};
+
+const sign = (key: string, expires: number) =>
+  crypto
+    .createHmac("sha256", env.STORAGE_SIGNING_SECRET)
+    .update(`${key}:${expires}`)
+    .digest("hex");
+
+export const verifyLocalSignature = (
+  key: string,
+  expires: number,
+  signature: string,
+) => {
+  if (!Number.isFinite(expires) || expires * 1000 < Date.now()) return false;
+  const expected = Buffer.from(sign(key, expires));
+  const given = Buffer.from(signature);
+  return (
+    expected.length === given.length && crypto.timingSafeEqual(expected, given)
+  );
+};
+
+export const localDriver: StorageDriver = {
+  name: "local",
+
+  async put(buffer, { folder, fileName, mimeType }) {
+    const { key, format } = buildObjectKey(folder, fileName);
+    const fullPath = resolveKey(key);
+    await fs.promises.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.promises.writeFile(fullPath, buffer, { flag: "wx" });
+    return {
+      provider: "local",
+      key,
+      resourceType: resourceTypeForMime(mimeType),
+      format,
+      cloudinaryType: null,
+      size: buffer.length,
+    };
+  },
+
+  async putStream(stream, { folder, fileName, mimeType, size }) {
+    const { key, format } = buildObjectKey(folder, fileName);
+    const fullPath = resolveKey(key);
+    await fs.promises.mkdir(path.dirname(fullPath), { recursive: true });
+    try {
+      await pipeline(stream, fs.createWriteStream(fullPath, { flags: "wx" }));
+    } catch (err) {
+      await fs.promises.rm(fullPath, { force: true });
+      throw err;
+    }
+    return {
+      provider: "local",
+      key,
+      resourceType: resourceTypeForMime(mimeType),
+      format,
+      cloudinaryType: null,
+      size,
+    };
+  },
+
+  async getStream(ref, range) {
+    const fullPath = resolveKey(ref.key);
+    const stat = await fs.promises.stat(fullPath).catch(() => null);
+    if (!stat) throw new ErrorHandler(404, "Stored file not found");
+    return {
+      stream: fs.createReadStream(fullPath, range),
+      contentLength: range ? range.end - range.start + 1 : stat.size,
+      partial: !!range,
+    };
+  },
+
+  async delete(ref) {
+    await fs.promises.rm(resolveKey(ref.key), { force: true });
+  },
+
+  async getSignedUrl(ref, expiresInSeconds = DEFAULT_SIGNED_URL_TTL) {
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const params = new URLSearchParams({
+      key: ref.key,
+      expires: String(expires),
+      signature: sign(ref.key, expires),
+    });
+    return `${env.PUBLIC_API_URL}/api/v1/storage/files?${params}`;
+  },
+};
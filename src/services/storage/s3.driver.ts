@@ -0,0 +1,119 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { Readable } from "stream";
+import { env } from "../../config/env";
+import ErrorHandler from "../../middleware/errorMiddlewares";
+import {
+  DEFAULT_SIGNED_URL_TTL,
+  buildObjectKey,
+  resourceTypeForMime,
+} from "./utils";
+import { StorageDriver } from "./types";
+
+/* =====================================================
+   S3-COMPATIBLE DRIVER
+   Works against AWS S3 or any compatible server such as
+   MinIO (set S3_ENDPOINT and keep path-style addressing).
+===================================================== */
+
+let client: S3Client | null = null;
+
+const getClient = () => {
+  if (!client)
+    client = new S3Client({
+      region: env.S3_REGION,
+      endpoint: env.S3_ENDPOINT,
+      forcePathStyle: env.S3_FORCE_PATH_STYLE,
+      credentials: {
+        accessKeyId: env.S3_ACCESS_KEY_ID!,
+        secretAccessKey: env.S3_SECRET_ACCESS_KEY!,
+      },
+    });
+  return client;
+};
+
+export const s3Driver: StorageDriver = {
+  name: "s3",
+
+  async put(buffer, { folder, fileName, mimeType }) {
+    const { key, format } = buildObjectKey(folder, fileName);
+    await getClient().send(
+      new PutObjectCommand({
+        Bucket: env.S3_BUCKET,
+        Key: key,
+        Body: buffer,
+        ContentType: mimeType,
+      }),
+    );
+    return {
+      provider: "s3",
+      key,
+      resourceType: resourceTypeForMime(mimeType),
+      format,
+      cloudinaryType: null,
+      size: buffer.length,
+    };
+  },
+
+  async putStream(stream, { folder, fileName, mimeType, size }) {
+    const { key, format } = buildObjectKey(folder, fileName);
+    await getClient().send(
+      new PutObjectCommand({
+        Bucket: env.S3_BUCKET,
+        Key: key,
+        Body: stream,
+        ContentLength: size,
+        ContentType: mimeType,
+      }),
+    );
+    return {
+      provider: "s3",
+      key,
+      resourceType: resourceTypeForMime(mimeType),
+      format,
+      cloudinaryType: null,
+      size,
+    };
+  },
+
+  async getStream(ref, range) {
+    try {
+      const object = await getClient().send(
+        new GetObjectCommand({
+          Bucket: env.S3_BUCKET,
+          Key: ref.key,
+          Range: range && `bytes=${range.start}-${range.end}`,
+        }),
+      );
+      return {
+        stream: object.Body as Readable,
+        contentType: object.ContentType,
+        contentLength: object.ContentLength,
+        partial: !!range,
+      };
+    } catch (err: any) {
+      if (err?.name === "NoSuchKey")
+        throw new ErrorHandler(404, "Stored file not found");
+      throw err;
+    }
+  },
+
+  async delete(ref) {
+    await getClient().send(
+      new DeleteObjectCommand({ Bucket: env.S3_BUCKET, Key: ref.key }),
+    );
+  },
+
+  async getSignedUrl(ref, expiresInSeconds = DEFAULT_SIGNED_URL_TTL) {
+    return getSignedUrl(
+      getClient(),
+      new GetObjectCommand({ Bucket: env.S3_BUCKET, Key: ref.key }),
+      { expiresIn: expiresInSeconds },
+    );
+  },
+};
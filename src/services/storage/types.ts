@@ -0,0 +1,62 @@
+import { Readable } from "stream";
+
+/* =====================================================
+   STORAGE CONTRACT
+   Every evidence backend implements the same four
+   operations so controllers never talk to a provider
+   directly.
+===================================================== */
+
+export const STORAGE_PROVIDERS = ["cloudinary", "local", "s3"] as const;
+export type StorageProvider = (typeof STORAGE_PROVIDERS)[number];
+
+export type StorageResourceType = "raw" | "image" | "video";
+
+// What the evidence record keeps to find the object again
+export interface StoredObjectRef {
+  key: string;
+  resourceType: StorageResourceType;
+  format: string;
+  cloudinaryType?: "authenticated" | "upload" | null;
+}
+
+export interface StoredObject extends StoredObjectRef {
+  provider: StorageProvider;
+  size: number;
+  version?: number;
+  sha256?: string;
+}
+
+export interface PutObjectOptions {
+  folder: string;
+  fileName: string;
+  mimeType: string;
+}
+
+// Streamed uploads must declare their length up front (S3 needs it)
+export interface PutStreamOptions extends PutObjectOptions {
+  size: number;
+}
+
+// Inclusive byte offsets, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface ObjectStream {
+  stream: Readable;
+  contentType?: string;
+  contentLength?: number;
+  // True when the backend returned only the requested range
+  partial?: boolean;
+}
+
+export interface StorageDriver {
+  readonly name: StorageProvider;
+  put(buffer: Buffer, options: PutObjectOptions): Promise<StoredObject>;
+  putStream(stream: Readable, options: PutStreamOptions): Promise<StoredObject>;
+  getStream(ref: StoredObjectRef, range?: ByteRange): Promise<ObjectStream>;
+  delete(ref: StoredObjectRef): Promise<void>;
+  getSignedUrl(ref: StoredObjectRef, expiresInSeconds?: number): Promise<string>;
+}
@@ -0,0 +1,49 @@
+import { randomUUID } from "crypto";
+import path from "path";
+import { Transform } from "stream";
+import { ByteRange, StorageResourceType } from "./types";
+
+export const DEFAULT_SIGNED_URL_TTL = 60 * 60; // 1 hour
+
+export const resourceTypeForMime = (mimeType: string): StorageResourceType =>
+  mimeType.startsWith("image/")
+    ? "image"
+    : mimeType.startsWith("video/")
+      ? "video"
+      : "raw";
+
+/**
+ * Builds a collision-free object key: folder/timestamp-uuid-name.ext,
+ * with whitespace and path separators stripped from the name.
+ */
+export const buildObjectKey = (folder: string, fileName: string) => {
+  const ext = path.extname(fileName).toLowerCase();
+  const base = path
+    .basename(fileName, path.extname(fileName))
+    .replace(/[\\/]/g, "")
+    .replace(/\s+/g, "_");
+  return {
+    key: `${folder}/${Date.now()}-${randomUUID()}-${base}${ext}`,
+    format: ext.replace(".", ""),
+  };
+};
+
+/**
+ * Cuts a byte range out of a full-file stream, for backends that
+ * answered a range request with the whole object.
+ */
+export const sliceStream = ({ start, end }: ByteRange) => {
+  let offset = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      if (offset > end) return callback();
+      const from = Math.max(start - offset, 0);
+      const to = Math.min(end + 1 - offset, chunk.length);
+      offset += chunk.length;
+      if (from < to) this.push(chunk.subarray(from, to));
+      // Range complete: end the output; the caller drops the source
+      if (offset > end) this.push(null);
+      callback();
+    },
+  });
+};
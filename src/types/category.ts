@@ -46,10 +46,12 @@ export interface ApiResponse<T = any> {
   message?: string;
   error?: string;
   pagination?: {
-    page: number;
+    /** null when paging by cursor */
+    page: number | null;
     limit: number;
     total: number;
     totalPages: number;
+    nextCursor?: string | null;
   };
 }
 
@@ -1,4 +1,6 @@
 import { v2 as cloudinary, UploadApiResponse } from "cloudinary";
+import { randomUUID } from "crypto";
+import { Readable } from "stream";
 
 cloudinary.config({
   cloud_name: process.env.CLOUDINARY_CLOUD_NAME!,
@@ -22,7 +24,8 @@ export const uploadToCloudinary = async (
     .replace(/\s+/g, "_")
     .replace(/\.[^/.]+$/, "");
 
-  const publicId = `${timestamp}-${cleanFileName}`;
+  // Same-named files uploaded together must not collide
+  const publicId = `${timestamp}-${randomUUID()}-${cleanFileName}`;
   const folder = `indicators/evidence/${indicatorId}`;
 
   return new Promise((resolve, reject) => {
@@ -39,7 +42,7 @@ export const uploadToCloudinary = async (
 
         /**
          * result.public_id will be:
-         * indicators/evidence/{indicatorId}/{timestamp-name}
+         * indicators/evidence/{indicatorId}/{timestamp-uuid-name}
          */
         resolve(result);
       }
@@ -49,6 +52,41 @@ export const uploadToCloudinary = async (
   });
 };
 
+/* =====================================================
+   CHUNKED STREAM UPLOAD (LARGE FILES)
+   Cloudinary rejects single-request uploads over 100MB,
+   so large evidence is sent in 20MB parts.
+===================================================== */
+export const uploadStreamToCloudinary = async (
+  source: Readable,
+  indicatorId: string,
+  originalFileName: string
+): Promise<UploadApiResponse> => {
+  const cleanFileName = originalFileName
+    .replace(/\s+/g, "_")
+    .replace(/\.[^/.]+$/, "");
+
+  return new Promise((resolve, reject) => {
+    const stream = cloudinary.uploader.upload_chunked_stream(
+      {
+        folder: `indicators/evidence/${indicatorId}`,
+        public_id: `${Date.now()}-${randomUUID()}-${cleanFileName}`,
+        resource_type: "auto",
+        type: "authenticated",
+        overwrite: false,
+        chunk_size: 20 * 1024 * 1024,
+      },
+      (error, result) => {
+        if (error || !result) return reject(error);
+        resolve(result);
+      }
+    );
+
+    source.on("error", reject);
+    source.pipe(stream);
+  });
+};
+
 
 type CachedResource = {
   data: any;
@@ -1,14 +1,22 @@
 /* =====================================================
   UTILS / CENTRAL HELPERS
 ===================================================== */
+import Joi from "joi";
 import { Types } from "mongoose";
-import { IEvidence } from "../models/Indicator";
+import {
+  IEvidence,
+  GROUP_ROLLUP_RULES,
+  REPORTING_FREQUENCIES,
+} from "../models/Indicator";
 import { Category } from "../models/Category";
 import ErrorHandler from "../middleware/errorMiddlewares";
 import { notifyUser } from "../services/notification.service";
 import sendMail from "./sendMail";
 import { indicatorCreatedTemplate } from "./mailTemplates";
 import { env } from "../config/env";
+import { StoredObject, getStorageDriver } from "../services/storage";
+import { sha256Of } from "../services/evidenceIntegrity.service";
+import { measurementDefinitionSchema } from "../services/measurement.service";
 
 /* =====================================================
   AUTH / ROLE HELPERS
@@ -16,6 +24,54 @@ import { env } from "../config/env";
 export const hasRole = (role: string | undefined, allowed: string[]) =>
   !!role && allowed.map(r => r.toLowerCase()).includes(role.toLowerCase());
 
+/* =====================================================
+  JOI SCHEMAS
+===================================================== */
+const objectId = Joi.string().hex().length(24);
+
+export const createIndicatorSchema = Joi.object({
+  cycleId: objectId.optional(),
+  categoryId: objectId.required(),
+  level2CategoryId: objectId.required(),
+  indicatorId: objectId.required(),
+  unitOfMeasure: Joi.string().required(),
+  measurement: measurementDefinitionSchema.allow(null).optional(),
+  assignedToType: Joi.string().valid("individual", "group").required(),
+  assignedTo: objectId.allow(null).optional(),
+  assignedGroup: Joi.array().items(objectId).optional(),
+  groupRollup: Joi.string().valid(...GROUP_ROLLUP_RULES).optional(),
+  reportingFrequency: Joi.string()
+    .valid(...REPORTING_FREQUENCIES)
+    .optional(),
+  startDate: Joi.date().required(),
+  dueDate: Joi.date().greater(Joi.ref("startDate")).required(),
+  calendarEvent: Joi.object().optional(),
+}).custom((value, helpers) => {
+  const hasIndividual = !!value.assignedTo;
+  const hasGroup =
+    Array.isArray(value.assignedGroup) && value.assignedGroup.length > 0;
+  if (!hasIndividual && !hasGroup) {
+    return helpers.error("any.custom", {
+      message: "At least one assignee is required",
+    });
+  }
+  return value;
+});
+
+export const reviewPeriodSchema = Joi.object({
+  decision: Joi.string().valid("approved", "rejected").required(),
+  score: Joi.when("decision", {
+    is: "approved",
+    then: Joi.number().min(0).max(100).required(),
+    otherwise: Joi.forbidden(),
+  }),
+  remarks: Joi.when("decision", {
+    is: "rejected",
+    then: Joi.string().trim().required(),
+    otherwise: Joi.string().trim().allow("").optional(),
+  }),
+});
+
 /* =====================================================
   CATEGORY VALIDATION HELPERS
 ===================================================== */
@@ -39,42 +95,70 @@ export const resolveIndicatorTitle = async (indicatorId: string) => {
 /* =====================================================
   EVIDENCE HELPERS
 ===================================================== */
+// Uploads go to whichever backend STORAGE_DRIVER selects; the hash is
+// taken from the bytes we received, before any provider touches them
+export const storeEvidenceFile = async (
+  indicatorId: Types.ObjectId | string,
+  file: Pick<Express.Multer.File, "buffer" | "originalname" | "mimetype">,
+): Promise<StoredObject> => {
+  const sha256 = sha256Of(file.buffer);
+  const stored = await getStorageDriver().put(file.buffer, {
+    folder: `indicators/evidence/${indicatorId}`,
+    fileName: file.originalname,
+    mimeType: file.mimetype,
+  });
+  return { ...stored, sha256 };
+};
+
 export const buildEvidence = (
-  upload: any,
+  stored: StoredObject,
   fileName: string,
   fileSize: number,
   mimeType: string,
   uploadedBy: Types.ObjectId,
   description = "",
   attempt = 0,
-): IEvidence => ({
-  _id: new Types.ObjectId(),
-  type: "file",
-  fileName,
-  fileSize,
-  mimeType,
-  description,
-  publicId: upload.public_id,
-  resourceType: upload.resource_type,
-  cloudinaryType: upload.type,
-  format: upload.format,
-  // Fix: Ensure version is never undefined. 
-  // If upload.version is missing, fallback to 1 or a timestamp.
-  version: upload.version || Date.now(), 
-  status: "active",
-  isArchived: false,
-  isResubmission: attempt > 0,
-  resubmissionAttempt: attempt,
-  uploadedAt: new Date(),
-  uploadedBy,
-});
+  previous?: Pick<IEvidence, "_id" | "slotId" | "revision"> | null,
+): IEvidence => {
+  const _id = new Types.ObjectId();
+  return {
+    _id,
+    type: "file",
+    fileName,
+    fileSize,
+    mimeType,
+    description,
+    storageProvider: stored.provider,
+    publicId: stored.key,
+    resourceType: stored.resourceType,
+    cloudinaryType: stored.cloudinaryType ?? null,
+    format: stored.format,
+    // Fix: Ensure version is never undefined. 
+    // If the driver has no versioning, fall back to a timestamp.
+    version: stored.version || Date.now(), 
+    status: "active",
+    isArchived: false,
+    isResubmission: attempt > 0,
+    resubmissionAttempt: attempt,
+    uploadedAt: new Date(),
+    uploadedBy,
+    slotId: previous ? (previous.slotId ?? previous._id) : _id,
+    revision: previous ? (previous.revision ?? 1) + 1 : 1,
+    supersedes: previous?._id ?? null,
+    sha256: stored.sha256 ?? null,
+    integrityStatus: stored.sha256 ? "verified" : "unverified",
+    integrityCheckedAt: stored.sha256 ? new Date() : null,
+    preview: { status: "pending" },
+    scanStatus: "pending",
+  };
+};
 
 /* =====================================================
   AUDIT / EDIT HISTORY HELPERS
 ===================================================== */
 export const addEditHistory = (
   indicator: any,
-  updatedBy: Types.ObjectId,
+  updatedBy: Types.ObjectId | null,
   changes: Record<string, { old: any; new: any }>
 ) => {
   if (Object.keys(changes).length > 0) {
@@ -0,0 +1,41 @@
+import { ByteRange } from "../services/storage/types";
+
+/**
+ * Parses a single-range `Range: bytes=...` header against a file of
+ * `size` bytes. Returns null when the whole file should be sent
+ * (no header, or a multi-range request we choose not to honour) and
+ * "unsatisfiable" when the range lies outside the file.
+ */
+export const parseRangeHeader = (
+  header: string | undefined,
+  size: number,
+): ByteRange | "unsatisfiable" | null => {
+  if (!header || !size) return null;
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match) return null;
+
+  const [, rawStart, rawEnd] = match;
+  if (!rawStart && !rawEnd) return null;
+
+  // "bytes=-500" asks for the last 500 bytes
+  if (!rawStart) {
+    const suffix = Number(rawEnd);
+    if (suffix === 0) return "unsatisfiable";
+    return { start: Math.max(size - suffix, 0), end: size - 1 };
+  }
+
+  const start = Number(rawStart);
+  const end = rawEnd ? Math.min(Number(rawEnd), size - 1) : size - 1;
+  if (start >= size || start > end) return "unsatisfiable";
+  return { start, end };
+};
+
+// Quoted ASCII fallback plus the RFC 5987 form for non-ASCII names
+export const contentDisposition = (
+  type: "inline" | "attachment",
+  fileName: string,
+) => {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+};
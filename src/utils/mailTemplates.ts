@@ -319,3 +319,132 @@ export const overdueReminderTemplate = ({
     text: `Dear ${userName}, I note that the task "${indicatorTitle}" is overdue. Kindly let me know the challenges you are facing in completing the task and any support you may need. RHC - OFFICE OF THE REGISTRAR HIGH COURT`,
   };
 };
+
+/* ============================================================
+    UPCOMING DEADLINE REMINDER
+============================================================ */
+
+interface DeadlineReminderParams {
+  userName: string;
+  indicatorTitle: string;
+  dueDate: Date;
+  daysRemaining: number;
+  appUrl: string;
+}
+
+export const deadlineReminderTemplate = ({
+  userName,
+  indicatorTitle,
+  dueDate,
+  daysRemaining,
+  appUrl,
+}: DeadlineReminderParams): BaseMailTemplate => {
+  const formattedDate = new Date(dueDate).toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+  const whenLabel =
+    daysRemaining === 0
+      ? "is due today"
+      : `is due in ${daysRemaining} day${daysRemaining === 1 ? "" : "s"}`;
+
+  return {
+    subject: `Reminder: ${indicatorTitle} ${whenLabel}`,
+
+    html: `
+      <div style="background-color: #F8FAFC; padding: 40px 20px; font-family: 'Segoe UI', Roboto, Helvetica, Arial, sans-serif;">
+        <div style="max-width: 600px; margin: 0 auto; background: white; border-radius: 16px; overflow: hidden; border: 1px solid #e2e8f0;">
+          <div style="background-color: #1E3A2B; padding: 30px; text-align: center;">
+            <img src="${LOGO_URL}" alt="Judiciary Logo" style="height: 60px; margin-bottom: 10px;" />
+            <h2 style="color: white; margin: 0; font-size: 18px; font-weight: 700; letter-spacing: 0.5px;">Office of the Registrar High Court</h2>
+          </div>
+
+          <div style="padding: 40px; color: #1e293b; line-height: 1.6;">
+            <p style="margin-top: 0; font-size: 16px;">Dear <strong>${userName}</strong>,</p>
+            <p style="font-size: 15px;">This is a friendly reminder that the following task ${whenLabel}:</p>
+
+            <div style="background: #f1f5f9; padding: 20px; border-radius: 12px; margin: 20px 0; border-left: 4px solid #EFBF04;">
+              <p style="margin: 0; font-weight: 700; color: #1E3A2B; font-size: 16px;">${indicatorTitle}</p>
+              <p style="margin: 5px 0 0 0; font-size: 13px; color: #64748b;">Deadline: ${formattedDate}</p>
+            </div>
+
+            <div style="text-align: center; margin-top: 30px;">
+              <a href="${appUrl}" style="background-color: #1E3A2B; color: #EFBF04; padding: 14px 28px; text-decoration: none; border-radius: 8px; font-weight: 700; font-size: 14px; display: inline-block;">
+                VIEW TASK DETAILS
+              </a>
+            </div>
+          </div>
+        </div>
+      </div>
+    `,
+
+    text: `Dear ${userName}, the task "${indicatorTitle}" ${whenLabel} (${formattedDate}). RHC - OFFICE OF THE REGISTRAR HIGH COURT`,
+  };
+};
+
+/* ============================================================
+    OVERDUE ESCALATION (ASSIGNING ADMIN)
+============================================================ */
+
+interface OverdueEscalationParams {
+  adminName: string;
+  indicatorTitle: string;
+  assignees: string[];
+  dueDate: Date;
+  remindersSent: number;
+  appUrl: string;
+}
+
+export const overdueEscalationTemplate = ({
+  adminName,
+  indicatorTitle,
+  assignees,
+  dueDate,
+  remindersSent,
+  appUrl,
+}: OverdueEscalationParams): BaseMailTemplate => {
+  const formattedDate = new Date(dueDate).toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+
+  return {
+    subject: `[ESCALATION] Overdue Indicator: ${indicatorTitle}`,
+
+    html: `
+      <div style="background-color: ${COLORS.BG}; padding: 40px 20px; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;">
+        <div style="max-width: 600px; margin: 0 auto; background: white; border-radius: 16px; overflow: hidden; border: 1px solid #e5e7eb;">
+          <div style="background-color: ${COLORS.DANGER}; padding: 30px; text-align: center;">
+            <img src="${LOGO_URL}" alt="Judicial Logo" style="height: 60px; margin-bottom: 15px;" />
+            <h2 style="color: white; margin: 0; font-size: 20px;">Overdue Indicator Escalation</h2>
+          </div>
+
+          <div style="padding: 40px; color: ${COLORS.TEXT};">
+            <p style="margin-top: 0; font-size: 16px;">Dear <strong>${adminName}</strong>,</p>
+            <p style="font-size: 15px;">
+              An indicator you assigned remains outstanding after ${remindersSent} overdue reminder(s):
+            </p>
+
+            <div style="background: #fff1f2; padding: 20px; border-radius: 12px; border-left: 4px solid ${COLORS.DANGER}; margin: 25px 0;">
+              <h3 style="margin: 0 0 10px 0; color: ${COLORS.PRIMARY}; font-size: 18px;">${indicatorTitle}</h3>
+              <p style="margin: 0; font-size: 14px; color: ${COLORS.SLATE};">
+                <strong>Responsible:</strong> ${assignees.join(", ") || "Unassigned"}<br />
+                <strong>Deadline:</strong> ${formattedDate}
+              </p>
+            </div>
+
+            <div style="text-align: center; margin-top: 30px;">
+              <a href="${appUrl}" style="background-color: ${COLORS.PRIMARY}; color: white; padding: 14px 28px; text-decoration: none; border-radius: 8px; font-weight: bold; font-size: 14px; display: inline-block;">
+                REVIEW INDICATOR
+              </a>
+            </div>
+          </div>
+        </div>
+      </div>
+    `,
+
+    text: `ESCALATION: "${indicatorTitle}" (deadline ${formattedDate}) is still outstanding after ${remindersSent} reminder(s). Responsible: ${assignees.join(", ") || "Unassigned"}.`,
+  };
+};
@@ -0,0 +1,148 @@
+import { Types } from "mongoose";
+import { env } from "../config/env";
+import type { IReportingPeriod, ReportingFrequency } from "../models/Indicator";
+
+export interface PeriodSlot {
+  key: string;
+  label: string;
+  startDate: Date;
+  endDate: Date;
+  dueDate: Date;
+}
+
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// "FY2025/26" when the fiscal year straddles two calendar years
+const fiscalYearLabel = (startYear: number) =>
+  env.FISCAL_YEAR_START_MONTH === 1
+    ? `FY${startYear}`
+    : `FY${startYear}/${String(startYear + 1).slice(-2)}`;
+
+/**
+ * The quarter or month containing `date`. Quarters are counted from
+ * the start of the fiscal year, so with a July start Q1 is Jul–Sep.
+ */
+const periodContaining = (
+  frequency: Exclude<ReportingFrequency, "none">,
+  date: Date,
+): PeriodSlot => {
+  const year = date.getFullYear();
+  const month = date.getMonth();
+
+  let startDate: Date;
+  let endDate: Date;
+  let key: string;
+  let label: string;
+
+  if (frequency === "monthly") {
+    startDate = new Date(year, month, 1);
+    endDate = new Date(year, month + 1, 0, 23, 59, 59, 999);
+    key = `${year}-${String(month + 1).padStart(2, "0")}`;
+    label = `${MONTHS[month]} ${year}`;
+  } else {
+    const offset = (month - (env.FISCAL_YEAR_START_MONTH - 1) + 12) % 12;
+    const quarter = Math.floor(offset / 3) + 1;
+    const fiscalYear = new Date(year, month - offset, 1).getFullYear();
+    startDate = new Date(year, month - (offset % 3), 1);
+    endDate = new Date(
+      startDate.getFullYear(),
+      startDate.getMonth() + 3,
+      0,
+      23,
+      59,
+      59,
+      999,
+    );
+    key = `FY${fiscalYear}-Q${quarter}`;
+    label = `Q${quarter} ${fiscalYearLabel(fiscalYear)}`;
+  }
+
+  return {
+    key,
+    label,
+    startDate,
+    endDate,
+    dueDate: new Date(
+      endDate.getTime() + env.PERIOD_REPORT_GRACE_DAYS * DAY_MS,
+    ),
+  };
+};
+
+/**
+ * Every period overlapping the indicator's start and due dates. Each
+ * report is due a grace period after its quarter or month ends.
+ */
+export const buildPeriodSchedule = (
+  frequency: ReportingFrequency,
+  startDate: Date,
+  dueDate: Date,
+): PeriodSlot[] => {
+  if (frequency === "none" || !startDate || !dueDate) return [];
+
+  const slots: PeriodSlot[] = [];
+  let cursor = new Date(startDate);
+  while (cursor <= dueDate) {
+    const slot = periodContaining(frequency, cursor);
+    slots.push(slot);
+    cursor = new Date(slot.endDate.getTime() + 1);
+  }
+  return slots;
+};
+
+/**
+ * Lines existing periods up with a fresh schedule. Periods are matched
+ * by key so submissions survive a date change; periods that fall out
+ * of the schedule are dropped only if nothing was ever submitted.
+ */
+export const mergeReportingPeriods = (
+  existing: IReportingPeriod[],
+  schedule: PeriodSlot[],
+): IReportingPeriod[] => {
+  const byKey = new Map(existing.map((p) => [p.key, p]));
+  const scheduled = new Set(schedule.map((s) => s.key));
+  const now = new Date();
+
+  const periods = schedule.map((slot) => {
+    const current = byKey.get(slot.key);
+    if (!current)
+      return {
+        _id: new Types.ObjectId(),
+        ...slot,
+        status: "pending",
+        submissionCount: 0,
+      } as IReportingPeriod;
+
+    Object.assign(current, slot);
+    // A deadline moved into the future lifts the overdue flag
+    if (current.status === "overdue" && current.dueDate > now) {
+      current.status = "pending";
+      current.overdueAt = null;
+    }
+    return current;
+  });
+
+  const kept = existing.filter(
+    (p) =>
+      !scheduled.has(p.key) &&
+      (p.status !== "pending" || p.submissionCount > 0),
+  );
+
+  return [...periods, ...kept].sort(
+    (a, b) => a.startDate.getTime() - b.startDate.getTime(),
+  );
+};
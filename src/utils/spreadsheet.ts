@@ -0,0 +1,104 @@
+import ExcelJS from "exceljs";
+import { Readable } from "stream";
+import ErrorHandler from "../middleware/errorMiddlewares";
+
+export type SpreadsheetRow = {
+  // 1-based row number as seen by the person editing the sheet
+  rowNumber: number;
+  values: Record<string, string>;
+};
+
+// "Due Date", "due_date" and "dueDate" all map to "duedate"
+export const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const cellToString = (value: ExcelJS.CellValue): string => {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") {
+    if ("text" in value && typeof value.text === "string") return value.text;
+    if ("richText" in value)
+      return value.richText.map((part) => part.text).join("");
+    // A formula's cached result is itself a cell value
+    if ("result" in value) return cellToString(value.result);
+    return "";
+  }
+  return String(value).trim();
+};
+
+// Spreadsheet apps evaluate cells starting with these as formulas; a
+// leading tab or carriage return can hide one from a quick look
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export const isFormulaLike = (value: unknown): value is string =>
+  typeof value === "string" && FORMULA_PREFIX.test(value);
+
+/**
+ * Prefixes formula-like text with a quote so spreadsheet apps open it
+ * as text. For CSV exports, where cells carry no type.
+ */
+export const neutralizeFormulas = <T extends object>(row: T): T =>
+  Object.fromEntries(
+    Object.entries(row).map(([key, value]) => [
+      key,
+      isFormulaLike(value) ? `'${value}` : value,
+    ]),
+  ) as T;
+
+const isXlsx = (fileName: string, mimeType: string) =>
+  fileName.toLowerCase().endsWith(".xlsx") ||
+  mimeType === "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+/**
+ * Reads the first worksheet of a CSV or XLSX upload into keyed rows.
+ * The first row is treated as the header; blank rows are skipped.
+ */
+export const readSpreadsheetRows = async (
+  buffer: Buffer,
+  fileName: string,
+  mimeType: string,
+): Promise<SpreadsheetRow[]> => {
+  const workbook = new ExcelJS.Workbook();
+  let sheet: ExcelJS.Worksheet | undefined;
+
+  try {
+    if (isXlsx(fileName, mimeType)) {
+      // exceljs is typed for a plain ArrayBuffer; copy the upload into one
+      const data = new Uint8Array(buffer).buffer;
+      await workbook.xlsx.load(data);
+      sheet = workbook.worksheets[0];
+    } else {
+      // Keep every CSV cell as text so PJ numbers keep their leading zeros
+      sheet = await workbook.csv.read(Readable.from(buffer), {
+        map: (value: any) => value,
+      });
+    }
+  } catch {
+    throw new ErrorHandler(400, "Unable to read spreadsheet file");
+  }
+
+  if (!sheet || sheet.rowCount < 2)
+    throw new ErrorHandler(400, "Spreadsheet has no data rows");
+
+  const headerRow = sheet.getRow(1);
+  const headers: string[] = [];
+  headerRow.eachCell({ includeEmpty: true }, (cell, col) => {
+    headers[col] = normalizeHeader(cellToString(cell.value));
+  });
+
+  const rows: SpreadsheetRow[] = [];
+  sheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+    if (rowNumber === 1) return;
+
+    const values: Record<string, string> = {};
+    row.eachCell({ includeEmpty: true }, (cell, col) => {
+      const key = headers[col];
+      if (key) values[key] = cellToString(cell.value);
+    });
+
+    if (Object.values(values).some((v) => v !== ""))
+      rows.push({ rowNumber, values });
+  });
+
+  return rows;
+};
@@ -0,0 +1,33 @@
+import { env } from "../config/env";
+
+const isWorkingDay = (date: Date) => {
+  const day = date.getDay();
+  if (day === 0 || day === 6) return false;
+  const iso = [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+  return !env.PUBLIC_HOLIDAYS.includes(iso);
+};
+
+/**
+ * The same time of day `days` working days after `start`, skipping
+ * weekends and the configured public holidays. Work handed in on a
+ * weekend is due as if it arrived at the start of the next working day.
+ */
+export const addWorkingDays = (start: Date, days: number) => {
+  const due = new Date(start);
+  if (!isWorkingDay(due)) {
+    do due.setDate(due.getDate() + 1);
+    while (!isWorkingDay(due));
+    due.setHours(0, 0, 0, 0);
+  }
+
+  let remaining = days;
+  while (remaining > 0) {
+    due.setDate(due.getDate() + 1);
+    if (isWorkingDay(due)) remaining--;
+  }
+  return due;
+};